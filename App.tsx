@@ -1,12 +1,38 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { CPU8085 } from './services/8085';
-import { CPUState, InteractionMode, Registers, Flags } from './types';
+import { CPUState, InteractionMode, Registers, Flags, Breakpoint, Watchpoint, BreakReason, InterruptLine, MemoryFault, MemoryRegion, RunTarget } from './types';
 import { toHexString } from './utils/formatters';
 import DisplayPanel from './components/DisplayPanel';
 import Keypad from './components/Keypad';
 import RegisterView from './components/RegisterView';
 import MemoryView from './components/MemoryView';
 import ControlPanel from './components/ControlPanel';
+import CodeEditor from './components/CodeEditor';
+import DisassemblyView from './components/DisassemblyView';
+import DebuggerPanel from './components/DebuggerPanel';
+import HistoryView from './components/HistoryView';
+import StackPanel from './components/StackPanel';
+import InterruptPanel from './components/InterruptPanel';
+import TerminalPanel from './components/TerminalPanel';
+import PPIPanel from './components/PPIPanel';
+import PITPanel, { PITOutputWiring } from './components/PITPanel';
+import KeyboardDisplayPanel from './components/KeyboardDisplayPanel';
+import MemoryMapPanel from './components/MemoryMapPanel';
+import SessionPanel from './components/SessionPanel';
+import { SoftwareUart } from './services/serial';
+import { PPI8255, PPIPort } from './services/ppi8255';
+import { PIT8254 } from './services/pit8254';
+import { KDC8279, KEY_CODES } from './services/kdc8279';
+import { IODevice } from './services/bus';
+import { installMonitor, monitorFits, monitorReturn, monitorWorkspace, placeMonitorStack, resetVectorSlots, vectorSlots, MONITOR_ROUTINES } from './services/monitor';
+import { MemoryMap, DEFAULT_MEMORY_MAP, MEMORY_MAP_PRESETS, validateRegions } from './services/memoryMap';
+import { SessionStore, SessionSnapshot, AUTOSAVE_SLOT, SESSION_VERSION, saveCPU, restoreCPU, serializeSession, parseSession } from './services/persistence';
+import { Debugger, describeFault, stepOverTarget, stepOutTarget } from './services/debugger';
+import { ExecutionScheduler, RunSpeed, DEFAULT_SPEED } from './services/scheduler';
+import { CPUWorkerClient, createSharedMemory, applyWorkerSnapshot } from './services/cpuWorkerClient';
+import { applyMachineState, captureMachineState, machineConfig, needsHost } from './services/workerProtocol';
+import { AssemblyResult, MemorySegment } from './services/assembler';
+import { loadImage } from './services/runner';
 import instructionSet from './data/instructions.json';
 
 interface Instruction {
@@ -26,8 +52,63 @@ interface InstructionSet {
 
 const { instructions } = instructionSet as InstructionSet;
 
+const SAMPLE_PROGRAM = `; Adding two numbers (25H + 35H)
+        ORG 2000H
+START:  MVI A, 25H    ; Load 25H into accumulator
+        MVI B, 35H    ; Load 35H into register B
+        ADD B         ; Add B to A
+        HLT           ; Halt the program
+`;
+
+// Trainer kit default: port A 00H, port B 01H, port C 02H, control register 03H
+const PPI_BASE_PORT = 0x00;
+// Counters 0-2 at 08H-0AH, control register 0BH
+const PIT_BASE_PORT = 0x08;
+// 8279 data port 40H, command/status port 41H
+const KDC_BASE_PORT = 0x40;
+
+const AUTOSAVE_INTERVAL_MS = 5000;
+const AUTOSAVE_SETTING_KEY = 'i8085.autosave';
+// Bytes of stack a program may use before the stack panel reports an overflow
+const DEFAULT_STACK_LIMIT = 256;
+
+// Run loop callbacks, shared by the main-thread scheduler and worker runs
+interface RunHooks {
+  step: () => boolean;                  // False when the run has stopped
+  refresh: (effectiveHz: number) => void;
+}
+
 const App: React.FC = () => {
-  const [cpu] = useState(() => new CPU8085());
+  const [cpu] = useState(() => {
+    const processor = new CPU8085(createSharedMemory());
+    processor.memoryMap = new MemoryMap(DEFAULT_MEMORY_MAP.regions);
+    // Lab exercises expect BCD results after SUB/SBB to come out right; the DAA setting switches back to the real chip's behaviour
+    processor.daaMode = 'subtract-aware';
+    resetVectorSlots(processor);
+    placeMonitorStack(processor);
+    return processor;
+  });
+  const [debuggerService] = useState(() => new Debugger(cpu));
+  const [uart] = useState(() => {
+    const serial = new SoftwareUart();
+    cpu.serialLine = serial;
+    return serial;
+  });
+  const [terminalOutput, setTerminalOutput] = useState('');
+  const [ppi] = useState(() => new PPI8255());
+  const [ppiBasePort, setPpiBasePort] = useState(PPI_BASE_PORT);
+  const [ppiLedPort, setPpiLedPort] = useState<PPIPort>('A');
+  const [ppiSwitchPort, setPpiSwitchPort] = useState<PPIPort>('B');
+  const [ppiSwitches, setPpiSwitches] = useState(0x00);
+  const [pit] = useState(() => new PIT8254());
+  const [pitBasePort, setPitBasePort] = useState(PIT_BASE_PORT);
+  const [pitWiring, setPitWiring] = useState<PITOutputWiring[]>([null, null, null]);
+  const [kdc] = useState(() => new KDC8279());
+  const [kdcBasePort, setKdcBasePort] = useState(KDC_BASE_PORT);
+  const [programDisplay, setProgramDisplay] = useState(false); // A program, not the built-in monitor, drives the display
+  const [memoryMapPreset, setMemoryMapPreset] = useState<string | null>(DEFAULT_MEMORY_MAP.id);
+  const [memoryRegions, setMemoryRegions] = useState<MemoryRegion[]>(DEFAULT_MEMORY_MAP.regions);
+  const memoryMap = useMemo(() => new MemoryMap(memoryRegions), [memoryRegions]);
   const [cpuState, setCpuState] = useState<CPUState>(cpu.getState());
   const [mode, setMode] = useState<InteractionMode>(InteractionMode.IDLE);
   const [inputBuffer, setInputBuffer] = useState<string>('');
@@ -35,11 +116,187 @@ const App: React.FC = () => {
   const [currentDataDisplay, setCurrentDataDisplay] = useState<number>(0x00);
   const [memoryViewStartAddress, setMemoryViewStartAddress] = useState<number>(0x0000);
   const [isRunning, setIsRunning] = useState<boolean>(false);
-  const runIntervalRef = useRef<number | null>(null);
+  const runHooksRef = useRef<RunHooks>({ step: () => false, refresh: () => {} });
+  const [scheduler] = useState(() => {
+    const runner: ExecutionScheduler = new ExecutionScheduler(cpu, {
+      step: () => runHooksRef.current.step(),
+      refresh: () => runHooksRef.current.refresh(runner.effectiveHz),
+    });
+    return runner;
+  });
+  const workerRef = useRef<CPUWorkerClient | null>(null);
+  // The worker run in progress; `keep` is cleared when its final state is stale (after RESET)
+  const workerRunRef = useRef<{ keep: boolean } | null>(null);
+  const runTargetRef = useRef<RunTarget | null>(null); // Where the current run stops early, if anywhere
+  const [runSpeed, setRunSpeed] = useState<RunSpeed>(DEFAULT_SPEED);
+  const [effectiveHz, setEffectiveHz] = useState(0);
+  const [cursorAddress, setCursorAddress] = useState<number | null>(null); // Run To Cursor destination
+  const [stackLimit, setStackLimit] = useState(DEFAULT_STACK_LIMIT);
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [showInstructions, setShowInstructions] = useState(false);
   const [activeTab, setActiveTab] = useState('instructions');
   const [searchTerm, setSearchTerm] = useState('');
+  const [source, setSource] = useState(SAMPLE_PROGRAM);
+  const [breakpoints, setBreakpoints] = useState<Breakpoint[]>([]);
+  const [watchpoints, setWatchpoints] = useState<Watchpoint[]>([]);
+  const [breakReason, setBreakReason] = useState<BreakReason | null>(null);
+  const [workerFailure, setWorkerFailure] = useState<string | null>(null); // Why runs fell back to the main thread
+  const [sessionStore] = useState(() => new SessionStore(window.localStorage));
+  const [sessionSlots, setSessionSlots] = useState(() => sessionStore.list());
+  const [autosave, setAutosave] = useState(() => window.localStorage.getItem(AUTOSAVE_SETTING_KEY) !== 'off');
+  const [pendingSession, setPendingSession] = useState<SessionSnapshot | null>(null);
+
+  // Continuous runs go to the CPU worker, which mirrors its state back while it runs
+  useEffect(() => {
+    const client = CPUWorkerClient.create();
+    if (!client) return;
+    client.onProgress = ({ state, effectiveHz, memory }) => {
+      if (!workerRunRef.current) return;
+      applyMachineState(cpu, state);
+      if (memory) cpu.memory.set(memory);
+      cpu.tickDevices();
+      runHooksRef.current.refresh(effectiveHz);
+    };
+    workerRef.current = client;
+    return () => {
+      client.terminate();
+      workerRef.current = null;
+    };
+  }, [cpu]);
+
+  useEffect(() => {
+    debuggerService.setBreakpoints(breakpoints);
+  }, [debuggerService, breakpoints]);
+
+  useEffect(() => {
+    debuggerService.setWatchpoints(watchpoints);
+  }, [debuggerService, watchpoints]);
+
+  useEffect(() => {
+    void workerRef.current?.setBreakpoints(breakpoints, watchpoints);
+  }, [breakpoints, watchpoints]);
+
+  // During a worker run the live CPU is in the worker, so interrupt inputs go there too
+  const setInterruptLine = useCallback((line: InterruptLine, level: boolean) => {
+    cpu.setInterruptLine(line, level);
+    void workerRef.current?.setInterruptLine(line, level);
+  }, [cpu]);
+
+  useEffect(() => {
+    uart.onReceive = (byte, framingError) => {
+      // Backspace erases; framing errors show as a replacement character
+      setTerminalOutput(prev => byte === 0x08 ? prev.slice(0, -1) : prev + (framingError ? '\uFFFD' : String.fromCharCode(byte)));
+    };
+    return () => { uart.onReceive = null; };
+  }, [uart]);
+
+  useEffect(() => cpu.bus.mapPorts(ppi, ppiBasePort, 4), [cpu, ppi, ppiBasePort]);
+
+  useEffect(() => cpu.bus.mapPorts(pit, pitBasePort, 4), [cpu, pit, pitBasePort]);
+
+  useEffect(() => {
+    // Each wired interrupt line follows the OR of the OUT pins connected to it
+    const drive = () => {
+      const counters = pit.getState();
+      new Set(pitWiring).forEach(line => {
+        if (line) setInterruptLine(line, counters.some((counter, i) => pitWiring[i] === line && counter.out));
+      });
+    };
+    pit.onOutputChange = drive;
+    drive();
+    return () => {
+      pit.onOutputChange = null;
+      pitWiring.forEach(line => { if (line) setInterruptLine(line, false); });
+    };
+  }, [pit, pitWiring, setInterruptLine]);
+
+  useEffect(() => cpu.bus.mapPorts(kdc, kdcBasePort, 2), [cpu, kdc, kdcBasePort]);
+
+  // The vector slots follow the top of RAM, so a new map gets fresh ones
+  useEffect(() => {
+    cpu.memoryMap = memoryMap;
+    resetVectorSlots(cpu);
+  }, [cpu, memoryMap]);
+
+  // The monitor ROM is built for wherever the 8279 and the vector slots sit
+  useEffect(() => {
+    installMonitor(cpu, kdcBasePort);
+    setCpuState(cpu.getState());
+  }, [cpu, kdcBasePort, memoryMap]);
+
+  // Runs after the memory map and monitor effects above, which would otherwise
+  // overwrite the restored vector slots when a session brings a different map
+  useEffect(() => {
+    if (!pendingSession) return;
+    // Devices first: their IRQ and OUT pins may drive interrupt lines, and the saved latches should win
+    const { devices } = pendingSession;
+    if (devices) {
+      ppi.restoreState(devices.ppi);
+      pit.restoreState(devices.pit);
+      kdc.restoreState(devices.kdc);
+    } else {
+      ppi.reset();
+      pit.reset();
+      kdc.reset();
+    }
+    restoreCPU(cpu, pendingSession.cpu);
+    setCurrentExamAddress(pendingSession.examAddress);
+    setCpuState(cpu.getState());
+    setPendingSession(null);
+  }, [cpu, ppi, pit, kdc, pendingSession]);
+
+  useEffect(() => {
+    // As on the SDK-85, the 8279 IRQ line drives RST 5.5
+    kdc.onIrqChange = level => setInterruptLine('RST5.5', level);
+    kdc.onDisplayWrite = () => setProgramDisplay(true);
+    return () => {
+      kdc.onIrqChange = null;
+      kdc.onDisplayWrite = null;
+      setInterruptLine('RST5.5', false);
+    };
+  }, [kdc, setInterruptLine]);
+
+  // Moves a device if the new ports are free; the mapping effects re-attach it
+  const relocate = (device: IODevice, count: number, setBasePort: (port: number) => void) => (port: number): boolean => {
+    for (let i = 0; i < count; i++) {
+      const mapping = cpu.bus.findPort(port + i);
+      if (mapping && mapping.device !== device) return false;
+    }
+    setBasePort(port);
+    return true;
+  };
+
+  const handleMemoryMapPreset = (id: string) => {
+    const preset = MEMORY_MAP_PRESETS.find(p => p.id === id);
+    if (!preset) return;
+    setMemoryMapPreset(preset.id);
+    setMemoryRegions(preset.regions);
+  };
+
+  const handleMemoryRegionsChange = (regions: MemoryRegion[]): string | null => {
+    try {
+      validateRegions(regions);
+    } catch (e) {
+      return (e as Error).message;
+    }
+    setMemoryMapPreset(null);
+    setMemoryRegions(regions);
+    return null;
+  };
+
+  // The switches drive the input pins of whichever port they are wired to
+  useEffect(() => {
+    ppi.setInput(ppiSwitchPort, ppiSwitches);
+    return () => ppi.setInput(ppiSwitchPort, 0x00);
+  }, [ppi, ppiSwitchPort, ppiSwitches]);
+
+  const breakpointAddresses = new Set(breakpoints.map(bp => bp.address));
+
+  const handleToggleBreakpoint = useCallback((address: number) => {
+    setBreakpoints(prev => prev.some(bp => bp.address === address)
+      ? prev.filter(bp => bp.address !== address)
+      : [...prev, { address, enabled: true }].sort((a, b) => a.address - b.address));
+  }, []);
 
   const refreshUI = useCallback(() => {
     const newState = cpu.getState();
@@ -55,56 +312,359 @@ const App: React.FC = () => {
 
   const handleReset = useCallback(() => {
     cpu.reset();
+    placeMonitorStack(cpu);
+    uart.reset();
     setInputBuffer('');
     setCurrentExamAddress(0x0000);
     setMode(InteractionMode.IDLE);
     setIsRunning(false);
-    if (runIntervalRef.current) clearInterval(runIntervalRef.current);
+    setBreakReason(null);
+    setProgramDisplay(false);
+    scheduler.stop();
+    runTargetRef.current = null;
+    debuggerService.setRunTarget(null);
+    if (workerRunRef.current) {
+      workerRunRef.current.keep = false;
+      workerRunRef.current = null;
+      void workerRef.current?.pause();
+    }
     refreshUI();
-  }, [cpu, refreshUI]);
+  }, [cpu, uart, debuggerService, scheduler, refreshUI]);
 
   const handleExecuteStep = useCallback(() => {
-    if (!cpu.halted && !isRunning) {
+    // A halted CPU can still step into a pending interrupt
+    if ((!cpu.halted || cpu.hasPendingInterrupt()) && !isRunning) {
+      debuggerService.beginStep();
       cpu.step();
+      // A single step always completes, but report what it would have stopped on
+      setBreakReason(debuggerService.check() ?? monitorReturn(cpu));
       refreshUI();
       // After step, PC is the new current address for memory view focus
       setCurrentExamAddress(cpu.registers.PC); 
     }
+  }, [cpu, debuggerService, refreshUI, isRunning]);
+
+  const handleStepBack = useCallback((count: number = 1) => {
+    if (isRunning) return;
+    if (cpu.stepBack(count) > 0) {
+      setBreakReason(null);
+      refreshUI();
+      setCurrentExamAddress(cpu.registers.PC);
+    }
   }, [cpu, refreshUI, isRunning]);
 
+  const handleRaiseInterrupt = useCallback((line: InterruptLine, intrOpcode?: number) => {
+    cpu.raiseInterrupt(line, intrOpcode);
+    void workerRef.current?.raiseInterrupt(line, intrOpcode);
+    refreshUI();
+  }, [cpu, refreshUI]);
+
   const stopExecution = useCallback(() => {
     setIsRunning(false);
-    if (runIntervalRef.current) {
-      clearInterval(runIntervalRef.current);
-      runIntervalRef.current = null;
+    scheduler.stop();
+    runTargetRef.current = null;
+    debuggerService.setRunTarget(null);
+    if (workerRunRef.current) {
+      workerRunRef.current = null; // The run applies the worker's final state when it comes back
+      void workerRef.current?.pause();
     }
     refreshUI(); // Update UI to reflect stopped state, like HLT flag if applicable
-  }, [refreshUI]);
+  }, [debuggerService, scheduler, refreshUI]);
+
+  // The 8254 counts CPU clocks, so a program using it runs here where every step ticks it.
+  // The worker has no memory-mapped devices either, so with any attached the whole run stays here.
+  const mustRunHere = useCallback(
+    () => cpu.bus.mappings.memory.length > 0 || pit.getState().some(counter => counter.programmed),
+    [cpu, pit],
+  );
+
+  // Runs in the worker until the program stops, taking back the instructions
+  // that need a device here
+  const runInWorker = useCallback(async (client: CPUWorkerClient) => {
+    const run = { keep: true };
+    workerRunRef.current = run;
+    let memoryChanged = true; // Whether the worker's copy of memory is out of date, when not shared
+    try {
+      while (workerRunRef.current === run) {
+        const config = machineConfig(cpu);
+        const memory = cpu.memory.buffer instanceof SharedArrayBuffer ? cpu.memory.buffer : memoryChanged ? cpu.memory : undefined;
+        await client.load(config, captureMachineState(cpu), memory);
+        memoryChanged = false;
+        if (workerRunRef.current !== run) return; // Stopped before it got going
+        const { reason, snapshot } = await client.run(scheduler.speed, runTargetRef.current ?? undefined);
+        if (!run.keep) return;
+        applyWorkerSnapshot(cpu, snapshot);
+        if (workerRunRef.current !== run) { // STOP was pressed
+          runHooksRef.current.refresh(0);
+          return;
+        }
+        if (reason.kind === 'host') {
+          // IN, OUT, RIM and SIM leave memory alone, but an interrupt they raise pushes onto the stack
+          const unsubscribe = cpu.addMemoryListener(access => {
+            if (access.type === 'write') memoryChanged = true;
+          });
+          let running: boolean;
+          try {
+            do running = runHooksRef.current.step(); while (running && needsHost(cpu, config));
+          } finally {
+            unsubscribe();
+          }
+          if (running && workerRunRef.current === run && mustRunHere()) {
+            // The program has just programmed the 8254: carry on here so it is clocked every step
+            workerRunRef.current = null;
+            scheduler.start();
+            return;
+          }
+          continue;
+        }
+        if (reason.kind === 'break') {
+          setBreakReason(reason.reason.kind === 'target' ? null : reason.reason);
+          setCurrentExamAddress(cpu.registers.PC);
+        }
+        stopExecution();
+      }
+    } catch (e) {
+      // Carry on here without the worker
+      setWorkerFailure((e as Error).message);
+      workerRef.current = null;
+      if (workerRunRef.current === run) {
+        workerRunRef.current = null;
+        scheduler.start();
+      }
+    }
+  }, [cpu, scheduler, stopExecution, mustRunHere]);
+
+  // Runs from the current PC until the program stops, or until `target` is reached
+  const beginRun = useCallback((target: RunTarget | null) => {
+    setIsRunning(true);
+    setBreakReason(null);
+    runTargetRef.current = target;
+    debuggerService.setRunTarget(target);
+
+    const client = workerRef.current;
+    if (client && !mustRunHere()) void runInWorker(client);
+    else scheduler.start();
+  }, [debuggerService, scheduler, runInWorker, mustRunHere]);
 
   const startContinuousExecution = useCallback((startAddress: number) => {
     if (isRunning) return; // Already running
 
     cpu.registers.PC = startAddress;
     cpu.halted = false; // Ensure CPU is not halted
-    setIsRunning(true);
+    beginRun(null);
+  }, [cpu, beginRun, isRunning]);
+
+  // Runs a CALL or RST through to its return; anything else is a single step
+  const handleStepOver = useCallback(() => {
+    if (isRunning) return;
+    const target = stepOverTarget(cpu);
+    if (target) beginRun(target);
+    else handleExecuteStep();
+  }, [cpu, beginRun, handleExecuteStep, isRunning]);
 
-    runIntervalRef.current = window.setInterval(() => {
-      if (cpu.halted) {
+  const handleStepOut = useCallback(() => {
+    if (isRunning) return;
+    beginRun(stepOutTarget(cpu));
+  }, [cpu, beginRun, isRunning]);
+
+  const handleRunToCursor = useCallback(() => {
+    if (isRunning || cursorAddress === null) return;
+    beginRun({ kind: 'address', address: cursorAddress });
+  }, [beginRun, cursorAddress, isRunning]);
+
+  // The scheduler calls through this ref so it always sees the latest callbacks
+  runHooksRef.current = {
+    step: () => {
+      // HLT with interrupts enabled waits for an interrupt instead of stopping
+      if (cpu.halted && !cpu.canWakeFromHalt()) {
         stopExecution();
-        return;
+        return false;
       }
+      debuggerService.beginStep();
       cpu.step();
-      // Potentially throttle UI refresh for performance during fast execution
-      // For now, refresh every step.
-      // To make it faster visually, refresh UI less often, e.g. every 100 steps.
-      refreshUI(); 
-      setCurrentExamAddress(cpu.registers.PC); 
-    }, 50); // Adjust interval for speed, 50ms is 20 instructions/sec
-  }, [cpu, refreshUI, stopExecution, isRunning]);
+      const reason = debuggerService.check() ?? monitorReturn(cpu);
+      if (reason) {
+        setBreakReason(reason.kind === 'target' ? null : reason); // Reaching a step target is not worth a message
+        setCurrentExamAddress(cpu.registers.PC);
+        stopExecution();
+        return false;
+      }
+      return true;
+    },
+    refresh: effectiveHz => {
+      refreshUI();
+      setCurrentExamAddress(cpu.registers.PC);
+      setEffectiveHz(effectiveHz);
+    },
+  };
+
+  useEffect(() => () => scheduler.stop(), [scheduler]);
+
+  const handleSpeedChange = useCallback((speed: RunSpeed) => {
+    scheduler.speed = speed;
+    void workerRef.current?.setSpeed(speed);
+    setRunSpeed(speed);
+  }, [scheduler]);
+
+
+  const captureSession = (): SessionSnapshot => ({
+    version: SESSION_VERSION,
+    savedAt: new Date().toISOString(),
+    cpu: saveCPU(cpu),
+    io: {
+      ppiBasePort, ppiLedPort, ppiSwitchPort, ppiSwitches, pitBasePort, pitWiring, kdcBasePort,
+      memoryMapPreset, memoryRegions, programDisplay,
+    },
+    devices: { ppi: ppi.saveState(), pit: pit.saveState(), kdc: kdc.saveState() },
+    breakpoints,
+    watchpoints,
+    source,
+    examAddress: currentExamAddress,
+  });
+  const captureSessionRef = useRef(captureSession);
+  captureSessionRef.current = captureSession;
+
+  // The CPU itself is restored by the pending-session effect once the I/O configuration is in place
+  const applySession = (session: SessionSnapshot) => {
+    const { io } = session;
+    setPpiBasePort(io.ppiBasePort);
+    setPpiLedPort(io.ppiLedPort);
+    setPpiSwitchPort(io.ppiSwitchPort);
+    setPpiSwitches(io.ppiSwitches);
+    setPitBasePort(io.pitBasePort);
+    setPitWiring(io.pitWiring);
+    setKdcBasePort(io.kdcBasePort);
+    setMemoryMapPreset(io.memoryMapPreset);
+    setMemoryRegions(io.memoryRegions);
+    setBreakpoints(session.breakpoints);
+    setWatchpoints(session.watchpoints);
+    setSource(session.source);
+    setMode(InteractionMode.IDLE);
+    setInputBuffer('');
+    setBreakReason(null);
+    setProgramDisplay(io.programDisplay ?? false);
+    setPendingSession(session);
+  };
+
+  // Restore where the last visit left off
+  useEffect(() => {
+    if (!autosave) return;
+    try {
+      const saved = sessionStore.load(AUTOSAVE_SLOT);
+      if (saved) applySession(saved);
+    } catch {
+      // An unreadable autosave is ignored and overwritten by the next one
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!autosave) return;
+    const save = () => {
+      try {
+        sessionStore.save(AUTOSAVE_SLOT, captureSessionRef.current());
+      } catch {
+        // Storage full: keep running, the manual slots still report it
+      }
+    };
+    const timer = window.setInterval(() => {
+      save();
+      setSessionSlots(sessionStore.list());
+    }, AUTOSAVE_INTERVAL_MS);
+    window.addEventListener('pagehide', save);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('pagehide', save);
+    };
+  }, [sessionStore, autosave]);
+
+  const handleAutosaveChange = (enabled: boolean) => {
+    window.localStorage.setItem(AUTOSAVE_SETTING_KEY, enabled ? 'on' : 'off');
+    setAutosave(enabled);
+  };
+
+  const handleSaveSession = (name: string): string | null => {
+    try {
+      sessionStore.save(name, captureSession());
+    } catch (e) {
+      return (e as Error).message;
+    }
+    setSessionSlots(sessionStore.list());
+    return null;
+  };
+
+  const handleLoadSession = (name: string): string | null => {
+    try {
+      const session = sessionStore.load(name);
+      if (!session) return `No session named '${name}'`;
+      applySession(session);
+    } catch (e) {
+      return (e as Error).message;
+    }
+    return null;
+  };
+
+  const handleImportSession = (text: string): string | null => {
+    try {
+      applySession(parseSession(text));
+    } catch (e) {
+      return (e as Error).message;
+    }
+    return null;
+  };
+
+  const handleDeleteSession = (name: string) => {
+    sessionStore.remove(name);
+    setSessionSlots(sessionStore.list());
+  };
 
+  // Loads through the CPU so the memory map applies; returns how many bytes had no RAM to go to
+  const loadSegments = useCallback((segments: MemorySegment[]): number => {
+    let skipped = 0;
+    segments.forEach(segment => {
+      cpu.loadBytes(segment.address, segment.bytes);
+      segment.bytes.forEach((_, i) => {
+        const address = (segment.address + i) & 0xFFFF;
+        if (memoryMap.kindAt(address) !== 'ram' && !cpu.bus.findMemory(address)) skipped++;
+      });
+    });
+    cpu.clearHistory();
+    return skipped;
+  }, [cpu, memoryMap]);
+
+  const handleLoadProgram = useCallback((result: AssemblyResult) => {
+    const skipped = loadSegments(result.segments);
+    cpu.registers.PC = result.entryPoint;
+    cpu.halted = false;
+    cpu.resetStackTracking(); // Flags from the last program's stack do not carry over
+    setCurrentExamAddress(result.entryPoint);
+    setMode(InteractionMode.IDLE);
+    setInputBuffer('');
+    refreshUI();
+    if (skipped > 0) return `${skipped} bytes fell outside RAM and were not loaded`;
+  }, [cpu, loadSegments, refreshUI]);
+
+  // Intel HEX files carry their own addresses, source is assembled, anything else is a raw image at `base`
+  const handleLoadImage = useCallback((fileName: string, data: Uint8Array, base: number): string => {
+    const { segments } = loadImage(fileName, data, base);
+    const total = segments.reduce((n, segment) => n + segment.bytes.length, 0);
+    if (total === 0) return `${fileName}: no data`;
+    const skipped = loadSegments(segments);
+    setCurrentExamAddress(segments[0].address);
+    setMemoryViewStartAddress(segments[0].address & 0xFFF0);
+    refreshUI();
+    const where = segments.map(segment =>
+      `${toHexString(segment.address, 4)}H-${toHexString(segment.address + segment.bytes.length - 1, 4)}H`).join(', ');
+    return `Loaded ${total - skipped} of ${total} bytes at ${where}` + (skipped > 0 ? ' (the rest fell outside RAM)' : '');
+  }, [loadSegments, refreshUI]);
 
   const handleKeyPress = useCallback((key: string) => {
-    if (isRunning) return; // No keypad input while running
+    // A running program reads the keypad through the 8279
+    if (isRunning) {
+      if (key in KEY_CODES) kdc.pressKey(KEY_CODES[key]);
+      refreshUI();
+      return;
+    }
+    setProgramDisplay(false); // The monitor takes the display back
 
     const hexChars = "0123456789ABCDEF";
     if (hexChars.includes(key)) {
@@ -127,7 +687,16 @@ const App: React.FC = () => {
           if (mode === InteractionMode.EXAM_MEM_DATA_VIEW && inputBuffer.length > 0) {
             const dataToStore = parseInt(inputBuffer, 16);
             if (!isNaN(dataToStore)) {
+              cpu.fault = null; // A fault left from the last run is not this store's
               cpu.writeByte(currentExamAddress, dataToStore);
+              // ROM and unmapped addresses do not take the byte; say so rather than leave it unchanged silently
+              const fault = cpu.fault as MemoryFault | null; // Set by writeByte
+              if (fault) {
+                setBreakReason({ kind: 'fault', address: fault.address, message: describeFault(fault, 'from the keypad') });
+                cpu.fault = null;
+              } else {
+                setBreakReason(null);
+              }
               setInputBuffer('');
               refreshUI(); // Refresh to show stored data in memory view & data display
               // Optionally auto-increment address after store:
@@ -160,7 +729,7 @@ const App: React.FC = () => {
         default: break;
       }
     }
-  }, [cpu, mode, inputBuffer, currentExamAddress, refreshUI, isRunning]);
+  }, [cpu, kdc, mode, inputBuffer, currentExamAddress, refreshUI, isRunning]);
 
   // Effect to handle transitions based on inputBuffer completion
   useEffect(() => {
@@ -198,7 +767,8 @@ const App: React.FC = () => {
   // Add keyboard event handler
   useEffect(() => {
     const handleKeyboardEvent = (event: KeyboardEvent) => {
-      if (isRunning) return; // No keyboard input while running
+      // Let text fields (memory address, source editor) receive their own keystrokes
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
 
       const key = event.key.toUpperCase();
       
@@ -222,19 +792,30 @@ const App: React.FC = () => {
       else if (key === 'G') { // G for GO
         handleKeyPress('GO');
       }
-      else if (key === 'R') { // R for RESET
+      else if (key === 'R' && !isRunning) { // R for RESET
         handleReset();
       }
-      else if (key === 'X') { // X for EXEC STEP
+      else if (key === 'X' && !isRunning) { // X for EXEC STEP
         handleExecuteStep();
       }
+      else if (key === 'O' && !isRunning) { // O for step Over
+        handleStepOver();
+      }
+      else if (key === 'U' && !isRunning) { // U for step oUt
+        handleStepOut();
+      }
+      else if (key === 'T' && !isRunning) { // T for run To cursor
+        handleRunToCursor();
+      }
     };
 
     window.addEventListener('keydown', handleKeyboardEvent);
     return () => {
       window.removeEventListener('keydown', handleKeyboardEvent);
     };
-  }, [isRunning, handleKeyPress, handleReset, handleExecuteStep]);
+  }, [isRunning, handleKeyPress, handleReset, handleExecuteStep, handleStepOver, handleStepOut, handleRunToCursor]);
+
+  const kdcState = kdc.getState();
 
   return (
     <div className="min-h-screen bg-[#2D2D2D] text-gray-100 p-4 flex flex-col items-center font-sans">
@@ -269,33 +850,154 @@ const App: React.FC = () => {
             flags={cpuState.flags}
             inputBuffer={inputBuffer}
             isAddressInputActive={mode === InteractionMode.EXAM_MEM_ADDR_INPUT || mode === InteractionMode.GO_ADDR_INPUT}
+            segments={programDisplay ? kdcState.segments : null}
+            showUndocumentedFlags={cpuState.undocumented}
           />
           <Keypad onKeyPress={handleKeyPress} />
           <ControlPanel 
             onReset={handleReset} 
             onExecuteStep={handleExecuteStep} 
+            onStepBack={() => handleStepBack(1)}
+            canStepBack={cpu.getHistory().length > 0}
             isRunning={isRunning}
             onStop={stopExecution}
+            onStepOver={handleStepOver}
+            onStepOut={handleStepOut}
+            onRunToCursor={handleRunToCursor}
+            cursorAddress={cursorAddress}
+            speed={runSpeed}
+            onSpeedChange={handleSpeedChange}
+            clockHz={cpuState.clockHz}
+            effectiveHz={effectiveHz}
+          />
+          <InterruptPanel
+            interrupts={cpuState.interrupts}
+            pending={cpuState.pendingInterrupts}
+            onRaise={handleRaiseInterrupt}
+          />
+          <TerminalPanel
+            output={terminalOutput}
+            pendingInput={uart.pendingInput}
+            tStatesPerBit={uart.tStatesPerBit}
+            clockHz={cpuState.clockHz}
+            sod={cpuState.sod}
+            onSend={text => { uart.send(text); refreshUI(); }}
+            onClear={() => setTerminalOutput('')}
+            onTStatesPerBitChange={t => { uart.tStatesPerBit = t; refreshUI(); }}
+          />
+          <PPIPanel
+            state={ppi.getState()}
+            basePort={ppiBasePort}
+            onBasePortChange={relocate(ppi, 4, setPpiBasePort)}
+            ledPort={ppiLedPort}
+            onLedPortChange={setPpiLedPort}
+            switchPort={ppiSwitchPort}
+            onSwitchPortChange={setPpiSwitchPort}
+            switches={ppiSwitches}
+            onSwitchesChange={setPpiSwitches}
+            onStrobe={port => { ppi.strobe(port); refreshUI(); }}
+            onAcknowledge={port => { ppi.acknowledge(port); refreshUI(); }}
+          />
+          <PITPanel
+            counters={pit.getState()}
+            basePort={pitBasePort}
+            onBasePortChange={relocate(pit, 4, setPitBasePort)}
+            clockDivider={pit.clockDivider}
+            onClockDividerChange={divider => { pit.clockDivider = divider; refreshUI(); }}
+            clockHz={cpuState.clockHz}
+            wiring={pitWiring}
+            onWiringChange={(counter, line) => setPitWiring(prev => prev.map((l, i) => i === counter ? line : l))}
+            onGateChange={(counter, level) => { pit.setGate(counter, level); refreshUI(); }}
+          />
+          <KeyboardDisplayPanel
+            state={kdcState}
+            basePort={kdcBasePort}
+            onBasePortChange={relocate(kdc, 2, setKdcBasePort)}
+          />
+          <MemoryMapPanel
+            regions={memoryRegions}
+            presetId={memoryMapPreset}
+            onPresetChange={handleMemoryMapPreset}
+            onRegionsChange={handleMemoryRegionsChange}
+          />
+          <SessionPanel
+            slots={sessionSlots}
+            autosave={autosave}
+            onAutosaveChange={handleAutosaveChange}
+            onSave={handleSaveSession}
+            onLoad={handleLoadSession}
+            onDelete={handleDeleteSession}
+            onExport={() => serializeSession(captureSession())}
+            onImport={handleImportSession}
+            disabled={isRunning}
+          />
+          <CodeEditor
+            source={source}
+            onSourceChange={setSource}
+            onLoad={handleLoadProgram}
+            disabled={isRunning}
           />
         </div>
 
         {/* Right Column: Registers and Memory */}
         <div className="space-y-4">
-          <RegisterView registers={cpuState.registers} />
+          <RegisterView
+            registers={cpuState.registers}
+            cycles={cpuState.cycles}
+            clockHz={cpuState.clockHz}
+            onClockHzChange={hz => { cpu.clockHz = hz; refreshUI(); }}
+            undocumented={cpuState.undocumented}
+            onUndocumentedChange={enabled => { cpu.undocumented = enabled; refreshUI(); }}
+            daaMode={cpuState.daaMode}
+            onDaaModeChange={mode => { cpu.daaMode = mode; refreshUI(); }}
+          />
+          <StackPanel
+            memory={cpuState.memory}
+            sp={cpuState.registers.SP}
+            tags={cpuState.stackTags}
+            bounds={cpuState.stackBounds}
+            limit={stackLimit}
+            onLimitChange={setStackLimit}
+          />
           <MemoryView 
             memory={cpuState.memory} 
             currentAddress={currentExamAddress}
             startAddressView={memoryViewStartAddress}
             onSetStartAddressView={setMemoryViewStartAddress}
+            breakpoints={breakpointAddresses}
+            onToggleBreakpoint={handleToggleBreakpoint}
+            cursor={cursorAddress}
+            onSetCursor={setCursorAddress}
+            onLoadImage={handleLoadImage}
           />
+          <DisassemblyView
+            memory={cpuState.memory}
+            pc={cpuState.registers.PC}
+            breakpoints={breakpointAddresses}
+            onToggleBreakpoint={handleToggleBreakpoint}
+            cursor={cursorAddress}
+            onSetCursor={setCursorAddress}
+            undocumented={cpuState.undocumented}
+          />
+          <DebuggerPanel
+            breakpoints={breakpoints}
+            onBreakpointsChange={setBreakpoints}
+            watchpoints={watchpoints}
+            onWatchpointsChange={setWatchpoints}
+            breakReason={breakReason}
+          />
+          <HistoryView history={cpu.getHistory()} onRewind={handleStepBack} disabled={isRunning} undocumented={cpuState.undocumented} />
         </div>
       </div>
       
       {/* Status message area */}
       <div className="mt-4 p-2 bg-gray-700 rounded w-full max-w-4xl text-center text-sm font-digital">
-        STATUS: {isRunning ? `RUNNING FROM ${toHexString(cpuState.registers.PC, 4)}` : cpuState.halted ? 'HALTED' : InteractionMode[mode]} | 
+        STATUS: {isRunning ? `RUNNING FROM ${toHexString(cpuState.registers.PC, 4)}` : cpuState.halted ? 'HALTED' : breakReason ? `PAUSED: ${breakReason.message}` : InteractionMode[mode]} | 
         ADDR_BUF: {inputBuffer && (mode === InteractionMode.EXAM_MEM_ADDR_INPUT || mode === InteractionMode.GO_ADDR_INPUT) ? inputBuffer : '--'} | 
         DATA_BUF: {inputBuffer && mode === InteractionMode.EXAM_MEM_DATA_VIEW ? inputBuffer : '--'}
+        {workerFailure && (
+          <div className="text-yellow-400">CPU WORKER FAILED, RUNNING ON THE MAIN THREAD: {workerFailure}</div>
+        )}
       </div>
 
       {/* Keyboard Shortcuts Modal */}
@@ -343,6 +1045,18 @@ const App: React.FC = () => {
                 <span className="text-gray-300">Execute Step:</span>
                 <span className="font-digital bg-gray-700 px-2 py-1 rounded">X</span>
               </div>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-300">Step Over:</span>
+                <span className="font-digital bg-gray-700 px-2 py-1 rounded">O</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-300">Step Out:</span>
+                <span className="font-digital bg-gray-700 px-2 py-1 rounded">U</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-300">Run To Cursor:</span>
+                <span className="font-digital bg-gray-700 px-2 py-1 rounded">T</span>
+              </div>
             </div>
           </div>
         </div>
@@ -444,11 +1158,23 @@ const App: React.FC = () => {
                     <h3 className="text-xl font-semibold text-orange-400 mb-2">Understanding the Interface</h3>
                     <p className="mb-4">The simulator interface consists of several key components:</p>
                     <ul className="list-disc pl-6 space-y-2">
-                      <li><span className="text-orange-400">Display Panel:</span> Shows the current address and data in hex format, along with status flags (S, Z, AC, P, CY)</li>
-                      <li><span className="text-orange-400">Keypad:</span> Used for entering hex values (0-F) and control commands</li>
-                      <li><span className="text-orange-400">Control Panel:</span> Contains RESET and EXEC STEP buttons</li>
-                      <li><span className="text-orange-400">Register View:</span> Shows the current state of all registers</li>
-                      <li><span className="text-orange-400">Memory View:</span> Displays the contents of memory locations</li>
+                      <li><span className="text-orange-400">Display Panel:</span> Shows the current address and data in hex format, along with status flags (S, Z, AC, P, CY, plus V and K with undocumented instructions on)</li>
+                      <li><span className="text-orange-400">Keypad:</span> Used for entering hex values (0-F) and control commands; while a program runs, key presses go to the 8279 key FIFO instead</li>
+                      <li><span className="text-orange-400">Control Panel:</span> Contains RESET, STEP BACK and EXEC STEP buttons; STEP OVER runs a CALL or RST through to its return, STEP OUT runs until the current subroutine returns, and RUN TO CURSOR runs to the address picked by clicking in the Memory or Disassembly view. Below them is the run speed slider. REAL-TIME paces GO to the CPU clock, the IPS stops run a fixed number of instructions per second, and MAX runs as fast as the browser allows; the measured clock rate is shown while running. Programs run in a background worker, so STOP always responds; once a program programs the 8254 timer it runs on the page, where the timer is clocked every instruction</li>
+                      <li><span className="text-orange-400">Interrupts:</span> Raise TRAP, RST 7.5/6.5/5.5 or INTR (with the RST opcode the device supplies); LEDs show IE, the SIM masks and pending requests</li>
+                      <li><span className="text-orange-400">Serial Terminal:</span> Shows characters a program bit-bangs out on SOD (via SIM) and sends what you type in on SID (read with RIM), 8N1 at the configured bit time</li>
+                      <li><span className="text-orange-400">8255 PPI:</span> Ports A, B, C and the control register at 00H-03H by default (mode 0, 1 or 2 and BSR); LEDs and toggle switches can be wired to any port, and the digits show each port's pins</li>
+                      <li><span className="text-orange-400">8253/8254 PIT:</span> Three counters at 08H-0AH with the control register at 0BH by default, clocked from executed T-states (optionally divided); each OUT pin can be wired to TRAP or RST 7.5/6.5/5.5</li>
+                      <li><span className="text-orange-400">8279 Keyboard/Display:</span> Data port 40H and command/status port 41H by default; programs read keypad codes (0-F = 00H-0FH, EXAM 10H, STORE 11H, NEXT 12H, PREV 13H, GO 14H) from its FIFO and write segment patterns to its display RAM, which then drives the display panel. Its IRQ drives RST 5.5</li>
+                      <li><span className="text-orange-400">Memory Map:</span> Choose a trainer kit preset or edit the ROM, RAM, MMIO and unmapped regions. A write to ROM or any access to an unmapped address pauses the program with a fault naming the address and the instruction that made it</li>
+                      <li><span className="text-orange-400">Session:</span> Save registers, flags, CPU settings, memory, I/O setup and what the 8255, 8254 and 8279 hold, breakpoints and the editor source to named slots in the browser, or export/import them as a JSON file. With autosave on, the session is saved every few seconds and restored when the page is reopened</li>
+                      <li><span className="text-orange-400">Stack:</span> Shows the words from SP upward, marking return addresses pushed by CALL, RST or an interrupt and register pairs saved with PUSH, and lists the calls still waiting to return. Depth is counted from where LXI SP or SPHL last put the stack; popping above that base is flagged as underflow, and going deeper than the limit as overflow</li>
+                      <li><span className="text-orange-400">History:</span> Lists executed instructions with the registers, flags and memory they changed; click one to rewind to it. Rewinding also puts back what the 8255, 8254, 8279 and serial line held, though characters already shown in the terminal stay there</li>
+                      <li><span className="text-orange-400">Register View:</span> Shows the current state of all registers, plus the T-states executed and the equivalent time at the selected clock frequency. UNDOC OPS enables the undocumented instructions (DSUB, ARHL, RDEL, RSTV, LDHI, LDSI, SHLX, LHLX, JNK, JK) and the V and K flags; with it off they halt as unknown opcodes. DAA picks how decimal adjust behaves. It starts on "Add and subtract", which also corrects the result of SUB/SBB directly; a real 8085 always adjusts as after an addition, so with "8085 (add only)" BCD subtraction needs the 10's complement as on the hardware</li>
+                      <li><span className="text-orange-400">Memory View:</span> Displays the contents of memory locations. Export any range as Intel HEX or raw binary, or load a .hex file (at its own addresses) or a .bin file (at the range start) built with external tools</li>
+                      <li><span className="text-orange-400">Disassembly:</span> Decodes memory into mnemonics and highlights the instruction at PC</li>
+                      <li><span className="text-orange-400">Debugger:</span> Breakpoints (optionally with a condition such as <span className="font-digital">A == 0x3F &amp;&amp; CY</span>) and memory watchpoints pause a running program</li>
+                      <li><span className="text-orange-400">Source Editor:</span> Type assembly code and use Assemble &amp; Load to place it in memory</li>
                     </ul>
                   </section>
                   <section>
@@ -461,6 +1187,26 @@ const App: React.FC = () => {
                       <li><span className="text-orange-400">Reset (R):</span> Reset the processor state</li>
                     </ul>
                   </section>
+                  <section>
+                    <h3 className="text-xl font-semibold text-orange-400 mb-2">Monitor Routines</h3>
+                    <p className="mb-2">The monitor ROM occupies 0000H-1FFFH. CALL these entry points; RST 1 hands control back to the trainer:</p>
+                    {!monitorFits(memoryMap) && (
+                      <div className="mb-2 p-2 rounded bg-red-900 text-red-200 text-sm">
+                        The current memory map has no ROM at 0000H-1FFFH, so no monitor is installed and these routines are not there.
+                      </div>
+                    )}
+                    <ul className="list-disc pl-6 space-y-1">
+                      {MONITOR_ROUTINES.map(routine => (
+                        <li key={routine.name}>
+                          <span className="font-digital text-orange-400">{toHexString(routine.address, 4)}H {routine.name}:</span> {routine.description}
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="mt-2">Interrupts and RST 2-7 jump through RAM slots; store <span className="font-digital">JMP handler</span> in a slot to install a handler. Unused slots return to the monitor.</p>
+                    <p className="mt-1 font-digital text-sm">
+                      {vectorSlots(monitorWorkspace(memoryMap)).map(v => `${v.name}: ${toHexString(v.slot, 4)}H`).join(' | ')}
+                    </p>
+                  </section>
                   <section>
                     <h3 className="text-xl font-semibold text-orange-400 mb-2">Sample Program: Adding Two Numbers</h3>
                     <p className="mb-2">Let's write a simple program to add two numbers (25H + 35H):</p>
@@ -470,7 +1216,8 @@ const App: React.FC = () => {
                       <p>ADD B        ; Add B to A</p>
                       <p>HLT          ; Halt the program</p>
                     </div>
-                    <p className="mt-4">To enter this program:</p>
+                    <p className="mt-4">The quickest way is to type it into the Source Editor (with <span className="font-digital">ORG 2000H</span> first) and press Assemble &amp; Load, then EXEC STEP.</p>
+                    <p className="mt-4">To enter this program by hand:</p>
                     <ol className="list-decimal pl-6 space-y-2">
                       <li>Press M and enter 2000H (program start address)</li>
                       <li>Enter 3E (MVI A opcode)</li>
@@ -0,0 +1,139 @@
+// Conformance suite: checks every documented opcode against the reference
+// model in conformance/, plus the datasheet vectors and the published DAA
+// truth tables, or runs a CP/M CPU
+// exerciser (CPUDIAG, 8080PRE, 8080EXM, ...) through a BDOS stub.
+//   npm run conformance
+//   npm run conformance -- --com CPUDIAG.COM
+//
+// Exit codes: 0 everything passed, 1 bad arguments or file, 2 a check failed.
+
+import { readFileSync } from 'node:fs';
+import { runOpcodeSuite, runVectors, DOCUMENTED_OPCODES } from '../conformance/suite';
+import { runCpmProgram } from '../conformance/cpm';
+import { runDaaTables } from '../conformance/daaTables';
+import { toHexString } from '../utils/formatters';
+
+const USAGE = `Usage: conformance8085 [options]
+
+Options:
+  --samples N     Random machine states per opcode (default 500)
+  --seed N        Random seed (default 8085)
+  --no-sweeps     Skip the exhaustive ALU, rotate and DAA sweeps
+  --com FILE      Run a CP/M .COM exerciser instead of the opcode suite
+  --max-steps N   Step limit for --com (default 50000000000)
+  --json          Print the results as JSON
+  --help          Show this help`;
+
+// Exercisers print one of these when a check fails
+const EXERCISER_FAILURE = /ERROR|FAIL/i;
+
+interface Options {
+  samples: number;
+  seed: number;
+  sweeps: boolean;
+  com?: string;
+  maxSteps: number;
+  json: boolean;
+}
+
+class UsageError extends Error {}
+
+const parseCount = (text: string | undefined, what: string, allowZero = false): number => {
+  const value = Number(text);
+  if (!Number.isInteger(value) || value < (allowZero ? 0 : 1)) throw new UsageError(`${what}: '${text ?? ''}' is not a ${allowZero ? 'whole' : 'positive'} number`);
+  return value;
+};
+
+const parseArgs = (args: string[]): Options | null => {
+  const options: Options = { samples: 500, seed: 8085, sweeps: true, maxSteps: 50_000_000_000, json: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = () => args[++i];
+    switch (arg) {
+      case '--help': case '-h': return null;
+      case '--samples': options.samples = parseCount(next(), arg, true); break;
+      case '--seed': options.seed = parseCount(next(), arg, true); break;
+      case '--no-sweeps': options.sweeps = false; break;
+      case '--com': {
+        options.com = next();
+        if (!options.com) throw new UsageError('--com: no file given');
+        break;
+      }
+      case '--max-steps': options.maxSteps = parseCount(next(), arg); break;
+      case '--json': options.json = true; break;
+      default: throw new UsageError(`Unknown option ${arg}`);
+    }
+  }
+  return options;
+};
+
+const runExerciser = (options: Options, file: string): number => {
+  let image: Uint8Array;
+  try {
+    image = readFileSync(file);
+  } catch (e) {
+    console.error(`${file}: ${(e as Error).message}`);
+    return 1;
+  }
+  const result = runCpmProgram(image, options.maxSteps, options.json ? undefined : text => process.stdout.write(text));
+  const passed = result.status === 'warm-boot' && !EXERCISER_FAILURE.test(result.output);
+  if (options.json) {
+    console.log(JSON.stringify({ file, passed, ...result }, null, 2));
+  } else {
+    console.log(`\nStopped: ${result.status} after ${result.steps} steps, ${result.cycles} T-states: ${passed ? 'PASS' : 'FAIL'}`);
+  }
+  return passed ? 0 : 2;
+};
+
+const runSuite = (options: Options): number => {
+  const opcodes = runOpcodeSuite(options);
+  const vectors = runVectors();
+  const daaTables = runDaaTables();
+  const failedOpcodes = opcodes.filter(report => report.failed > 0);
+  const failedVectors = vectors.filter(report => report.diffs.length > 0);
+  const failedDaaTables = daaTables.filter(report => report.diffs.length > 0);
+  const cases = opcodes.reduce((sum, report) => sum + report.cases, 0);
+  const passed = failedOpcodes.length === 0 && failedVectors.length === 0 && failedDaaTables.length === 0;
+
+  if (options.json) {
+    console.log(JSON.stringify({ passed, cases, opcodes: failedOpcodes, vectors: failedVectors, daaTables: failedDaaTables }, null, 2));
+  } else {
+    failedOpcodes.forEach(report => {
+      console.log(`FAIL  ${toHexString(report.opcode, 2)} ${report.name}: ${report.failed}/${report.cases} cases`);
+      report.examples.forEach(example => {
+        console.log(`      from ${example.state}`);
+        example.diffs.forEach(diff => console.log(`        ${diff}`));
+      });
+    });
+    failedVectors.forEach(report => {
+      console.log(`FAIL  vector ${report.name}`);
+      report.diffs.forEach(diff => console.log(`        ${diff}`));
+    });
+    console.log(`${DOCUMENTED_OPCODES.length - failedOpcodes.length}/${DOCUMENTED_OPCODES.length} opcodes match the reference (${cases} cases)`);
+    failedDaaTables.forEach(report => {
+      console.log(`FAIL  ${report.name}`);
+      report.diffs.forEach(diff => console.log(`        ${diff}`));
+    });
+    console.log(`${vectors.length - failedVectors.length}/${vectors.length} datasheet vectors pass`);
+    console.log(`${daaTables.length - failedDaaTables.length}/${daaTables.length} DAA truth tables pass ` +
+      `(${daaTables.reduce((sum, report) => sum + report.inputs, 0)} inputs)`);
+  }
+  return passed ? 0 : 2;
+};
+
+const main = (args: string[]): number => {
+  let options: Options | null;
+  try {
+    options = parseArgs(args);
+  } catch (e) {
+    console.error(`${(e as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+  return options.com ? runExerciser(options, options.com) : runSuite(options);
+};
+
+process.exitCode = main(process.argv.slice(2));
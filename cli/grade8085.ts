@@ -0,0 +1,103 @@
+// Autograder: runs a program against the cases in a JSON or YAML spec (see
+// services/grader.ts for the format) and reports each as pass or fail.
+//   npm run grade -- spec.yaml submission.asm
+//
+// Exit codes: 0 every case passed, 1 bad arguments, spec or program,
+// 2 at least one case failed.
+
+import { readFileSync } from 'node:fs';
+import { basename, dirname, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { gradeProgram, validateSpec, GradeCaseResult, GradeSpec } from '../services/grader';
+import { loadImage, LoadedImage } from '../services/runner';
+
+const USAGE = `Usage: grade8085 <spec.json|spec.yaml> [program.asm|.hex|.bin] [options]
+
+The program defaults to the spec's "program" field, relative to the spec.
+
+Options:
+  --base ADDR   Load address for raw binaries (default 2000)
+  --json        Print the results as JSON
+  --help        Show this help`;
+
+const readSpec = (file: string): GradeSpec => {
+  const text = readFileSync(file, 'utf8');
+  let data: unknown;
+  try {
+    data = /\.json$/i.test(file) ? JSON.parse(text) : parseYaml(text);
+  } catch (e) {
+    throw new Error(`${file}: ${(e as Error).message}`);
+  }
+  try {
+    return validateSpec(data);
+  } catch (e) {
+    throw new Error(`${file}: ${(e as Error).message}`);
+  }
+};
+
+const printText = (results: GradeCaseResult[]) => {
+  results.forEach(result => {
+    console.log(`${result.passed ? 'PASS' : 'FAIL'}  ${result.name} (${result.steps} steps, ${result.cycles} T-states)`);
+    result.diffs.forEach(diff => console.log(`      ${diff.what}: expected ${diff.expected}, got ${diff.actual}`));
+  });
+  const passed = results.filter(r => r.passed).length;
+  console.log(`${passed}/${results.length} passed`);
+};
+
+const main = (args: string[]): number => {
+  const files: string[] = [];
+  let base = 0x2000;
+  let json = false;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      return 0;
+    } else if (arg === '--json') {
+      json = true;
+    } else if (arg === '--base') {
+      base = parseInt(args[++i] ?? '', 16);
+      if (isNaN(base) || base < 0 || base > 0xFFFF) {
+        console.error(`--base: '${args[i] ?? ''}' is not a hex address\n\n${USAGE}`);
+        return 1;
+      }
+    } else if (arg.startsWith('-')) {
+      console.error(`Unknown option ${arg}\n\n${USAGE}`);
+      return 1;
+    } else {
+      files.push(arg);
+    }
+  }
+  if (files.length === 0 || files.length > 2) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  let spec: GradeSpec;
+  let image: LoadedImage;
+  let results: GradeCaseResult[];
+  try {
+    spec = readSpec(files[0]);
+    const program = files[1] ?? (spec.program && resolve(dirname(files[0]), spec.program));
+    if (!program) throw new Error('No program given, and the spec names none');
+    try {
+      image = loadImage(basename(program), readFileSync(program), base);
+    } catch (e) {
+      throw new Error(`${program}: ${(e as Error).message}`);
+    }
+    results = gradeProgram(image.segments, image.entryPoint, spec);
+  } catch (e) {
+    console.error((e as Error).message);
+    return 1;
+  }
+
+  if (json) {
+    console.log(JSON.stringify({ name: spec.name, passed: results.every(r => r.passed), cases: results }, null, 2));
+  } else {
+    if (spec.name) console.log(spec.name);
+    printText(results);
+  }
+  return results.every(r => r.passed) ? 0 : 2;
+};
+
+process.exitCode = main(process.argv.slice(2));
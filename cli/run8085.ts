@@ -0,0 +1,175 @@
+// Command-line runner: load a program into a CPU8085, run it to HLT or a
+// limit, and print the final state. Build and run with
+//   npm run cli -- program.asm --dump 2050-205F
+//
+// Exit codes: 0 halted, 1 bad arguments or program, 2 unknown opcode,
+// 3 step or cycle limit reached, 4 memory fault.
+
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { CPU8085 } from '../services/8085';
+import { MemoryMap, MEMORY_MAP_PRESETS } from '../services/memoryMap';
+import { loadImage, runUntilHalt, RunResult, RunStatus } from '../services/runner';
+import { DaaMode } from '../types';
+import { toHexString } from '../utils/formatters';
+
+const USAGE = `Usage: run8085 <program.asm|.hex|.bin> [options]
+
+Options:
+  --base ADDR        Load address for raw binaries (default 2000)
+  --start ADDR       Start address (default: END operand, first ORG or load address)
+  --max-steps N      Stop after N instructions (default 1000000)
+  --max-cycles N     Stop after N T-states
+  --dump START-END   Print a memory range; repeatable, addresses in hex
+  --map PRESET       Memory map: ${MEMORY_MAP_PRESETS.map(p => p.id).join(', ')} (default flat)
+  --undocumented     Run the undocumented opcodes (DSUB, ARHL, JNK, ...)
+  --daa MODE         silicon (default) or subtract-aware: also correct DAA after SUB
+  --json             Print the result as JSON
+  --help             Show this help`;
+
+const EXIT_CODES: Record<RunStatus, number> = {
+  'halted': 0,
+  'unknown-opcode': 2,
+  'step-limit': 3,
+  'cycle-limit': 3,
+  'fault': 4,
+};
+
+interface Options {
+  file: string;
+  base: number;
+  start?: number;
+  maxSteps: number;
+  maxCycles?: number;
+  dumps: { start: number; end: number }[];
+  map: string;
+  undocumented: boolean;
+  daaMode: DaaMode;
+  json: boolean;
+}
+
+class UsageError extends Error {}
+
+const parseAddress = (text: string | undefined, what: string): number => {
+  const value = parseInt((text ?? '').replace(/H$/i, ''), 16);
+  if (!/^[0-9A-F]+H?$/i.test(text ?? '') || value > 0xFFFF) throw new UsageError(`${what}: '${text ?? ''}' is not a hex address`);
+  return value;
+};
+
+const parseCount = (text: string | undefined, what: string): number => {
+  const value = Number(text);
+  if (!Number.isInteger(value) || value <= 0) throw new UsageError(`${what}: '${text ?? ''}' is not a positive number`);
+  return value;
+};
+
+const parseArgs = (args: string[]): Options | null => {
+  const options: Options = { file: '', base: 0x2000, maxSteps: 1_000_000, dumps: [], map: 'flat', undocumented: false, daaMode: 'silicon', json: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = () => args[++i];
+    switch (arg) {
+      case '--help': case '-h': return null;
+      case '--base': options.base = parseAddress(next(), arg); break;
+      case '--start': options.start = parseAddress(next(), arg); break;
+      case '--max-steps': options.maxSteps = parseCount(next(), arg); break;
+      case '--max-cycles': options.maxCycles = parseCount(next(), arg); break;
+      case '--map': {
+        options.map = next() ?? '';
+        if (!MEMORY_MAP_PRESETS.some(p => p.id === options.map)) throw new UsageError(`--map: unknown preset '${options.map}'`);
+        break;
+      }
+      case '--undocumented': options.undocumented = true; break;
+      case '--daa': {
+        const mode = next() ?? '';
+        if (mode !== 'silicon' && mode !== 'subtract-aware') throw new UsageError(`--daa: unknown mode '${mode}'`);
+        options.daaMode = mode;
+        break;
+      }
+      case '--json': options.json = true; break;
+      case '--dump': {
+        const range = next() ?? '';
+        const [from, to] = range.split('-');
+        const start = parseAddress(from, arg);
+        const end = to === undefined ? start : parseAddress(to, arg);
+        if (end < start) throw new UsageError(`--dump: range '${range}' ends before it starts`);
+        options.dumps.push({ start, end });
+        break;
+      }
+      default:
+        if (arg.startsWith('-')) throw new UsageError(`Unknown option ${arg}`);
+        if (options.file) throw new UsageError(`Only one program file can be given`);
+        options.file = arg;
+    }
+  }
+  if (!options.file) throw new UsageError('No program file given');
+  return options;
+};
+
+const formatDump = (memory: Uint8Array, start: number, end: number): string[] => {
+  const lines: string[] = [];
+  for (let row = start; row <= end; row += 16) {
+    const bytes = Array.from(memory.subarray(row, Math.min(end, row + 15) + 1));
+    lines.push(`${toHexString(row, 4)}: ${bytes.map(b => toHexString(b, 2)).join(' ')}`);
+  }
+  return lines;
+};
+
+const printText = (cpu: CPU8085, run: RunResult, options: Options) => {
+  const { registers: r, flags: f } = cpu;
+  console.log(`Stopped: ${run.message} after ${run.steps} steps, ${run.cycles} T-states`);
+  console.log(['A', 'B', 'C', 'D', 'E', 'H', 'L'].map(name => `${name}=${toHexString(r[name as keyof typeof r], 2)}`).join(' ') +
+    ` SP=${toHexString(r.SP, 4)} PC=${toHexString(r.PC, 4)}`);
+  console.log(`Flags: S=${+f.S} Z=${+f.Z} AC=${+f.AC} P=${+f.P} CY=${+f.CY}` + (cpu.undocumented ? ` V=${+f.V} K=${+f.K}` : ''));
+  options.dumps.forEach(({ start, end }) => formatDump(cpu.memory, start, end).forEach(line => console.log(line)));
+};
+
+const printJson = (cpu: CPU8085, run: RunResult, options: Options) => {
+  console.log(JSON.stringify({
+    status: run.status,
+    message: run.message,
+    steps: run.steps,
+    cycles: run.cycles,
+    registers: cpu.registers,
+    flags: cpu.flags,
+    memory: options.dumps.map(({ start, end }) => ({
+      start: toHexString(start, 4),
+      end: toHexString(end, 4),
+      bytes: Array.from(cpu.memory.subarray(start, end + 1)),
+    })),
+  }, null, 2));
+};
+
+const main = (args: string[]): number => {
+  let options: Options | null;
+  try {
+    options = parseArgs(args);
+  } catch (e) {
+    console.error(`${(e as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const cpu = new CPU8085();
+  cpu.historyLimit = 0; // Nothing steps back here
+  cpu.undocumented = options.undocumented;
+  cpu.daaMode = options.daaMode;
+  cpu.memoryMap = new MemoryMap(MEMORY_MAP_PRESETS.find(p => p.id === options.map)!.regions);
+  try {
+    const image = loadImage(basename(options.file), readFileSync(options.file), options.base);
+    image.segments.forEach(segment => cpu.memory.set(segment.bytes, segment.address));
+    cpu.registers.PC = options.start ?? image.entryPoint;
+  } catch (e) {
+    console.error(`${options.file}: ${(e as Error).message}`);
+    return 1;
+  }
+
+  const run = runUntilHalt(cpu, { maxSteps: options.maxSteps, maxCycles: options.maxCycles });
+  if (options.json) printJson(cpu, run, options);
+  else printText(cpu, run, options);
+  return EXIT_CODES[run.status];
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,42 @@
+
+import React, { useEffect, useState } from 'react';
+import { toHexString } from '../utils/formatters';
+
+interface BasePortInputProps {
+  value: number;
+  count: number; // Ports the device occupies from the base
+  onChange: (port: number) => boolean; // False if the ports are taken
+  title?: string;
+}
+
+const BasePortInput: React.FC<BasePortInputProps> = ({ value, count, onChange, title }) => {
+  const [text, setText] = useState(toHexString(value, 2));
+  const [error, setError] = useState(false);
+
+  useEffect(() => setText(toHexString(value, 2)), [value]);
+
+  const commit = () => {
+    const port = parseInt(text, 16);
+    const ok = !isNaN(port) && port >= 0 && port + count <= 0x100 && (port === value || onChange(port));
+    setError(!ok);
+    if (!ok) setText(toHexString(value, 2));
+  };
+
+  return (
+    <label className="flex items-center space-x-1 text-xs font-digital text-gray-300">
+      <span>Base:</span>
+      <input
+        value={text}
+        onChange={e => setText(e.target.value.toUpperCase())}
+        onBlur={commit}
+        onKeyDown={e => { if (e.key === 'Enter') commit(); }}
+        maxLength={2}
+        title={error ? 'Ports unavailable' : title}
+        className={`bg-gray-800 text-green-400 w-8 p-1 rounded border outline-none ${error ? 'border-red-500' : 'border-gray-600'}`}
+      />
+      <span>H</span>
+    </label>
+  );
+};
+
+export default BasePortInput;
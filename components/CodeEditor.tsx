@@ -0,0 +1,166 @@
+
+import React, { useRef, useState } from 'react';
+import { assemble, AssemblerError, AssemblyResult, DIRECTIVES } from '../services/assembler';
+import { MNEMONICS } from '../services/opcodes';
+import { toHexString } from '../utils/formatters';
+
+interface CodeEditorProps {
+  source: string;
+  onSourceChange: (source: string) => void;
+  onLoad: (result: AssemblyResult) => string | void; // Returns a warning to show, if any
+  disabled?: boolean;
+}
+
+const REGISTER_WORDS = ['A', 'B', 'C', 'D', 'E', 'H', 'L', 'M', 'SP', 'PSW'];
+const LINE_HEIGHT = '1.25rem';
+
+// Splits a source line into coloured spans: label, mnemonic, registers, numbers, comment.
+const highlightLine = (line: string): React.ReactNode[] => {
+  const commentAt = line.indexOf(';');
+  const code = commentAt >= 0 ? line.slice(0, commentAt) : line;
+  const comment = commentAt >= 0 ? line.slice(commentAt) : '';
+  const parts: React.ReactNode[] = [];
+  const tokenPattern = /([A-Za-z_?@.][\w?@.]*:?)|('[^']*'?|"[^"]*"?)|([0-9][0-9A-Za-z]*)|(\s+|.)/g;
+  let match: RegExpExecArray | null;
+  let key = 0;
+  while ((match = tokenPattern.exec(code)) !== null) {
+    const [text, word, str, num] = match;
+    let className = 'text-gray-200';
+    if (word) {
+      const upper = word.toUpperCase();
+      if (word.endsWith(':')) className = 'text-yellow-300';
+      else if (MNEMONICS.has(upper)) className = 'text-sky-300 font-bold';
+      else if (DIRECTIVES.includes(upper)) className = 'text-purple-300 font-bold';
+      else if (REGISTER_WORDS.includes(upper)) className = 'text-orange-300';
+    } else if (str) {
+      className = 'text-amber-200';
+    } else if (num) {
+      className = 'text-green-400';
+    }
+    parts.push(<span key={key++} className={className}>{text}</span>);
+  }
+  if (comment) parts.push(<span key={key++} className="text-gray-500 italic">{comment}</span>);
+  return parts;
+};
+
+const CodeEditor: React.FC<CodeEditorProps> = ({ source, onSourceChange, onLoad, disabled = false }) => {
+  const [errors, setErrors] = useState<AssemblerError[]>([]);
+  const [message, setMessage] = useState<string>('');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  const lines = source.split('\n');
+  const errorsByLine = new Map<number, AssemblerError[]>();
+  errors.forEach(err => errorsByLine.set(err.line, [...(errorsByLine.get(err.line) ?? []), err]));
+
+  const handleScroll = () => {
+    if (!textareaRef.current) return;
+    const { scrollTop, scrollLeft } = textareaRef.current;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = scrollTop;
+      highlightRef.current.scrollLeft = scrollLeft;
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = scrollTop;
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onSourceChange(e.target.value);
+    setMessage('');
+  };
+
+  const handleAssemble = () => {
+    const result = assemble(source);
+    setErrors(result.errors);
+    if (result.errors.length > 0) {
+      setMessage(`${result.errors.length} error${result.errors.length === 1 ? '' : 's'}`);
+      return;
+    }
+    const byteCount = result.segments.reduce((n, seg) => n + seg.bytes.length, 0);
+    const warning = onLoad(result);
+    setMessage(`Loaded ${byteCount} bytes, PC=${toHexString(result.entryPoint, 4)}H${warning ? `. ${warning}` : ''}`);
+  };
+
+  const jumpToError = (err: AssemblerError) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const offset = lines.slice(0, err.line - 1).reduce((n, l) => n + l.length + 1, 0) + err.column - 1;
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+  };
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg shadow-md text-white flex flex-col">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold font-sans text-gray-300">SOURCE EDITOR</h3>
+        <button
+          onClick={handleAssemble}
+          disabled={disabled}
+          className="keypad-btn control-btn text-xs py-1 px-2 disabled:opacity-50"
+        >
+          Assemble &amp; Load
+        </button>
+      </div>
+      <div className="flex bg-gray-900 rounded border border-gray-600 h-72 font-digital text-sm overflow-hidden">
+        <div ref={gutterRef} className="overflow-hidden select-none text-right py-2 bg-gray-800 text-gray-500">
+          {lines.map((_, i) => {
+            const lineErrors = errorsByLine.get(i + 1);
+            return (
+              <div
+                key={i}
+                style={{ height: LINE_HEIGHT, lineHeight: LINE_HEIGHT }}
+                className={`px-2 ${lineErrors ? 'text-red-400' : ''}`}
+                title={lineErrors?.map(err => err.message).join('\n')}
+              >
+                {lineErrors ? '●' : ''} {i + 1}
+              </div>
+            );
+          })}
+        </div>
+        <div className="relative flex-grow">
+          <pre
+            ref={highlightRef}
+            aria-hidden="true"
+            className="absolute inset-0 m-0 p-2 overflow-hidden whitespace-pre pointer-events-none"
+          >
+            {lines.map((line, i) => (
+              <div
+                key={i}
+                style={{ height: LINE_HEIGHT, lineHeight: LINE_HEIGHT }}
+                className={errorsByLine.has(i + 1) ? 'bg-red-900 bg-opacity-50 underline decoration-wavy decoration-red-500' : ''}
+              >
+                {highlightLine(line)}{'\n'}
+              </div>
+            ))}
+          </pre>
+          <textarea
+            ref={textareaRef}
+            value={source}
+            onChange={handleChange}
+            onScroll={handleScroll}
+            spellCheck={false}
+            wrap="off"
+            style={{ lineHeight: LINE_HEIGHT }}
+            className="absolute inset-0 w-full h-full m-0 p-2 bg-transparent text-transparent caret-white resize-none outline-none whitespace-pre overflow-auto"
+          />
+        </div>
+      </div>
+      {message && (
+        <div className={`mt-2 text-xs font-digital ${errors.length > 0 ? 'text-red-400' : 'text-green-400'}`}>{message}</div>
+      )}
+      {errors.length > 0 && (
+        <ul className="mt-1 max-h-24 overflow-y-auto text-xs font-digital text-red-300">
+          {errors.map((err, i) => (
+            <li key={i}>
+              <button onClick={() => jumpToError(err)} className="hover:underline text-left">
+                Line {err.line}, col {err.column}: {err.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CodeEditor;
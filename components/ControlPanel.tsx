@@ -1,10 +1,13 @@
-
 import React from 'react';
 import KeypadButton from './KeypadButton';
+import { RunSpeed, SPEED_PRESETS } from '../services/scheduler';
+import { toHexString } from '../utils/formatters';
 
 interface ControlPanelProps {
   onReset: () => void;
   onExecuteStep: () => void;
+  onStepBack: () => void;
+  canStepBack: boolean;
   // onGo: () => void; // Implemented via Keypad.tsx for GO address input
   // onExamMem: () => void; // Implemented via Keypad.tsx
   // onStore: () => void; // Implemented via Keypad.tsx
@@ -12,19 +15,57 @@ interface ControlPanelProps {
   // onPrevAddr: () => void; // Implemented via Keypad.tsx
   isRunning: boolean;
   onStop: () => void;
+  onStepOver: () => void;
+  onStepOut: () => void;
+  onRunToCursor: () => void;
+  cursorAddress: number | null; // Picked in the memory or disassembly view
+  speed: RunSpeed;
+  onSpeedChange: (speed: RunSpeed) => void;
+  clockHz: number;
+  effectiveHz: number; // Measured while running
 }
 
-const ControlPanel: React.FC<ControlPanelProps> = ({ onReset, onExecuteStep, isRunning, onStop }) => {
+const formatMHz = (hz: number): string => `${(hz / 1_000_000).toFixed(3)} MHz`;
+
+const ControlPanel: React.FC<ControlPanelProps> = ({ onReset, onExecuteStep, onStepBack, canStepBack, isRunning, onStop, onStepOver, onStepOut, onRunToCursor, cursorAddress, speed, onSpeedChange, clockHz, effectiveHz }) => {
+  const speedIndex = Math.max(0, SPEED_PRESETS.findIndex(p => p.speed.mode === speed.mode && p.speed.ips === speed.ips));
+  const target = speed.mode === 'realtime' ? formatMHz(clockHz) : SPEED_PRESETS[speedIndex].label;
+
   return (
     <div className="bg-gray-700 p-4 rounded-lg shadow-md mt-4">
-      <div className="grid grid-cols-2 sm:grid-cols-2 gap-2">
+      <div className="grid grid-cols-3 gap-2">
         <KeypadButton label="RESET" onClick={onReset} className="bg-red-700 hover:bg-red-600 w-full" variant="control"/>
+        <KeypadButton label="STEP BACK" onClick={onStepBack} className={`bg-indigo-800 hover:bg-indigo-700 w-full ${canStepBack && !isRunning ? '' : 'opacity-50'}`} variant="control" />
         <KeypadButton label="EXEC STEP" onClick={onExecuteStep} className="bg-indigo-600 hover:bg-indigo-500 w-full" variant="control" />
-        {isRunning && <KeypadButton label="STOP" onClick={onStop} className="bg-yellow-500 hover:bg-yellow-400 text-black w-full col-span-2" variant="control" />}
+        <KeypadButton label="STEP OVER" onClick={onStepOver} className={`bg-indigo-600 hover:bg-indigo-500 w-full ${isRunning ? 'opacity-50' : ''}`} variant="control" />
+        <KeypadButton label="STEP OUT" onClick={onStepOut} className={`bg-indigo-600 hover:bg-indigo-500 w-full ${isRunning ? 'opacity-50' : ''}`} variant="control" />
+        <KeypadButton
+          label={cursorAddress === null ? 'RUN TO CURSOR' : `RUN TO ${toHexString(cursorAddress, 4)}`}
+          onClick={onRunToCursor}
+          className={`bg-indigo-800 hover:bg-indigo-700 w-full ${cursorAddress !== null && !isRunning ? '' : 'opacity-50'}`}
+          variant="control"
+        />
+        {isRunning && <KeypadButton label="STOP" onClick={onStop} className="bg-yellow-500 hover:bg-yellow-400 text-black w-full col-span-3" variant="control" />}
+      </div>
+      <div className="mt-3 text-xs font-mono text-gray-300">
+        <div className="flex justify-between mb-1">
+          <span>SPEED: <span className="text-green-400">{SPEED_PRESETS[speedIndex].label}</span></span>
+          <span title={`Target: ${target}`}>
+            {isRunning ? <span className="text-green-400">{formatMHz(effectiveHz)}</span> : <span className="text-gray-500">{target}</span>}
+          </span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={SPEED_PRESETS.length - 1}
+          value={speedIndex}
+          onChange={e => onSpeedChange(SPEED_PRESETS[Number(e.target.value)].speed)}
+          className="w-full accent-green-500"
+          aria-label="Run speed"
+        />
       </div>
     </div>
   );
 };
 
 export default ControlPanel;
-    
\ No newline at end of file
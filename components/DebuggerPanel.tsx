@@ -0,0 +1,132 @@
+
+import React, { useState } from 'react';
+import { Breakpoint, BreakReason, WatchAccess, Watchpoint } from '../types';
+import { compileCondition } from '../services/debugger';
+import { toHexString } from '../utils/formatters';
+
+interface DebuggerPanelProps {
+  breakpoints: Breakpoint[];
+  onBreakpointsChange: (breakpoints: Breakpoint[]) => void;
+  watchpoints: Watchpoint[];
+  onWatchpointsChange: (watchpoints: Watchpoint[]) => void;
+  breakReason: BreakReason | null;
+}
+
+const parseAddress = (text: string): number | null => {
+  const value = parseInt(text, 16);
+  return !isNaN(value) && value >= 0 && value <= 0xFFFF ? value : null;
+};
+
+const conditionError = (condition: string | undefined): string | null => {
+  if (!condition || !condition.trim()) return null;
+  try {
+    compileCondition(condition);
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+};
+
+const inputClass = 'bg-gray-800 text-green-400 p-1 rounded border border-gray-600 focus:border-blue-500 outline-none';
+
+const DebuggerPanel: React.FC<DebuggerPanelProps> = ({ breakpoints, onBreakpointsChange, watchpoints, onWatchpointsChange, breakReason }) => {
+  const [bpAddr, setBpAddr] = useState('');
+  const [bpCondition, setBpCondition] = useState('');
+  const [wpStart, setWpStart] = useState('');
+  const [wpEnd, setWpEnd] = useState('');
+  const [wpAccess, setWpAccess] = useState<WatchAccess>('write');
+  const [formError, setFormError] = useState('');
+
+  const handleAddBreakpoint = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const address = parseAddress(bpAddr);
+    if (address === null) { setFormError('Invalid breakpoint address'); return; }
+    const error = conditionError(bpCondition);
+    if (error) { setFormError(`Condition: ${error}`); return; }
+    setFormError('');
+    const others = breakpoints.filter(bp => bp.address !== address);
+    onBreakpointsChange([...others, { address, condition: bpCondition.trim() || undefined, enabled: true }]
+      .sort((a, b) => a.address - b.address));
+    setBpAddr('');
+    setBpCondition('');
+  };
+
+  const updateBreakpoint = (address: number, changes: Partial<Breakpoint>) => {
+    onBreakpointsChange(breakpoints.map(bp => bp.address === address ? { ...bp, ...changes } : bp));
+  };
+
+  const handleAddWatchpoint = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const start = parseAddress(wpStart);
+    const end = wpEnd.trim() ? parseAddress(wpEnd) : start;
+    if (start === null || end === null || end < start) { setFormError('Invalid watch range'); return; }
+    setFormError('');
+    const id = watchpoints.reduce((max, wp) => Math.max(max, wp.id), 0) + 1;
+    onWatchpointsChange([...watchpoints, { id, start, end, access: wpAccess }]);
+    setWpStart('');
+    setWpEnd('');
+  };
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg shadow-md text-white font-digital text-xs">
+      <h3 className="text-lg font-bold mb-2 text-center font-sans text-gray-300">DEBUGGER</h3>
+      {breakReason && (
+        <div className="mb-2 p-2 rounded bg-red-900 text-red-200">{breakReason.message}</div>
+      )}
+
+      <h4 className="font-sans text-sm text-gray-400 mb-1">Breakpoints</h4>
+      <form onSubmit={handleAddBreakpoint} className="flex items-center space-x-1 mb-1">
+        <input value={bpAddr} onChange={e => setBpAddr(e.target.value.toUpperCase())} maxLength={4} placeholder="ADDR" className={`${inputClass} w-14`} />
+        <input value={bpCondition} onChange={e => setBpCondition(e.target.value)} placeholder="condition, e.g. A == 0x3F && CY" className={`${inputClass} flex-grow`} />
+        <button type="submit" className="keypad-btn control-btn text-xs py-1 px-2">Add</button>
+      </form>
+      <ul className="mb-2 space-y-1">
+        {breakpoints.map(bp => {
+          const error = conditionError(bp.condition);
+          return (
+            <li key={bp.address}>
+              <div className="flex items-center space-x-1">
+                <input type="checkbox" checked={bp.enabled} onChange={e => updateBreakpoint(bp.address, { enabled: e.target.checked })} />
+                <span className="text-blue-400 w-10">{toHexString(bp.address, 4)}</span>
+                <input
+                  value={bp.condition ?? ''}
+                  onChange={e => updateBreakpoint(bp.address, { condition: e.target.value || undefined })}
+                  placeholder="always"
+                  title={error ?? ''}
+                  className={`${inputClass} flex-grow ${error ? 'border-red-500' : ''}`}
+                />
+                <button onClick={() => onBreakpointsChange(breakpoints.filter(b => b.address !== bp.address))} className="text-gray-400 hover:text-white px-1" aria-label="Remove breakpoint">✕</button>
+              </div>
+              {error && <div className="mt-0.5 text-red-400">Condition: {error}. This breakpoint is off until it is fixed.</div>}
+            </li>
+          );
+        })}
+        {breakpoints.length === 0 && <li className="text-gray-500">None. Click an address in the memory or disassembly view.</li>}
+      </ul>
+
+      <h4 className="font-sans text-sm text-gray-400 mb-1">Watchpoints</h4>
+      <form onSubmit={handleAddWatchpoint} className="flex items-center space-x-1 mb-1">
+        <input value={wpStart} onChange={e => setWpStart(e.target.value.toUpperCase())} maxLength={4} placeholder="FROM" className={`${inputClass} w-14`} />
+        <input value={wpEnd} onChange={e => setWpEnd(e.target.value.toUpperCase())} maxLength={4} placeholder="TO" className={`${inputClass} w-14`} />
+        <select value={wpAccess} onChange={e => setWpAccess(e.target.value as WatchAccess)} className={inputClass}>
+          <option value="write">write</option>
+          <option value="read">read</option>
+          <option value="readwrite">read/write</option>
+        </select>
+        <button type="submit" className="keypad-btn control-btn text-xs py-1 px-2">Add</button>
+      </form>
+      <ul className="space-y-1">
+        {watchpoints.map(wp => (
+          <li key={wp.id} className="flex items-center space-x-2">
+            <span className="text-blue-400">{toHexString(wp.start, 4)}{wp.end !== wp.start ? `-${toHexString(wp.end, 4)}` : ''}</span>
+            <span className="text-gray-300 flex-grow">{wp.access}</span>
+            <button onClick={() => onWatchpointsChange(watchpoints.filter(w => w.id !== wp.id))} className="text-gray-400 hover:text-white px-1" aria-label="Remove watchpoint">✕</button>
+          </li>
+        ))}
+      </ul>
+      {formError && <div className="mt-1 text-red-400">{formError}</div>}
+    </div>
+  );
+};
+
+export default DebuggerPanel;
@@ -0,0 +1,91 @@
+
+import React, { useState, useEffect } from 'react';
+import { disassemble } from '../services/disassembler';
+import { toHexString } from '../utils/formatters';
+
+interface DisassemblyViewProps {
+  memory: Uint8Array;
+  pc: number; // Highlighted and followed while stepping/running
+  breakpoints?: Set<number>;
+  onToggleBreakpoint?: (addr: number) => void;
+  cursor?: number | null; // Run To Cursor destination
+  onSetCursor?: (addr: number) => void;
+  undocumented?: boolean; // Decode the undocumented opcodes instead of showing DB
+}
+
+const INSTRUCTION_COUNT = 16; // Number of instructions to display
+
+const DisassemblyView: React.FC<DisassemblyViewProps> = ({ memory, pc, breakpoints, onToggleBreakpoint, cursor = null, onSetCursor, undocumented = false }) => {
+  const [anchor, setAnchor] = useState(pc);
+  const [inputAddr, setInputAddr] = useState(toHexString(pc, 4));
+
+  const listing = disassemble(memory, anchor, INSTRUCTION_COUNT, undocumented);
+
+  // Re-anchor on PC once it leaves the visible window (jumps, calls, or running off the end)
+  useEffect(() => {
+    if (!listing.some(instr => instr.address === pc)) {
+      setAnchor(pc);
+    }
+  }, [pc]);
+
+  useEffect(() => {
+    setInputAddr(toHexString(anchor, 4));
+  }, [anchor]);
+
+  const handleAddrSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const newAddr = parseInt(inputAddr, 16);
+    if (!isNaN(newAddr) && newAddr >= 0 && newAddr <= 0xFFFF) {
+      setAnchor(newAddr);
+    }
+  };
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg shadow-md text-white font-digital flex flex-col">
+      <h3 className="text-lg font-bold mb-2 text-center font-sans text-gray-300">DISASSEMBLY</h3>
+      <form onSubmit={handleAddrSubmit} className="mb-2 flex items-center space-x-2">
+        <label htmlFor="disasmAddr" className="text-sm text-gray-400 font-sans">Start:</label>
+        <input
+          type="text"
+          id="disasmAddr"
+          value={inputAddr}
+          onChange={e => setInputAddr(e.target.value.toUpperCase())}
+          maxLength={4}
+          className="bg-gray-800 text-green-400 p-1 rounded w-20 border border-gray-600 focus:border-blue-500 outline-none"
+        />
+        <button type="submit" className="keypad-btn control-btn text-xs py-1 px-2">View</button>
+        <button type="button" onClick={() => setAnchor(pc)} className="keypad-btn control-btn text-xs py-1 px-2">PC</button>
+      </form>
+      <table className="w-full text-xs">
+        <tbody>
+          {listing.map(instr => {
+            const isCurrent = instr.address === pc;
+            const hasBreakpoint = breakpoints?.has(instr.address);
+            const isCursor = instr.address === cursor;
+            return (
+              <tr
+                key={instr.address}
+                onClick={() => onSetCursor?.(instr.address)}
+                title={onSetCursor ? 'Click to set the Run To Cursor address' : undefined}
+                className={`border-b border-gray-600 ${onSetCursor ? 'cursor-pointer' : ''} ${isCurrent ? 'bg-yellow-600 text-black' : ''} ${isCursor ? 'ring-1 ring-inset ring-sky-400' : ''}`}
+              >
+                <td
+                  onClick={e => { e.stopPropagation(); onToggleBreakpoint?.(instr.address); }}
+                  title="Toggle breakpoint"
+                  className="px-1 py-0.5 cursor-pointer text-red-500 w-3"
+                >
+                  {hasBreakpoint ? '●' : <span className="text-gray-600">○</span>}
+                </td>
+                <td className={`px-1 py-0.5 ${isCurrent ? '' : 'text-blue-400'}`}>{isCurrent ? '▶' : ''}{toHexString(instr.address, 4)}</td>
+                <td className={`px-1 py-0.5 ${isCurrent ? '' : 'text-gray-400'}`}>{instr.bytes.map(b => toHexString(b, 2)).join(' ')}</td>
+                <td className={`px-1 py-0.5 ${isCurrent ? '' : 'text-sky-300'}`}>{instr.text}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DisassemblyView;
@@ -12,21 +12,36 @@ interface DisplayPanelProps {
   flags: Flags;
   inputBuffer: string;
   isAddressInputActive: boolean;
+  segments?: number[] | null; // 8279 segment outputs, shown instead of the monitor fields when a program drives the display
+  showUndocumentedFlags?: boolean; // V and K, with undocumented instructions enabled
 }
 
-const DisplayPanel: React.FC<DisplayPanelProps> = ({ address, data, flags, inputBuffer, isAddressInputActive }) => {
+const DisplayPanel: React.FC<DisplayPanelProps> = ({ address, data, flags, inputBuffer, isAddressInputActive, segments, showUndocumentedFlags }) => {
   return (
     <div className="bg-gray-700 p-4 rounded-lg shadow-md mb-4 flex flex-col items-center">
-      <div className="flex justify-around w-full mb-4">
-        <SevenSegmentDisplay label="ADDRESS" value={isAddressInputActive && inputBuffer.length > 0 && parseInt(inputBuffer, 16) >= 0 ? parseInt(inputBuffer, 16) : address} digits={4} />
-        <SevenSegmentDisplay label="DATA / INPUT" value={!isAddressInputActive && inputBuffer.length > 0 && parseInt(inputBuffer, 16) >=0 ? parseInt(inputBuffer, 16) : data} digits={2} />
-      </div>
+      {segments ? (
+        <div className="flex justify-around w-full mb-4">
+          <SevenSegmentDisplay label="ADDRESS" segments={segments.slice(0, 4)} />
+          <SevenSegmentDisplay label="DATA" segments={segments.slice(4, 8)} /> {/* The kit has eight digits */}
+        </div>
+      ) : (
+        <div className="flex justify-around w-full mb-4">
+          <SevenSegmentDisplay label="ADDRESS" value={isAddressInputActive && inputBuffer.length > 0 && parseInt(inputBuffer, 16) >= 0 ? parseInt(inputBuffer, 16) : address} digits={4} />
+          <SevenSegmentDisplay label="DATA / INPUT" value={!isAddressInputActive && inputBuffer.length > 0 && parseInt(inputBuffer, 16) >=0 ? parseInt(inputBuffer, 16) : data} digits={2} />
+        </div>
+      )}
       <div className="flex justify-center space-x-3 items-center bg-gray-600 p-2 rounded w-full">
         <Led label="S" isOn={flags.S} />
         <Led label="Z" isOn={flags.Z} />
         <Led label="AC" isOn={flags.AC} />
         <Led label="P" isOn={flags.P} />
         <Led label="CY" isOn={flags.CY} />
+        {showUndocumentedFlags && (
+          <>
+            <Led label="V" isOn={flags.V} />
+            <Led label="K" isOn={flags.K} />
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,69 @@
+
+import React from 'react';
+import { HistoryEntry, Registers, Flags } from '../types';
+import { disassembleAt } from '../services/disassembler';
+import { toHexString } from '../utils/formatters';
+
+interface HistoryViewProps {
+  history: HistoryEntry[];
+  onRewind: (count: number) => void; // Undo the last `count` instructions
+  disabled?: boolean;
+  undocumented?: boolean; // Decode undocumented opcodes and list V/K changes
+}
+
+const REGISTER_SIZES: [keyof Registers, number][] = [['A', 2], ['B', 2], ['C', 2], ['D', 2], ['E', 2], ['H', 2], ['L', 2], ['SP', 4]];
+const FLAG_NAMES: (keyof Flags)[] = ['S', 'Z', 'AC', 'P', 'CY'];
+const UNDOCUMENTED_FLAG_NAMES: (keyof Flags)[] = [...FLAG_NAMES, 'V', 'K'];
+
+// Lists only what the instruction changed, e.g. "A 25→5A CY 0→1 [2050]=5A"
+const describeChanges = (entry: HistoryEntry, undocumented: boolean): string => {
+  const parts: string[] = [];
+  REGISTER_SIZES.forEach(([name, size]) => {
+    const before = entry.before.registers[name];
+    const after = entry.after.registers[name];
+    if (before !== after) parts.push(`${name} ${toHexString(before, size)}→${toHexString(after, size)}`);
+  });
+  (undocumented ? UNDOCUMENTED_FLAG_NAMES : FLAG_NAMES).forEach(name => {
+    if (entry.before.flags[name] !== entry.after.flags[name]) {
+      parts.push(`${name} ${Number(entry.before.flags[name])}→${Number(entry.after.flags[name])}`);
+    }
+  });
+  entry.memoryWrites.forEach(w => parts.push(`[${toHexString(w.address, 4)}]=${toHexString(w.newValue, 2)}`));
+  entry.portWrites.forEach(w => parts.push(`OUT ${toHexString(w.address, 2)}=${toHexString(w.newValue, 2)}`));
+  return parts.join(' ');
+};
+
+const HistoryView: React.FC<HistoryViewProps> = ({ history, onRewind, disabled = false, undocumented = false }) => {
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg shadow-md text-white font-digital flex flex-col">
+      <h3 className="text-lg font-bold mb-2 text-center font-sans text-gray-300">HISTORY</h3>
+      <div className="overflow-y-auto max-h-56">
+        <table className="w-full text-xs">
+          <tbody>
+            {history.length === 0 && (
+              <tr><td className="text-gray-500 font-sans">No instructions executed yet.</td></tr>
+            )}
+            {history.map((entry, i) => {
+              const stepsBack = history.length - i;
+              return (
+                <tr
+                  key={history.length - i}
+                  onClick={() => !disabled && onRewind(stepsBack)}
+                  title={`Rewind to before this instruction (${stepsBack} step${stepsBack === 1 ? '' : 's'} back)`}
+                  className={`border-b border-gray-600 ${disabled ? '' : 'cursor-pointer hover:bg-gray-600'}`}
+                >
+                  <td className="px-1 py-0.5 text-gray-500">-{stepsBack}</td>
+                  <td className="px-1 py-0.5 text-blue-400">{toHexString(entry.address, 4)}</td>
+                  <td className="px-1 py-0.5 text-sky-300 whitespace-nowrap">{entry.note ? `<${entry.note}>` : disassembleAt(entry.bytes, 0, undocumented).text}</td>
+                  <td className="px-1 py-0.5 text-green-400">{describeChanges(entry, undocumented)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -0,0 +1,65 @@
+
+import React, { useState } from 'react';
+import Led from './Led';
+import { InterruptLine, InterruptState } from '../types';
+
+interface InterruptPanelProps {
+  interrupts: InterruptState;
+  pending: InterruptLine[];
+  onRaise: (line: InterruptLine, intrOpcode?: number) => void;
+}
+
+const LINES: { line: InterruptLine; label: string; style: string }[] = [
+  { line: 'TRAP', label: 'TRAP', style: 'bg-red-700 hover:bg-red-600' },
+  { line: 'RST7.5', label: 'RST 7.5', style: 'bg-orange-600 hover:bg-orange-500' },
+  { line: 'RST6.5', label: 'RST 6.5', style: 'bg-orange-600 hover:bg-orange-500' },
+  { line: 'RST5.5', label: 'RST 5.5', style: 'bg-orange-600 hover:bg-orange-500' },
+];
+
+const InterruptPanel: React.FC<InterruptPanelProps> = ({ interrupts, pending, onRaise }) => {
+  const [intrVector, setIntrVector] = useState(7);
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg shadow-md">
+      <h3 className="text-sm font-bold mb-2 text-center font-sans text-gray-300">INTERRUPTS</h3>
+      <div className="grid grid-cols-5 gap-2">
+        {LINES.map(({ line, label, style }) => (
+          <button
+            key={line}
+            onClick={() => onRaise(line)}
+            className={`keypad-btn control-btn text-xs py-2 px-1 text-white font-bold rounded ${style} ${pending.includes(line) ? 'ring-2 ring-yellow-300' : ''}`}
+          >
+            {label}
+          </button>
+        ))}
+        <div className="flex flex-col gap-1">
+          <button
+            onClick={() => onRaise('INTR', 0xC7 | (intrVector << 3))}
+            className={`keypad-btn control-btn text-xs py-1 px-1 text-white font-bold rounded bg-yellow-700 hover:bg-yellow-600 ${pending.includes('INTR') ? 'ring-2 ring-yellow-300' : ''}`}
+          >
+            INTR
+          </button>
+          <select
+            value={intrVector}
+            onChange={e => setIntrVector(Number(e.target.value))}
+            title="RST instruction supplied during INTA"
+            className="bg-gray-800 text-green-400 text-xs rounded border border-gray-600"
+          >
+            {Array.from({ length: 8 }).map((_, n) => <option key={n} value={n}>RST {n}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="flex justify-center space-x-3 items-center bg-gray-600 p-2 rounded w-full mt-2">
+        <Led label="IE" isOn={interrupts.enabled} />
+        <Led label="M7.5" isOn={(interrupts.masks & 0x04) !== 0} />
+        <Led label="M6.5" isOn={(interrupts.masks & 0x02) !== 0} />
+        <Led label="M5.5" isOn={(interrupts.masks & 0x01) !== 0} />
+        <Led label="I7.5" isOn={pending.includes('RST7.5')} />
+        <Led label="I6.5" isOn={pending.includes('RST6.5')} />
+        <Led label="I5.5" isOn={pending.includes('RST5.5')} />
+      </div>
+    </div>
+  );
+};
+
+export default InterruptPanel;
@@ -0,0 +1,56 @@
+
+import React from 'react';
+import BasePortInput from './BasePortInput';
+import Led from './Led';
+import { KDCState } from '../services/kdc8279';
+import { toHexString } from '../utils/formatters';
+
+interface KeyboardDisplayPanelProps {
+  state: KDCState;
+  basePort: number;
+  onBasePortChange: (port: number) => boolean;
+}
+
+const KEYBOARD_MODES = [
+  'encoded scan, 2-key lockout',
+  'decoded scan, 2-key lockout',
+  'encoded scan, N-key rollover',
+  'decoded scan, N-key rollover',
+  'encoded sensor matrix',
+  'decoded sensor matrix',
+  'strobed input, encoded display',
+  'strobed input, decoded display',
+];
+
+const KeyboardDisplayPanel: React.FC<KeyboardDisplayPanelProps> = ({ state, basePort, onBasePortChange }) => {
+  const sensorMode = state.keyboardMode === 4 || state.keyboardMode === 5;
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg shadow-md text-white">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold font-sans text-gray-300">8279 KEYBOARD/DISPLAY</h3>
+        <BasePortInput value={basePort} count={2} onChange={onBasePortChange} title="Data port; the command/status port follows" />
+      </div>
+      <div className="text-xs font-digital text-gray-300 space-y-1">
+        <div>
+          Display: {state.digits} digits, {state.displayMode & 2 ? 'right' : 'left'} entry | Keyboard: {KEYBOARD_MODES[state.keyboardMode]}
+        </div>
+        <div className="flex items-center justify-between">
+          <span>
+            {sensorMode ? 'SENSOR RAM' : 'FIFO'}:{' '}
+            <span className="text-green-400">
+              {(sensorMode ? state.sensorRam : state.fifo).map(b => toHexString(b, 2)).join(' ') || 'empty'}
+            </span>
+          </span>
+          <span>STATUS <span className="text-green-400">{toHexString(state.status, 2)}H</span></span>
+          <Led label="IRQ" isOn={state.irq} />
+        </div>
+        <div>
+          RAM: <span className="text-green-400">{state.displayRam.slice(0, state.digits).map(b => toHexString(b, 2)).join(' ')}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardDisplayPanel;
@@ -0,0 +1,130 @@
+
+import React, { useEffect, useState } from 'react';
+import { MemoryRegion, MemoryRegionKind } from '../types';
+import { MEMORY_MAP_PRESETS } from '../services/memoryMap';
+import { toHexString } from '../utils/formatters';
+
+interface MemoryMapPanelProps {
+  regions: MemoryRegion[];
+  presetId: string | null; // Null once the regions have been edited
+  onPresetChange: (id: string) => void;
+  onRegionsChange: (regions: MemoryRegion[]) => string | null; // Error message, or null if applied
+}
+
+interface RegionDraft {
+  start: string;
+  end: string;
+  kind: MemoryRegionKind;
+  label: string;
+}
+
+const KINDS: MemoryRegionKind[] = ['rom', 'ram', 'mmio', 'unmapped'];
+
+const KIND_COLORS: Record<MemoryRegionKind, string> = {
+  rom: 'bg-orange-500',
+  ram: 'bg-green-500',
+  mmio: 'bg-blue-500',
+  unmapped: 'bg-gray-800',
+};
+
+const inputClass = 'bg-gray-800 text-green-400 p-1 rounded border border-gray-600 outline-none';
+
+const toDraft = (region: MemoryRegion): RegionDraft => ({
+  start: toHexString(region.start, 4),
+  end: toHexString(region.end, 4),
+  kind: region.kind,
+  label: region.label ?? '',
+});
+
+const MemoryMapPanel: React.FC<MemoryMapPanelProps> = ({ regions, presetId, onPresetChange, onRegionsChange }) => {
+  const [drafts, setDrafts] = useState<RegionDraft[]>(() => regions.map(toDraft));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDrafts(regions.map(toDraft));
+    setError(null);
+  }, [regions]);
+
+  const update = (index: number, change: Partial<RegionDraft>) =>
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...change } : draft));
+
+  const apply = () => {
+    const parsed = drafts.map(draft => ({
+      start: parseInt(draft.start, 16),
+      end: parseInt(draft.end, 16),
+      kind: draft.kind,
+      ...(draft.label.trim() ? { label: draft.label.trim() } : {}),
+    }));
+    setError(onRegionsChange(parsed));
+  };
+
+  const preset = MEMORY_MAP_PRESETS.find(p => p.id === presetId);
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg shadow-md text-white">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold font-sans text-gray-300">Memory Map</h3>
+        <select
+          value={presetId ?? ''}
+          onChange={e => { if (e.target.value) onPresetChange(e.target.value); }}
+          className="bg-gray-800 text-green-400 text-xs rounded border border-gray-600"
+        >
+          {presetId === null && <option value="">Custom</option>}
+          {MEMORY_MAP_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </div>
+      {preset && <p className="text-xs text-gray-400 mb-2">{preset.description}</p>}
+
+      {/* Bar of the 64K space, one cell per 1K */}
+      <div className="flex h-3 rounded overflow-hidden border border-gray-600 mb-2" aria-hidden="true">
+        {Array.from({ length: 64 }, (_, k) => {
+          const address = k * 0x400;
+          const region = [...regions].reverse().find(r => address >= r.start && address <= r.end);
+          return <div key={k} className={`flex-1 ${KIND_COLORS[region?.kind ?? 'unmapped']}`} />;
+        })}
+      </div>
+
+      <table className="w-full text-xs font-digital">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="text-left">START</th>
+            <th className="text-left">END</th>
+            <th className="text-left">KIND</th>
+            <th className="text-left">LABEL</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {drafts.map((draft, i) => (
+            <tr key={i} className="text-green-400">
+              <td><input value={draft.start} maxLength={4} onChange={e => update(i, { start: e.target.value.toUpperCase() })} className={`${inputClass} w-12`} /></td>
+              <td><input value={draft.end} maxLength={4} onChange={e => update(i, { end: e.target.value.toUpperCase() })} className={`${inputClass} w-12`} /></td>
+              <td>
+                <select value={draft.kind} onChange={e => update(i, { kind: e.target.value as MemoryRegionKind })} className={inputClass}>
+                  {KINDS.map(kind => <option key={kind} value={kind}>{kind.toUpperCase()}</option>)}
+                </select>
+              </td>
+              <td><input value={draft.label} onChange={e => update(i, { label: e.target.value })} className={`${inputClass} w-full`} /></td>
+              <td>
+                <button onClick={() => setDrafts(prev => prev.filter((_, j) => j !== i))} className="text-red-400 hover:text-red-300 px-1" aria-label="Remove region">×</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-400 mt-1">Later rows override earlier ones; addresses no row covers are unmapped.</p>
+      {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+      <div className="grid grid-cols-2 gap-2 mt-2">
+        <button
+          onClick={() => setDrafts(prev => [...prev, { start: '0000', end: '0000', kind: 'ram', label: '' }])}
+          className="keypad-btn control-btn text-xs py-1"
+        >
+          ADD REGION
+        </button>
+        <button onClick={apply} className="keypad-btn control-btn text-xs py-1">APPLY</button>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryMapPanel;
@@ -1,18 +1,29 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { toHexString } from '../utils/formatters';
+import { downloadFile } from '../utils/download';
+import { toIntelHex } from '../services/intelHex';
 
 interface MemoryViewProps {
   memory: Uint8Array;
   currentAddress: number; // To highlight the current address
   startAddressView: number;
   onSetStartAddressView: (addr: number) => void;
+  breakpoints?: Set<number>;
+  onToggleBreakpoint?: (addr: number) => void;
+  cursor?: number | null; // Run To Cursor destination
+  onSetCursor?: (addr: number) => void;
+  onLoadImage?: (fileName: string, data: Uint8Array, base: number) => string; // Returns a summary; throws on a bad file
 }
 
 const MEMORY_VIEW_SIZE = 256; // Number of bytes to display
 
-const MemoryView: React.FC<MemoryViewProps> = ({ memory, currentAddress, startAddressView, onSetStartAddressView }) => {
+const MemoryView: React.FC<MemoryViewProps> = ({ memory, currentAddress, startAddressView, onSetStartAddressView, breakpoints, onToggleBreakpoint, cursor = null, onSetCursor, onLoadImage }) => {
   const [inputAddr, setInputAddr] = useState(toHexString(startAddressView, 4));
+  const [rangeStart, setRangeStart] = useState('2000');
+  const [rangeEnd, setRangeEnd] = useState('20FF');
+  const [fileMessage, setFileMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     setInputAddr(toHexString(startAddressView, 4));
@@ -30,6 +41,39 @@ const MemoryView: React.FC<MemoryViewProps> = ({ memory, currentAddress, startAd
     }
   };
 
+  // Inclusive range from the range inputs, or null with a message if it is not one
+  const parseRange = (): { start: number; end: number } | null => {
+    const start = parseInt(rangeStart, 16);
+    const end = parseInt(rangeEnd, 16);
+    if (isNaN(start) || isNaN(end) || start < 0 || end > 0xFFFF || start > end) {
+      setFileMessage({ text: 'Enter a range like 2000-20FF', error: true });
+      return null;
+    }
+    return { start, end };
+  };
+
+  const handleExport = (format: 'hex' | 'bin') => {
+    const range = parseRange();
+    if (!range) return;
+    const name = `${toHexString(range.start, 4)}-${toHexString(range.end, 4)}`;
+    if (format === 'hex') downloadFile(`${name}.hex`, toIntelHex(memory, range.start, range.end), 'text/plain');
+    else downloadFile(`${name}.bin`, memory.slice(range.start, range.end + 1), 'application/octet-stream');
+    setFileMessage({ text: `Exported ${range.end - range.start + 1} bytes`, error: false });
+  };
+
+  const handleLoad = async (file: File | undefined) => {
+    if (!file || !onLoadImage) return;
+    if (fileRef.current) fileRef.current.value = '';
+    const range = parseRange();
+    if (!range) return;
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      setFileMessage({ text: onLoadImage(file.name, data, range.start), error: false });
+    } catch (e) {
+      setFileMessage({ text: `${file.name}: ${(e as Error).message}`, error: true });
+    }
+  };
+
   const renderMemory = () => {
     const items = [];
     for (let i = 0; i < MEMORY_VIEW_SIZE; i += 16) {
@@ -44,8 +88,16 @@ const MemoryView: React.FC<MemoryViewProps> = ({ memory, currentAddress, startAd
           continue;
         }
         const isCurrent = addr === currentAddress;
+        const hasBreakpoint = breakpoints?.has(addr);
+        const isCursor = addr === cursor;
         byteCells.push(
-          <td key={`byte-${addr}`} className={`px-1 py-0.5 ${isCurrent ? 'bg-yellow-600 text-black' : 'text-green-400'}`}>
+          <td
+            key={`byte-${addr}`}
+            onClick={() => onSetCursor?.(addr)}
+            onDoubleClick={() => onToggleBreakpoint?.(addr)}
+            title={onSetCursor ? 'Click to set the Run To Cursor address, double-click to toggle breakpoint' : 'Double-click to toggle breakpoint'}
+            className={`px-1 py-0.5 cursor-pointer ${isCurrent ? 'bg-yellow-600 text-black' : 'text-green-400'} ${hasBreakpoint ? 'ring-1 ring-inset ring-red-500' : isCursor ? 'ring-1 ring-inset ring-sky-400' : ''}`}
+          >
             {toHexString(memory[addr], 2)}
           </td>
         );
@@ -75,6 +127,23 @@ const MemoryView: React.FC<MemoryViewProps> = ({ memory, currentAddress, startAd
         />
         <button type="submit" className="keypad-btn control-btn text-xs py-1 px-2">View</button>
       </form>
+      <div className="mb-2 flex items-center space-x-2 text-xs">
+        <span className="text-gray-400 font-sans">Range:</span>
+        <input value={rangeStart} onChange={e => setRangeStart(e.target.value.toUpperCase())} maxLength={4} aria-label="Range start"
+          className="bg-gray-800 text-green-400 p-1 rounded w-12 border border-gray-600 outline-none" />
+        <span>-</span>
+        <input value={rangeEnd} onChange={e => setRangeEnd(e.target.value.toUpperCase())} maxLength={4} aria-label="Range end"
+          className="bg-gray-800 text-green-400 p-1 rounded w-12 border border-gray-600 outline-none" />
+        <button onClick={() => handleExport('hex')} className="keypad-btn control-btn py-1 px-2" title="Download the range as Intel HEX">.HEX</button>
+        <button onClick={() => handleExport('bin')} className="keypad-btn control-btn py-1 px-2" title="Download the range as raw binary">.BIN</button>
+        {onLoadImage && (
+          <>
+            <button onClick={() => fileRef.current?.click()} className="keypad-btn control-btn py-1 px-2" title="Load Intel HEX at its own addresses, or a raw binary at the range start">LOAD</button>
+            <input ref={fileRef} type="file" accept=".hex,.ihx,.bin,.com,.asm" className="hidden" onChange={e => handleLoad(e.target.files?.[0])} />
+          </>
+        )}
+      </div>
+      {fileMessage && <div className={`mb-2 text-xs ${fileMessage.error ? 'text-red-400' : 'text-green-400'}`}>{fileMessage.text}</div>}
       <div className="overflow-y-auto flex-grow">
         <table className="w-full text-xs">
           <thead>
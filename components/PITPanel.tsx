@@ -0,0 +1,97 @@
+
+import React from 'react';
+import BasePortInput from './BasePortInput';
+import Led from './Led';
+import { InterruptLine } from '../types';
+import { PITCounterState } from '../services/pit8254';
+import { toHexString } from '../utils/formatters';
+
+export type PITOutputWiring = InterruptLine | null;
+
+interface PITPanelProps {
+  counters: PITCounterState[];
+  basePort: number;
+  onBasePortChange: (port: number) => boolean;
+  clockDivider: number;
+  onClockDividerChange: (divider: number) => void;
+  clockHz: number; // CPU clock, for the counter clock and output frequency
+  wiring: PITOutputWiring[];
+  onWiringChange: (counter: number, line: PITOutputWiring) => void;
+  onGateChange: (counter: number, level: boolean) => void;
+}
+
+const WIRING_OPTIONS: PITOutputWiring[] = [null, 'TRAP', 'RST7.5', 'RST6.5', 'RST5.5'];
+
+const formatHz = (hz: number): string => hz >= 1000 ? `${(hz / 1000).toFixed(2)} kHz` : `${hz.toFixed(2)} Hz`;
+
+// Periodic modes repeat every N clocks
+const outputFrequency = (counter: PITCounterState, counterClockHz: number): string => {
+  if (!counter.programmed || (counter.mode !== 2 && counter.mode !== 3)) return '--';
+  const reload = counter.bcd ? parseInt(counter.reload.toString(16), 10) : counter.reload;
+  const n = reload === 0 ? (counter.bcd ? 10000 : 0x10000) : reload;
+  return formatHz(counterClockHz / n);
+};
+
+const PITPanel: React.FC<PITPanelProps> = ({
+  counters, basePort, onBasePortChange, clockDivider, onClockDividerChange, clockHz, wiring, onWiringChange, onGateChange,
+}) => {
+  const counterClockHz = clockHz / clockDivider;
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg shadow-md text-white">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold font-sans text-gray-300">8253/8254 PIT</h3>
+        <BasePortInput value={basePort} count={4} onChange={onBasePortChange} title="Counter 0; counters 1, 2 and the control register follow" />
+      </div>
+      <label className="flex items-center space-x-1 text-xs font-digital text-gray-300 mb-2">
+        <span>CLK = T-states ÷</span>
+        <input
+          type="number"
+          min={1}
+          value={clockDivider}
+          onChange={e => { const n = Number(e.target.value); if (n >= 1) onClockDividerChange(Math.floor(n)); }}
+          className="bg-gray-800 text-green-400 w-14 p-1 rounded border border-gray-600 outline-none"
+        />
+        <span>= {formatHz(counterClockHz)}</span>
+      </label>
+      <table className="w-full text-xs font-digital">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="text-left">CTR</th>
+            <th className="text-left">MODE</th>
+            <th className="text-left">COUNT</th>
+            <th className="text-left">OUT FREQ</th>
+            <th>GATE</th>
+            <th>OUT</th>
+            <th className="text-left">OUT TO</th>
+          </tr>
+        </thead>
+        <tbody>
+          {counters.map((counter, i) => (
+            <tr key={i} className="text-green-400">
+              <td className="text-gray-300">{i} <span className="text-gray-500">{toHexString(basePort + i, 2)}H</span></td>
+              <td>{counter.programmed ? `${counter.mode}${counter.bcd ? ' BCD' : ''}` : '-'}</td>
+              <td>{toHexString(counter.count, 4)}{counter.nullCount && counter.programmed ? '*' : ''}</td>
+              <td>{outputFrequency(counter, counterClockHz)}</td>
+              <td className="text-center">
+                <input type="checkbox" checked={counter.gate} onChange={e => onGateChange(i, e.target.checked)} aria-label={`Gate ${i}`} />
+              </td>
+              <td><Led label="" isOn={counter.out} className="scale-75" /></td>
+              <td>
+                <select
+                  value={wiring[i] ?? ''}
+                  onChange={e => onWiringChange(i, (e.target.value || null) as PITOutputWiring)}
+                  className="bg-gray-800 text-green-400 text-xs rounded border border-gray-600"
+                >
+                  {WIRING_OPTIONS.map(line => <option key={line ?? 'none'} value={line ?? ''}>{line ?? 'None'}</option>)}
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default PITPanel;
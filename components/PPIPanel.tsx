@@ -0,0 +1,105 @@
+
+import React from 'react';
+import BasePortInput from './BasePortInput';
+import Led from './Led';
+import SevenSegmentDisplay from './SevenSegmentDisplay';
+import { PPIPort, PPIState } from '../services/ppi8255';
+import { toHexString } from '../utils/formatters';
+
+interface PPIPanelProps {
+  state: PPIState;
+  basePort: number;
+  onBasePortChange: (port: number) => boolean;
+  ledPort: PPIPort;
+  onLedPortChange: (port: PPIPort) => void;
+  switchPort: PPIPort;
+  onSwitchPortChange: (port: PPIPort) => void;
+  switches: number;
+  onSwitchesChange: (value: number) => void;
+  onStrobe: (port: 'A' | 'B') => void;
+  onAcknowledge: (port: 'A' | 'B') => void;
+}
+
+const PORTS: PPIPort[] = ['A', 'B', 'C'];
+const BITS = [7, 6, 5, 4, 3, 2, 1, 0];
+
+const selectClass = 'bg-gray-800 text-green-400 text-xs rounded border border-gray-600';
+
+const describeMode = (mode: number, input: boolean) => `M${mode} ${mode === 2 ? 'bidir' : input ? 'in' : 'out'}`;
+
+const PortSelect: React.FC<{ value: PPIPort; onChange: (port: PPIPort) => void }> = ({ value, onChange }) => (
+  <select value={value} onChange={e => onChange(e.target.value as PPIPort)} className={selectClass}>
+    {PORTS.map(p => <option key={p} value={p}>Port {p}</option>)}
+  </select>
+);
+
+const PPIPanel: React.FC<PPIPanelProps> = ({
+  state, basePort, onBasePortChange, ledPort, onLedPortChange, switchPort, onSwitchPortChange,
+  switches, onSwitchesChange, onStrobe, onAcknowledge,
+}) => {
+  const { config } = state;
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg shadow-md text-white">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold font-sans text-gray-300">8255 PPI</h3>
+        <BasePortInput value={basePort} count={4} onChange={onBasePortChange} title="Port A; B, C and the control register follow" />
+      </div>
+      <div className="text-xs font-digital text-gray-300 mb-2">
+        CW {toHexString(state.control, 2)}H | A: {describeMode(config.groupAMode, config.portAInput)} |
+        B: {describeMode(config.groupBMode, config.portBInput)} |
+        C upper: {config.portCUpperInput ? 'in' : 'out'} | C lower: {config.portCLowerInput ? 'in' : 'out'}
+      </div>
+
+      <div className="flex justify-around mb-3">
+        {PORTS.map(port => (
+          <SevenSegmentDisplay key={port} value={state.pins[port]} digits={2} label={`P${port}`} />
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mb-1 text-xs text-gray-400">
+        <span>LEDs</span>
+        <PortSelect value={ledPort} onChange={onLedPortChange} />
+      </div>
+      <div className="flex justify-between bg-gray-600 p-2 rounded mb-3">
+        {BITS.map(n => <Led key={n} label={`${ledPort}${n}`} isOn={(state.pins[ledPort] & (1 << n)) !== 0} />)}
+      </div>
+
+      <div className="flex items-center justify-between mb-1 text-xs text-gray-400">
+        <span>Switches</span>
+        <PortSelect value={switchPort} onChange={onSwitchPortChange} />
+      </div>
+      <div className="flex justify-between bg-gray-600 p-2 rounded mb-3">
+        {BITS.map(n => {
+          const on = (switches & (1 << n)) !== 0;
+          return (
+            <button
+              key={n}
+              onClick={() => onSwitchesChange(switches ^ (1 << n))}
+              className="flex flex-col items-center"
+              aria-label={`Switch ${n}`}
+            >
+              <span className={`w-4 h-7 rounded-sm border-2 border-black flex ${on ? 'items-start bg-green-700' : 'items-end bg-gray-800'}`}>
+                <span className="w-full h-3 bg-gray-300 rounded-sm" />
+              </span>
+              <span className="mt-1 text-xs text-gray-300 font-sans">{n}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        <button onClick={() => onStrobe('A')} className="keypad-btn control-btn text-xs py-1" title="Latch port A input (mode 1/2)">STB A</button>
+        <button onClick={() => onAcknowledge('A')} className="keypad-btn control-btn text-xs py-1" title="Acknowledge port A output (mode 1/2)">ACK A</button>
+        <button onClick={() => onStrobe('B')} className="keypad-btn control-btn text-xs py-1" title="Latch port B input (mode 1)">STB B</button>
+        <button onClick={() => onAcknowledge('B')} className="keypad-btn control-btn text-xs py-1" title="Acknowledge port B output (mode 1)">ACK B</button>
+      </div>
+      <div className="flex justify-center space-x-6 mt-2">
+        <Led label="INTR A" isOn={state.interrupts.A} />
+        <Led label="INTR B" isOn={state.interrupts.B} />
+      </div>
+    </div>
+  );
+};
+
+export default PPIPanel;
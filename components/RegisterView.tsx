@@ -1,13 +1,28 @@
 
 import React from 'react';
-import { Registers } from '../types';
+import { DaaMode, Registers } from '../types';
 import { toHexString } from '../utils/formatters';
 
 interface RegisterViewProps {
   registers: Registers;
+  cycles: number;
+  clockHz: number;
+  onClockHzChange: (hz: number) => void;
+  undocumented: boolean;
+  onUndocumentedChange: (enabled: boolean) => void;
+  daaMode: DaaMode;
+  onDaaModeChange: (mode: DaaMode) => void;
 }
 
-const RegisterView: React.FC<RegisterViewProps> = ({ registers }) => {
+const CLOCK_OPTIONS = [1_000_000, 3_000_000, 3_072_000, 6_144_000];
+
+const formatElapsed = (seconds: number): string => {
+  if (seconds >= 1) return `${seconds.toFixed(3)} s`;
+  if (seconds >= 1e-3) return `${(seconds * 1e3).toFixed(3)} ms`;
+  return `${(seconds * 1e6).toFixed(2)} µs`;
+};
+
+const RegisterView: React.FC<RegisterViewProps> = ({ registers, cycles, clockHz, onClockHzChange, undocumented, onUndocumentedChange, daaMode, onDaaModeChange }) => {
   const registerPairs = [
     { name: 'A', value: registers.A, size: 2 },
     { name: 'BC', value: (registers.B << 8) | registers.C, size: 4 },
@@ -28,6 +43,51 @@ const RegisterView: React.FC<RegisterViewProps> = ({ registers }) => {
           </div>
         ))}
       </div>
+      <div className="mt-2 pt-2 border-t border-gray-600 space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-400">T-STATES:</span>
+          <span className="text-green-400">{cycles}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">TIME:</span>
+          <span className="text-green-400">{formatElapsed(cycles / clockHz)}</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <label htmlFor="clockHz" className="text-gray-400">CLOCK:</label>
+          <select
+            id="clockHz"
+            value={clockHz}
+            onChange={e => onClockHzChange(Number(e.target.value))}
+            className="bg-gray-800 text-green-400 p-1 rounded border border-gray-600 text-xs"
+          >
+            {CLOCK_OPTIONS.map(hz => (
+              <option key={hz} value={hz}>{(hz / 1e6).toFixed(3)} MHz</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex justify-between items-center">
+          <label htmlFor="undocumented" className="text-gray-400" title="DSUB, ARHL, RDEL, RSTV, LDHI, LDSI, SHLX, LHLX, JNK, JK and the V/K flags">UNDOC OPS:</label>
+          <input
+            id="undocumented"
+            type="checkbox"
+            checked={undocumented}
+            onChange={e => onUndocumentedChange(e.target.checked)}
+          />
+        </div>
+        <div className="flex justify-between items-center">
+          <label htmlFor="daaMode" className="text-gray-400">DAA:</label>
+          <select
+            id="daaMode"
+            value={daaMode}
+            onChange={e => onDaaModeChange(e.target.value as DaaMode)}
+            className="bg-gray-800 text-green-400 p-1 rounded border border-gray-600 text-xs"
+            title="Real 8085s always adjust as after an addition; subtract-aware also corrects BCD after SUB/SBB"
+          >
+            <option value="silicon">8085 (add only)</option>
+            <option value="subtract-aware">Add and subtract</option>
+          </select>
+        </div>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,108 @@
+
+import React, { useRef, useState } from 'react';
+import { AUTOSAVE_SLOT, SlotInfo } from '../services/persistence';
+import { downloadFile } from '../utils/download';
+
+interface SessionPanelProps {
+  slots: SlotInfo[];
+  autosave: boolean;
+  onAutosaveChange: (enabled: boolean) => void;
+  onSave: (name: string) => string | null;   // Each returns an error message, or null on success
+  onLoad: (name: string) => string | null;
+  onDelete: (name: string) => void;
+  onExport: () => string;                    // Session JSON to download
+  onImport: (text: string) => string | null;
+  disabled?: boolean;                        // While a program runs
+}
+
+const formatSavedAt = (iso: string): string => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? '?' : date.toLocaleString();
+};
+
+const SessionPanel: React.FC<SessionPanelProps> = ({
+  slots, autosave, onAutosaveChange, onSave, onLoad, onDelete, onExport, onImport, disabled = false,
+}) => {
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const report = (error: string | null, success: string) =>
+    setMessage(error ? { text: error, error: true } : { text: success, error: false });
+
+  const handleSave = () => {
+    const slot = name.trim();
+    if (!slot) return;
+    report(onSave(slot), `Saved '${slot}'`);
+  };
+
+  const handleExport = () => {
+    downloadFile(`8085-session-${new Date().toISOString().slice(0, 10)}.json`, onExport(), 'application/json');
+  };
+
+  const handleImport = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => report(onImport(String(reader.result)), `Imported ${file.name}`);
+    reader.onerror = () => report(`Could not read ${file.name}`, '');
+    reader.readAsText(file);
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg shadow-md text-white">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold font-sans text-gray-300">Session</h3>
+        <label className="flex items-center space-x-1 text-xs font-digital text-gray-300" title="Save to the autosave slot every few seconds and restore it on page load">
+          <input type="checkbox" checked={autosave} onChange={e => onAutosaveChange(e.target.checked)} />
+          <span>AUTOSAVE</span>
+        </label>
+      </div>
+
+      <div className="flex space-x-2 mb-2">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') handleSave(); }}
+          placeholder="Slot name"
+          className="bg-gray-800 text-green-400 flex-1 p-1 rounded border border-gray-600 outline-none text-xs font-digital"
+        />
+        <button onClick={handleSave} disabled={disabled || !name.trim()} className="keypad-btn control-btn text-xs px-3 py-1 disabled:opacity-50">SAVE</button>
+      </div>
+
+      {slots.length > 0 ? (
+        <ul className="text-xs font-digital space-y-1 mb-2 max-h-32 overflow-y-auto">
+          {slots.map(slot => (
+            <li key={slot.name} className="flex items-center justify-between bg-gray-800 rounded px-2 py-1">
+              <span className="text-green-400 truncate" title={formatSavedAt(slot.savedAt)}>
+                {slot.name}{slot.name === AUTOSAVE_SLOT && <span className="text-gray-500"> (auto)</span>}
+              </span>
+              <span className="flex space-x-2 shrink-0">
+                <span className="text-gray-500">{formatSavedAt(slot.savedAt)}</span>
+                <button
+                  onClick={() => report(onLoad(slot.name), `Loaded '${slot.name}'`)}
+                  disabled={disabled}
+                  className="text-sky-300 hover:underline disabled:opacity-50"
+                >
+                  LOAD
+                </button>
+                <button onClick={() => onDelete(slot.name)} className="text-red-400 hover:text-red-300" aria-label={`Delete ${slot.name}`}>×</button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-400 mb-2">No saved sessions</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={handleExport} className="keypad-btn control-btn text-xs py-1" title="Download the current state as JSON">EXPORT</button>
+        <button onClick={() => fileRef.current?.click()} disabled={disabled} className="keypad-btn control-btn text-xs py-1 disabled:opacity-50">IMPORT</button>
+        <input ref={fileRef} type="file" accept=".json,application/json" className="hidden" onChange={e => handleImport(e.target.files?.[0])} />
+      </div>
+      {message && <div className={`mt-2 text-xs font-digital ${message.error ? 'text-red-400' : 'text-green-400'}`}>{message.text}</div>}
+    </div>
+  );
+};
+
+export default SessionPanel;
@@ -3,24 +3,50 @@ import React from 'react';
 import { toHexString } from '../utils/formatters';
 
 interface SevenSegmentDisplayProps {
-  value: number;
-  digits: number;
+  value?: number;
+  digits?: number;
+  segments?: number[]; // Raw segment bytes per digit (bit 0 = a ... bit 6 = g, bit 7 = dp); overrides value
   label?: string;
   className?: string;
 }
 
-const SevenSegmentDisplay: React.FC<SevenSegmentDisplayProps> = ({ value, digits, label, className }) => {
+// Segment shapes a-g in a 20x36 box
+const SEGMENT_RECTS = [
+  { x: 3, y: 0, w: 14, h: 3 },   // a
+  { x: 17, y: 3, w: 3, h: 14 },  // b
+  { x: 17, y: 19, w: 3, h: 14 }, // c
+  { x: 3, y: 33, w: 14, h: 3 },  // d
+  { x: 0, y: 19, w: 3, h: 14 },  // e
+  { x: 0, y: 3, w: 3, h: 14 },   // f
+  { x: 3, y: 16.5, w: 14, h: 3 }, // g
+];
+
+const SegmentDigit: React.FC<{ pattern: number }> = ({ pattern }) => (
+  <svg viewBox="-1 -1 26 38" className="w-5 h-8" aria-hidden="true">
+    {SEGMENT_RECTS.map((r, i) => (
+      <rect key={i} x={r.x} y={r.y} width={r.w} height={r.h} rx={1} fill={pattern & (1 << i) ? '#FF4500' : '#3A1A10'} />
+    ))}
+    <circle cx={23} cy={34.5} r={1.5} fill={pattern & 0x80 ? '#FF4500' : '#3A1A10'} />
+  </svg>
+);
+
+const SevenSegmentDisplay: React.FC<SevenSegmentDisplayProps> = ({ value = 0, digits = 1, segments, label, className }) => {
   const hexString = toHexString(value, digits);
 
   return (
     <div className={`flex flex-col items-center ${className}`}>
       {label && <span className="text-xs text-gray-400 mb-1 font-sans">{label}</span>}
-      <div className="segment-display p-2 rounded font-digital text-3xl tracking-wider">
-        {hexString}
-      </div>
+      {segments ? (
+        <div className="segment-display p-2 rounded flex space-x-1" aria-label={segments.map(s => toHexString(s, 2)).join(' ')}>
+          {segments.map((pattern, i) => <SegmentDigit key={i} pattern={pattern} />)}
+        </div>
+      ) : (
+        <div className="segment-display p-2 rounded font-digital text-3xl tracking-wider">
+          {hexString}
+        </div>
+      )}
     </div>
   );
 };
 
 export default SevenSegmentDisplay;
-    
\ No newline at end of file
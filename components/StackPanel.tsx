@@ -0,0 +1,116 @@
+import React from 'react';
+import { StackBounds, StackTag } from '../types';
+import { callStack, readStack, stackDepth, StackRow } from '../services/stackInspector';
+import { toHexString } from '../utils/formatters';
+
+interface StackPanelProps {
+  memory: Uint8Array;
+  sp: number;
+  tags: Map<number, StackTag>;
+  bounds: StackBounds;
+  limit: number; // Bytes below the base before the stack counts as overflowed
+  onLimitChange: (limit: number) => void;
+}
+
+const VISIBLE_WORDS = 16;
+
+const inputClass = 'bg-gray-800 text-green-400 p-1 rounded border border-gray-600 focus:border-blue-500 outline-none';
+
+const describeRow = (row: StackRow): string => {
+  if (row.overwritten) return 'overwritten';
+  const tag = row.tag;
+  if (!tag) return '';
+  if (tag.kind === 'push') return `PUSH ${tag.register}`;
+  const entered = toHexString(tag.target ?? 0, 4);
+  return tag.kind === 'interrupt'
+    ? `return to ${toHexString(row.value, 4)}H (interrupt to ${entered}H)`
+    : `return to ${toHexString(row.value, 4)}H (call ${entered}H from ${toHexString(tag.pushedBy, 4)}H)`;
+};
+
+const StackPanel: React.FC<StackPanelProps> = ({ memory, sp, tags, bounds, limit, onLimitChange }) => {
+  const depth = stackDepth(bounds.base, sp);
+  const rows = readStack(memory, sp, tags, bounds.base, VISIBLE_WORDS);
+  const frames = callStack(memory, sp, tags, bounds.base);
+  const underflow = bounds.minDepth < 0;
+  const overflow = bounds.maxDepth > limit;
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg shadow-md text-white font-digital">
+      <h3 className="text-lg font-bold mb-2 text-center font-sans text-gray-300">STACK</h3>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm mb-2">
+        <div className="flex justify-between">
+          <span className="text-gray-400">SP:</span>
+          <span className="text-green-400">{toHexString(sp, 4)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400" title="SP when LXI SP or SPHL last set it">BASE:</span>
+          <span className="text-green-400">{toHexString(bounds.base, 4)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">DEPTH:</span>
+          <span className="text-green-400">{depth}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400" title="Deepest the stack has been since its base was set">MAX:</span>
+          <span className="text-green-400">{bounds.maxDepth}</span>
+        </div>
+        <label htmlFor="stackLimit" className="text-gray-400" title="Bytes below the base before the stack counts as overflowed">LIMIT:</label>
+        <input
+          id="stackLimit"
+          type="number"
+          min={2}
+          max={0xFFFF}
+          value={limit}
+          onChange={e => {
+            const value = parseInt(e.target.value, 10);
+            if (!isNaN(value) && value > 0) onLimitChange(value);
+          }}
+          className={`${inputClass} text-xs w-24 justify-self-end`}
+        />
+      </div>
+      {underflow && (
+        <div className="mb-2 p-2 rounded bg-red-900 text-red-200 text-xs font-sans">
+          Stack underflow: popped {-bounds.minDepth} byte{bounds.minDepth === -1 ? '' : 's'} past the base at {toHexString(bounds.base, 4)}H. Check for a POP or RET without a matching PUSH or CALL.
+        </div>
+      )}
+      {overflow && (
+        <div className="mb-2 p-2 rounded bg-red-900 text-red-200 text-xs font-sans">
+          Stack overflow: reached {bounds.maxDepth} bytes, past the {limit} byte limit. Check for a PUSH or CALL that is never undone.
+        </div>
+      )}
+      <table className="w-full text-xs">
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.address} className={`border-b border-gray-600 ${row.inStack ? '' : 'opacity-40'}`}>
+              <td className="px-1 py-0.5 text-gray-500">{row.address === sp ? 'SP→' : `+${(row.address - sp) & 0xFFFF}`}</td>
+              <td className="px-1 py-0.5 text-blue-400">{toHexString(row.address, 4)}</td>
+              <td className="px-1 py-0.5 text-green-400">{toHexString(row.value, 4)}</td>
+              <td className={`px-1 py-0.5 whitespace-nowrap ${row.overwritten ? 'text-yellow-400' : 'text-sky-300'}`}>{describeRow(row)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <h4 className="text-sm font-bold mt-3 mb-1 font-sans text-gray-300">CALL STACK</h4>
+      <div className="overflow-y-auto max-h-32">
+        <table className="w-full text-xs">
+          <tbody>
+            {frames.length === 0 && (
+              <tr><td className="text-gray-500 font-sans">No calls waiting to return.</td></tr>
+            )}
+            {frames.map((frame, i) => (
+              <tr key={frame.slot} className="border-b border-gray-600">
+                <td className="px-1 py-0.5 text-gray-500">#{i}</td>
+                <td className="px-1 py-0.5 text-blue-400">{toHexString(frame.entry, 4)}</td>
+                <td className="px-1 py-0.5 text-sky-300 whitespace-nowrap">
+                  {frame.kind === 'interrupt' ? 'interrupt' : 'called'} from {toHexString(frame.calledFrom, 4)}, returns to {toHexString(frame.returnTo, 4)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default StackPanel;
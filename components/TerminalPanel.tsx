@@ -0,0 +1,77 @@
+
+import React, { useEffect, useRef } from 'react';
+
+interface TerminalPanelProps {
+  output: string;
+  pendingInput: number; // Characters queued on SID but not yet clocked in
+  tStatesPerBit: number;
+  clockHz: number;
+  sod: boolean;
+  onSend: (text: string) => void;
+  onClear: () => void;
+  onTStatesPerBitChange: (tStates: number) => void;
+}
+
+const BAUD_PRESETS = [110, 300, 600, 1200, 2400, 4800, 9600];
+
+const TerminalPanel: React.FC<TerminalPanelProps> = ({ output, pendingInput, tStatesPerBit, clockHz, sod, onSend, onClear, onTStatesPerBitChange }) => {
+  const screenRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (screenRef.current) screenRef.current.scrollTop = screenRef.current.scrollHeight;
+  }, [output]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Keep keystrokes away from the global keypad shortcuts
+    e.stopPropagation();
+    if (e.key.length === 1) onSend(e.key);
+    else if (e.key === 'Enter') onSend('\r');
+    else if (e.key === 'Backspace') onSend('\b');
+    else return;
+    e.preventDefault();
+  };
+
+  const baud = Math.round(clockHz / tStatesPerBit);
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg shadow-md text-white flex flex-col">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-bold font-sans text-gray-300">SERIAL TERMINAL</h3>
+        <button onClick={onClear} className="keypad-btn control-btn text-xs py-1 px-2">Clear</button>
+      </div>
+      <div
+        ref={screenRef}
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        title="Click and type to send characters on SID"
+        className="bg-black text-green-400 font-digital text-sm h-32 p-2 rounded overflow-y-auto whitespace-pre-wrap break-all outline-none focus:ring-2 focus:ring-green-600"
+      >
+        {output.replace(/\r\n?/g, '\n')}<span className="animate-pulse">▮</span>
+      </div>
+      <div className="flex items-center justify-between mt-2 text-xs font-digital text-gray-300">
+        <label className="flex items-center space-x-1">
+          <span>T-states/bit:</span>
+          <input
+            type="number"
+            min={1}
+            value={tStatesPerBit}
+            onChange={e => { const t = Number(e.target.value); if (t > 0) onTStatesPerBitChange(Math.round(t)); }}
+            className="bg-gray-800 text-green-400 p-1 rounded w-20 border border-gray-600"
+          />
+        </label>
+        <select
+          value={BAUD_PRESETS.includes(baud) ? baud : ''}
+          onChange={e => onTStatesPerBitChange(Math.round(clockHz / Number(e.target.value)))}
+          className="bg-gray-800 text-green-400 p-1 rounded border border-gray-600"
+        >
+          {!BAUD_PRESETS.includes(baud) && <option value="">≈{baud} baud</option>}
+          {BAUD_PRESETS.map(b => <option key={b} value={b}>{b} baud</option>)}
+        </select>
+        <span>SOD: {sod ? 1 : 0}</span>
+        <span>SID queue: {pendingInput}</span>
+      </div>
+    </div>
+  );
+};
+
+export default TerminalPanel;
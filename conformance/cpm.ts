@@ -0,0 +1,63 @@
+// Just enough CP/M to run the classic CPU exercisers (CPUDIAG, 8080PRE,
+// 8080EXM and friends): the .COM file loads at 0100H, BDOS calls through
+// 0005H print to the console, and a jump to 0000H (warm boot) ends the run.
+
+import { CPU8085 } from '../services/8085';
+
+export const TPA_START = 0x0100;
+const BDOS_ENTRY = 0x0005;
+const BDOS_RETURN = 0xFE00; // A RET that BDOS calls land on after being handled
+const BDOS_FUNCTION_PRINT_CHAR = 2;
+const BDOS_FUNCTION_PRINT_STRING = 9;
+
+export type CpmStatus = 'warm-boot' | 'halted' | 'unknown-opcode' | 'step-limit';
+
+export interface CpmResult {
+  status: CpmStatus;
+  output: string;
+  steps: number;
+  cycles: number;
+}
+
+/**
+ * Runs a CP/M program to warm boot. `onOutput` sees console text as it is
+ * printed, since the longer exercisers take minutes.
+ */
+export const runCpmProgram = (image: Uint8Array, maxSteps: number, onOutput?: (text: string) => void): CpmResult => {
+  if (image.length > BDOS_RETURN - TPA_START) throw new Error(`Program is ${image.length} bytes; the TPA holds ${BDOS_RETURN - TPA_START}`);
+  const cpu = new CPU8085();
+  cpu.historyLimit = 0;
+  cpu.memory.fill(0);
+  cpu.memory.set(image, TPA_START);
+  cpu.memory.set([0xC3, BDOS_RETURN & 0xFF, BDOS_RETURN >> 8], BDOS_ENTRY); // JMP BDOS: programs read the TPA top from 0006H
+  cpu.memory[BDOS_RETURN] = 0xC9; // RET
+  cpu.registers.SP = BDOS_RETURN - 2; // Holds 0000H, so a plain RET also warm boots
+  cpu.registers.PC = TPA_START;
+
+  let output = '';
+  const print = (text: string) => {
+    output += text;
+    onOutput?.(text);
+  };
+  const result = (status: CpmStatus, steps: number): CpmResult => ({ status, output, steps, cycles: cpu.cycles });
+
+  for (let steps = 0; steps < maxSteps; steps++) {
+    const { PC, C, D, E } = cpu.registers;
+    if (PC === 0x0000) return result('warm-boot', steps);
+    if (PC === BDOS_ENTRY) {
+      if (C === BDOS_FUNCTION_PRINT_CHAR) {
+        print(String.fromCharCode(E));
+      } else if (C === BDOS_FUNCTION_PRINT_STRING) {
+        let text = '';
+        for (let address = (D << 8) | E; cpu.memory[address] !== 0x24 && text.length < 0x10000; address = (address + 1) & 0xFFFF) {
+          text += String.fromCharCode(cpu.memory[address]);
+        }
+        print(text);
+      }
+    }
+    cpu.step();
+    if (cpu.unknownOpcode) return result('unknown-opcode', steps + 1);
+    if (cpu.halted) return result('halted', steps + 1);
+  }
+  return result('step-limit', maxSteps);
+};
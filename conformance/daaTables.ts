@@ -0,0 +1,93 @@
+// Published DAA truth tables, checked row by row over every accumulator value
+// and flag input each row covers. The addition table is Intel's (8080/8085
+// Assembly Language Programming Manual), which every 8085 follows whatever
+// came before. The subtraction table is Zilog's, for DAA with N=1; the CPU
+// follows it only in subtract-aware mode, after a subtraction.
+
+import { CPU8085 } from '../services/8085';
+import { DaaMode } from '../types';
+import { toHexString } from '../utils/formatters';
+
+interface DaaRow {
+  carry: boolean;           // CY before
+  high: [number, number];   // Upper nibble range before
+  auxCarry: boolean;        // AC before
+  low: [number, number];    // Lower nibble range before
+  add: number;              // Added to A, modulo 256
+  carryAfter: boolean;
+}
+
+export interface DaaTable {
+  name: string;
+  mode: DaaMode;
+  afterSubtract: boolean;
+  rows: DaaRow[];
+}
+
+export interface DaaTableReport {
+  name: string;
+  inputs: number;
+  diffs: string[]; // The first few mismatches
+}
+
+const MAX_DIFFS = 5;
+
+const row = (carry: number, high: [number, number], auxCarry: number, low: [number, number], add: number, carryAfter: number): DaaRow =>
+  ({ carry: carry === 1, high, auxCarry: auxCarry === 1, low, add, carryAfter: carryAfter === 1 });
+
+const ADDITION_ROWS: DaaRow[] = [
+  row(0, [0x0, 0x9], 0, [0x0, 0x9], 0x00, 0),
+  row(0, [0x0, 0x8], 0, [0xA, 0xF], 0x06, 0),
+  row(0, [0x0, 0x9], 1, [0x0, 0x3], 0x06, 0),
+  row(0, [0xA, 0xF], 0, [0x0, 0x9], 0x60, 1),
+  row(0, [0x9, 0xF], 0, [0xA, 0xF], 0x66, 1),
+  row(0, [0xA, 0xF], 1, [0x0, 0x3], 0x66, 1),
+  row(1, [0x0, 0x2], 0, [0x0, 0x9], 0x60, 1),
+  row(1, [0x0, 0x2], 0, [0xA, 0xF], 0x66, 1),
+  row(1, [0x0, 0x3], 1, [0x0, 0x3], 0x66, 1),
+];
+
+const SUBTRACTION_ROWS: DaaRow[] = [
+  row(0, [0x0, 0x9], 0, [0x0, 0x9], 0x00, 0),
+  row(0, [0x0, 0x8], 1, [0x6, 0xF], 0xFA, 0),
+  row(1, [0x7, 0xF], 0, [0x0, 0x9], 0xA0, 1),
+  row(1, [0x6, 0xF], 1, [0x6, 0xF], 0x9A, 1),
+];
+
+export const DAA_TABLES: DaaTable[] = [
+  { name: 'DAA after addition', mode: 'silicon', afterSubtract: false, rows: ADDITION_ROWS },
+  { name: 'DAA after subtraction, silicon mode (adjusts as an addition)', mode: 'silicon', afterSubtract: true, rows: ADDITION_ROWS },
+  { name: 'DAA after addition, subtract-aware mode', mode: 'subtract-aware', afterSubtract: false, rows: ADDITION_ROWS },
+  { name: 'DAA after subtraction, subtract-aware mode', mode: 'subtract-aware', afterSubtract: true, rows: SUBTRACTION_ROWS },
+];
+
+/** Runs DAA on the CPU for every input each table row covers. */
+export const runDaaTables = (): DaaTableReport[] => {
+  const cpu = new CPU8085();
+  cpu.historyLimit = 0;
+  return DAA_TABLES.map(table => {
+    const report: DaaTableReport = { name: table.name, inputs: 0, diffs: [] };
+    cpu.daaMode = table.mode;
+    table.rows.forEach(({ carry, high, auxCarry, low, add, carryAfter }) => {
+      for (let h = high[0]; h <= high[1]; h++) {
+        for (let l = low[0]; l <= low[1]; l++) {
+          const a = (h << 4) | l;
+          cpu.registers.A = a;
+          cpu.registers.PC = 0x2000;
+          cpu.memory[0x2000] = 0x27; // DAA
+          cpu.flags = { ...cpu.flags, CY: carry, AC: auxCarry };
+          cpu.lastSubtract = table.afterSubtract;
+          cpu.halted = false;
+          cpu.step();
+          report.inputs++;
+          const want = (a + add) & 0xFF;
+          if ((cpu.registers.A !== want || cpu.flags.CY !== carryAfter) && report.diffs.length < MAX_DIFFS) {
+            report.diffs.push(`A=${toHexString(a, 2)} CY=${+carry} AC=${+auxCarry}: expected ${toHexString(want, 2)} CY=${+carryAfter}, ` +
+              `got ${toHexString(cpu.registers.A, 2)} CY=${+cpu.flags.CY}`);
+          }
+        }
+      }
+    });
+    return report;
+  });
+};
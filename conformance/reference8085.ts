@@ -0,0 +1,272 @@
+// Reference model of the documented 8085 instruction set, written from the
+// Intel datasheet independently of services/8085.ts: it decodes opcode bit
+// fields instead of switching on every opcode, and computes flags and timing
+// with its own formulas. The conformance runner checks the CPU against it.
+//
+// Flag conventions (8085, not 8080): AC after a subtraction is the borrow out
+// of bit 3; ANA/ANI set AC; XRA/ORA and their immediates clear it. PSW bit 1
+// reads as 1, bits 3 and 5 as 0.
+
+import { Flags, Registers } from '../types';
+
+export interface RefState {
+  registers: Registers;
+  flags: Flags;
+  halted: boolean;
+  ie: boolean;        // Interrupt enable flip-flop
+  iePending: boolean; // EI takes effect after the next instruction
+  masks: number;      // RST 7.5/6.5/5.5 mask bits
+  rst75: boolean;     // RST 7.5 latch
+  sod: boolean;
+}
+
+export interface RefBus {
+  read(address: number): number;
+  write(address: number, value: number): void;
+  input(port: number): number;
+  output(port: number, value: number): void;
+}
+
+// Register field encoding: 0 B, 1 C, 2 D, 3 E, 4 H, 5 L, 6 M, 7 A
+const REG_NAMES: (keyof Registers | null)[] = ['B', 'C', 'D', 'E', 'H', 'L', null, 'A'];
+
+const PARITY_EVEN: boolean[] = Array.from({ length: 256 }, (_, v) => {
+  let ones = 0;
+  for (let bits = v; bits; bits &= bits - 1) ones++;
+  return ones % 2 === 0;
+});
+
+/** Executes one instruction in place and returns its T-states. */
+export const referenceStep = (s: RefState, bus: RefBus): number => {
+  const r = s.registers;
+  const f = s.flags;
+  const next = () => {
+    const value = bus.read(r.PC);
+    r.PC = (r.PC + 1) & 0xFFFF;
+    return value;
+  };
+  const nextWord = () => next() | (next() << 8);
+  const hl = () => (r.H << 8) | r.L;
+  const pair = (p: number): number =>
+    p === 0 ? (r.B << 8) | r.C : p === 1 ? (r.D << 8) | r.E : p === 2 ? hl() : r.SP;
+  const setPair = (p: number, value: number) => {
+    value &= 0xFFFF;
+    if (p === 0) { r.B = value >> 8; r.C = value & 0xFF; }
+    else if (p === 1) { r.D = value >> 8; r.E = value & 0xFF; }
+    else if (p === 2) { r.H = value >> 8; r.L = value & 0xFF; }
+    else r.SP = value;
+  };
+  const get = (code: number): number => code === 6 ? bus.read(hl()) : r[REG_NAMES[code]!];
+  const set = (code: number, value: number) => {
+    if (code === 6) bus.write(hl(), value & 0xFF);
+    else r[REG_NAMES[code]!] = value & 0xFF;
+  };
+  const szp = (value: number) => {
+    f.S = (value & 0x80) !== 0;
+    f.Z = (value & 0xFF) === 0;
+    f.P = PARITY_EVEN[value & 0xFF];
+  };
+  const push = (value: number) => {
+    r.SP = (r.SP - 1) & 0xFFFF;
+    bus.write(r.SP, value >> 8);
+    r.SP = (r.SP - 1) & 0xFFFF;
+    bus.write(r.SP, value & 0xFF);
+  };
+  const pop = (): number => {
+    const low = bus.read(r.SP);
+    const high = bus.read((r.SP + 1) & 0xFFFF);
+    r.SP = (r.SP + 2) & 0xFFFF;
+    return (high << 8) | low;
+  };
+  const condition = (cc: number): boolean => {
+    const flag = [f.Z, f.CY, f.P, f.S][cc >> 1];
+    return (cc & 1) === 1 ? flag : !flag;
+  };
+  // ALU op field: ADD ADC SUB SBB ANA XRA ORA CMP
+  const alu = (op: number, v: number) => {
+    const a = r.A;
+    let result: number;
+    switch (op) {
+      case 0: case 1: {
+        result = a + v + (op === 1 && f.CY ? 1 : 0);
+        f.CY = result > 0xFF;
+        f.AC = ((a ^ v ^ result) & 0x10) !== 0;
+        break;
+      }
+      case 2: case 3: case 7: {
+        result = a - v - (op === 3 && f.CY ? 1 : 0);
+        f.CY = result < 0;
+        f.AC = ((a ^ v ^ result) & 0x10) !== 0;
+        break;
+      }
+      case 4: result = a & v; f.CY = false; f.AC = true; break;
+      case 5: result = a ^ v; f.CY = false; f.AC = false; break;
+      default: result = a | v; f.CY = false; f.AC = false; break;
+    }
+    szp(result);
+    if (op !== 7) r.A = result & 0xFF;
+  };
+
+  const opcode = next();
+  const x = opcode >> 6;
+  const y = (opcode >> 3) & 7;
+  const z = opcode & 7;
+  const p = y >> 1;
+
+  if (opcode === 0x76) {
+    s.halted = true;
+    return 5;
+  }
+  if (x === 1) {
+    set(y, get(z));
+    return y === 6 || z === 6 ? 7 : 4;
+  }
+  if (x === 2) {
+    alu(y, get(z));
+    return z === 6 ? 7 : 4;
+  }
+
+  if (x === 0) {
+    switch (z) {
+      case 0:
+        if (y === 4) { // RIM: no interrupt is pending and SID reads 0 here
+          r.A = (s.ie ? 0x08 : 0) | (s.rst75 ? 0x40 : 0) | s.masks;
+        } else if (y === 6) { // SIM
+          if (r.A & 0x08) s.masks = r.A & 0x07;
+          if (r.A & 0x10) s.rst75 = false;
+          if (r.A & 0x40) s.sod = (r.A & 0x80) !== 0;
+        }
+        return 4; // NOP, RIM, SIM
+      case 1:
+        if (y & 1) {
+          const sum = hl() + pair(p);
+          f.CY = sum > 0xFFFF;
+          setPair(2, sum);
+          return 10; // DAD
+        }
+        setPair(p, nextWord());
+        return 10; // LXI
+      case 2: {
+        if (p < 2) {
+          const address = pair(p);
+          if (y & 1) r.A = bus.read(address); // LDAX
+          else bus.write(address, r.A);       // STAX
+          return 7;
+        }
+        const address = nextWord();
+        if (y === 4) { bus.write(address, r.L); bus.write((address + 1) & 0xFFFF, r.H); return 16; } // SHLD
+        if (y === 5) { r.L = bus.read(address); r.H = bus.read((address + 1) & 0xFFFF); return 16; } // LHLD
+        if (y === 6) bus.write(address, r.A); // STA
+        else r.A = bus.read(address);         // LDA
+        return 13;
+      }
+      case 3:
+        setPair(p, pair(p) + (y & 1 ? -1 : 1));
+        return 6; // INX, DCX
+      case 4: case 5: {
+        const v = get(y);
+        const result = (v + (z === 4 ? 1 : -1)) & 0xFF;
+        f.AC = z === 4 ? (result & 0x0F) === 0 : (v & 0x0F) === 0;
+        szp(result);
+        set(y, result);
+        return y === 6 ? 10 : 4; // INR, DCR
+      }
+      case 6:
+        set(y, next());
+        return y === 6 ? 10 : 7; // MVI
+      default: {
+        const a = r.A;
+        switch (y) {
+          case 0: r.A = ((a << 1) | (a >> 7)) & 0xFF; f.CY = (a & 0x80) !== 0; break; // RLC
+          case 1: r.A = ((a >> 1) | (a << 7)) & 0xFF; f.CY = (a & 1) !== 0; break;    // RRC
+          case 2: r.A = ((a << 1) | (f.CY ? 1 : 0)) & 0xFF; f.CY = (a & 0x80) !== 0; break; // RAL
+          case 3: r.A = (a >> 1) | (f.CY ? 0x80 : 0); f.CY = (a & 1) !== 0; break;    // RAR
+          case 4: { // DAA
+            const low = (a & 0x0F) > 9 || f.AC ? 0x06 : 0;
+            const high = a > 0x99 || f.CY ? 0x60 : 0;
+            const result = a + low + high;
+            f.AC = ((a & 0x0F) + low) > 0x0F;
+            f.CY = f.CY || high !== 0;
+            szp(result);
+            r.A = result & 0xFF;
+            break;
+          }
+          case 5: r.A = ~a & 0xFF; break; // CMA
+          case 6: f.CY = true; break;     // STC
+          default: f.CY = !f.CY; break;   // CMC
+        }
+        return 4;
+      }
+    }
+  }
+
+  // x === 3
+  switch (z) {
+    case 0:
+      if (condition(y)) { r.PC = pop(); return 12; }
+      return 6; // Rcc
+    case 1:
+      if (y === 1) { r.PC = pop(); return 10; } // RET
+      if (y === 3) return 10; // Undocumented on the 8085, not reached
+      if (y === 5) { r.PC = hl(); return 6; } // PCHL
+      if (y === 7) { r.SP = hl(); return 6; } // SPHL
+      if (p === 3) {
+        const psw = pop();
+        r.A = psw >> 8;
+        f.S = (psw & 0x80) !== 0; f.Z = (psw & 0x40) !== 0; f.AC = (psw & 0x10) !== 0;
+        f.P = (psw & 0x04) !== 0; f.CY = (psw & 0x01) !== 0;
+      } else {
+        setPair(p, pop());
+      }
+      return 10; // POP
+    case 2: {
+      const target = nextWord();
+      if (condition(y)) { r.PC = target; return 10; }
+      return 7; // Jcc
+    }
+    case 3:
+      switch (y) {
+        case 0: r.PC = nextWord(); return 10; // JMP
+        case 2: bus.output(next(), r.A); return 10; // OUT
+        case 3: r.A = bus.input(next()); return 10; // IN
+        case 4: { // XTHL
+          const low = bus.read(r.SP);
+          const high = bus.read((r.SP + 1) & 0xFFFF);
+          bus.write(r.SP, r.L);
+          bus.write((r.SP + 1) & 0xFFFF, r.H);
+          r.L = low;
+          r.H = high;
+          return 16;
+        }
+        case 5: { const h = r.H, l = r.L; r.H = r.D; r.L = r.E; r.D = h; r.E = l; return 4; } // XCHG
+        case 6: s.ie = false; s.iePending = false; return 4; // DI
+        case 7: s.iePending = true; return 4; // EI
+        default: return 4; // Undocumented, not reached
+      }
+    case 4: {
+      const target = nextWord();
+      if (condition(y)) { push(r.PC); r.PC = target; return 18; }
+      return 9; // Ccc
+    }
+    case 5:
+      if (y & 1) { // CALL (other odd slots are undocumented)
+        const target = nextWord();
+        push(r.PC);
+        r.PC = target;
+        return 18;
+      }
+      if (p === 3) {
+        push((r.A << 8) | (f.S ? 0x80 : 0) | (f.Z ? 0x40 : 0) | (f.AC ? 0x10 : 0) | (f.P ? 0x04 : 0) | 0x02 | (f.CY ? 0x01 : 0));
+      } else {
+        push(pair(p));
+      }
+      return 12; // PUSH
+    case 6:
+      alu(y, next());
+      return 7; // ALU immediate
+    default:
+      push(r.PC);
+      r.PC = y * 8;
+      return 12; // RST
+  }
+};
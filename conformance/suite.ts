@@ -0,0 +1,260 @@
+// Instruction-level conformance: every documented opcode is stepped on the
+// CPU from many machine states and the outcome compared, flag for flag, with
+// the reference model. Random states cover the general case; sweeps walk every
+// operand and flag input of the ALU, rotate and DAA instructions.
+
+import { CPU8085 } from '../services/8085';
+import { OPCODE_TABLE } from '../services/opcodes';
+import { Flags, FlagName, Registers } from '../types';
+import { toHexString } from '../utils/formatters';
+import { referenceStep, RefState } from './reference8085';
+import { VECTORS, VECTOR_ORIGIN, parseFlagList } from './vectors';
+
+export interface CaseFailure {
+  state: string; // The starting state, for reproducing the failure
+  diffs: string[];
+}
+
+export interface OpcodeReport {
+  opcode: number;
+  name: string; // e.g. 'ANA E'
+  cases: number;
+  failed: number;
+  examples: CaseFailure[]; // The first few failures
+}
+
+export interface VectorReport {
+  name: string;
+  diffs: string[];
+}
+
+export interface SuiteOptions {
+  samples: number; // Random states per opcode
+  seed: number;
+  sweeps: boolean; // Exhaustive operand and flag sweeps
+}
+
+const MAX_EXAMPLES = 3;
+const REGISTER_NAMES: (keyof Registers)[] = ['A', 'B', 'C', 'D', 'E', 'H', 'L', 'SP', 'PC'];
+const FLAG_NAMES: FlagName[] = ['S', 'Z', 'AC', 'P', 'CY'];
+const EDGE_BYTES = [0x00, 0x01, 0x0F, 0x10, 0x7F, 0x80, 0x99, 0x9A, 0xF0, 0xFF];
+
+// ALU immediates, INR/DCR A, rotates and DAA: small enough input spaces to enumerate
+const SWEPT_OPCODES = new Set([0xC6, 0xCE, 0xD6, 0xDE, 0xE6, 0xEE, 0xF6, 0xFE, 0x3C, 0x3D, 0x07, 0x0F, 0x17, 0x1F, 0x27]);
+
+/** The 246 opcodes the 8085 documents; the rest are the undocumented slots. */
+export const DOCUMENTED_OPCODES: number[] = OPCODE_TABLE.flatMap((info, opcode) => info ? [opcode] : []);
+
+export const opcodeName = (opcode: number): string => {
+  const info = OPCODE_TABLE[opcode];
+  if (!info) return `${toHexString(opcode, 2)}H`;
+  return info.operands.length > 0 ? `${info.mnemonic} ${info.operands.join(',')}` : info.mnemonic;
+};
+
+// Small deterministic generator (mulberry32) so a seed reproduces a run
+const createRandom = (seed: number) => {
+  let t = seed >>> 0;
+  return (): number => {
+    t = (t + 0x6D2B79F5) >>> 0;
+    let x = Math.imul(t ^ (t >>> 15), t | 1);
+    x ^= x + Math.imul(x ^ (x >>> 7), x | 61);
+    return ((x ^ (x >>> 14)) >>> 0);
+  };
+};
+
+const flagsFrom = (bits: number): Flags =>
+  ({ S: (bits & 16) !== 0, Z: (bits & 8) !== 0, AC: (bits & 4) !== 0, P: (bits & 2) !== 0, CY: (bits & 1) !== 0, V: false, K: false });
+
+const describeState = (s: RefState): string =>
+  REGISTER_NAMES.map(name => `${name}=${toHexString(s.registers[name], name === 'SP' || name === 'PC' ? 4 : 2)}`).join(' ') +
+  ` F=${FLAG_NAMES.filter(name => s.flags[name]).join(',') || '-'}` +
+  ` IE=${+s.ie} masks=${s.masks} R7.5=${+s.rst75} SOD=${+s.sod}`;
+
+const copyState = (s: RefState): RefState => ({ ...s, registers: { ...s.registers }, flags: { ...s.flags } });
+
+/**
+ * Steps one instruction from `start` on both the CPU and the reference model
+ * and lists every difference. Memory must already hold the instruction.
+ */
+const compareStep = (cpu: CPU8085, start: RefState): string[] => {
+  // The reference runs first, writing to an overlay, so both see the same memory
+  const expected = copyState(start);
+  const written = new Map<number, number>();
+  const outputs = new Map<number, number>();
+  const expectedT = referenceStep(expected, {
+    read: address => written.get(address) ?? cpu.memory[address],
+    write: (address, value) => { written.set(address, value); },
+    input: port => cpu.ioPorts[port],
+    output: (port, value) => { outputs.set(port, value); },
+  });
+
+  cpu.registers = { ...start.registers };
+  cpu.flags = { ...start.flags };
+  cpu.halted = false;
+  // Nothing else touches the other interrupt fields, so they stay as reset left them
+  Object.assign(cpu.interrupts, { enabled: start.ie, enablePending: start.iePending, masks: start.masks, rst75Latch: start.rst75 });
+  cpu.sod = start.sod;
+  const ports = cpu.ioPorts.slice();
+  const cpuWrites = new Map<number, number>();
+  const stopListening = cpu.addMemoryListener(access => {
+    if (access.type === 'write') cpuWrites.set(access.address, access.value);
+  });
+  const actualT = cpu.step();
+  stopListening();
+
+  const diffs: string[] = [];
+  const check = (what: string, want: string, got: string) => {
+    if (want !== got) diffs.push(`${what}: expected ${want}, got ${got}`);
+  };
+  REGISTER_NAMES.forEach(name => {
+    const digits = name === 'SP' || name === 'PC' ? 4 : 2;
+    check(name, toHexString(expected.registers[name], digits), toHexString(cpu.registers[name], digits));
+  });
+  FLAG_NAMES.forEach(name => check(`flag ${name}`, String(+expected.flags[name]), String(+cpu.flags[name])));
+  check('T-states', String(expectedT), String(actualT));
+  check('halted', String(expected.halted), String(cpu.halted));
+  check('IE', String(expected.ie), String(cpu.interrupts.enabled));
+  check('EI pending', String(expected.iePending), String(cpu.interrupts.enablePending));
+  check('masks', String(expected.masks), String(cpu.interrupts.masks));
+  check('RST 7.5 latch', String(expected.rst75), String(cpu.interrupts.rst75Latch));
+  check('SOD', String(expected.sod), String(cpu.sod));
+  if (cpu.fault) diffs.push(`unexpected fault ${cpu.fault.type} at ${toHexString(cpu.fault.address, 4)}H`);
+  new Set([...written.keys(), ...cpuWrites.keys()]).forEach(address => {
+    const want = written.get(address);
+    const got = cpuWrites.get(address);
+    check(`write ${toHexString(address, 4)}H`, want === undefined ? 'none' : toHexString(want, 2),
+      got === undefined ? 'none' : toHexString(got, 2));
+  });
+  ports.forEach((before, port) => {
+    const want = outputs.get(port) ?? before;
+    if (cpu.ioPorts[port] !== want) check(`port ${toHexString(port, 2)}H`, toHexString(want, 2), toHexString(cpu.ioPorts[port], 2));
+  });
+  return diffs;
+};
+
+// Puts random bytes wherever the instruction might read data, then the instruction itself at PC
+const prepareMemory = (cpu: CPU8085, s: RefState, code: number[], random: () => number) => {
+  const { registers: r } = s;
+  const operand = code[1] | (code[2] << 8);
+  [(r.H << 8) | r.L, (r.B << 8) | r.C, (r.D << 8) | r.E, r.SP, operand].forEach(address => {
+    cpu.memory[address & 0xFFFF] = random() & 0xFF;
+    cpu.memory[(address + 1) & 0xFFFF] = random() & 0xFF;
+  });
+  cpu.ioPorts[code[1]] = random() & 0xFF;
+  code.forEach((byte, i) => { cpu.memory[(r.PC + i) & 0xFFFF] = byte; });
+};
+
+const randomState = (random: () => number): RefState => {
+  const byte = () => random() & 0xFF;
+  const state: RefState = {
+    registers: { A: byte(), B: byte(), C: byte(), D: byte(), E: byte(), H: byte(), L: byte(), SP: random() & 0xFFFF, PC: random() & 0xFFFF },
+    flags: flagsFrom(random()),
+    halted: false,
+    ie: (random() & 1) === 1,
+    iePending: false,
+    masks: random() & 7,
+    rst75: (random() & 1) === 1,
+    sod: (random() & 1) === 1,
+  };
+  // A latched, unmasked RST 7.5 with interrupts on would be taken instead of the instruction
+  if (state.ie && !(state.masks & 4)) state.rst75 = false;
+  return state;
+};
+
+/** Checks every documented opcode against the reference model. */
+export const runOpcodeSuite = (options: SuiteOptions): OpcodeReport[] => {
+  const cpu = new CPU8085();
+  cpu.historyLimit = 0;
+  const random = createRandom(options.seed);
+
+  return DOCUMENTED_OPCODES.map(opcode => {
+    const report: OpcodeReport = { opcode, name: opcodeName(opcode), cases: 0, failed: 0, examples: [] };
+    const run = (state: RefState, operand: number) => {
+      const code = [opcode, operand & 0xFF, random() & 0xFF];
+      prepareMemory(cpu, state, code, random);
+      const diffs = compareStep(cpu, state);
+      report.cases++;
+      if (diffs.length > 0) {
+        report.failed++;
+        if (report.examples.length < MAX_EXAMPLES) {
+          report.examples.push({ state: `${describeState(state)} bytes=${code.map(b => toHexString(b, 2)).join(' ')}`, diffs });
+        }
+      }
+    };
+
+    for (let i = 0; i < options.samples; i++) run(randomState(random), random());
+    // Edge values in A and every register/immediate operand, under each flag combination
+    EDGE_BYTES.forEach(a => EDGE_BYTES.forEach(v => {
+      const state = randomState(random);
+      state.registers = { ...state.registers, A: a, B: v, C: v, D: v, E: v, H: v, L: v };
+      state.flags = flagsFrom(random());
+      run(state, v);
+    }));
+    if (options.sweeps && SWEPT_OPCODES.has(opcode)) {
+      // Immediates take every operand with CY clear and set; the rest every flag combination
+      const immediate = OPCODE_TABLE[opcode]!.immediate === 'byte';
+      for (let a = 0; a < 0x100; a++) {
+        for (let i = 0; i < (immediate ? 0x200 : 32); i++) {
+          const state = randomState(random);
+          state.registers.A = a;
+          state.flags = immediate ? { ...flagsFrom(random()), CY: (i & 0x100) !== 0 } : flagsFrom(i);
+          run(state, i & 0xFF);
+        }
+      }
+    }
+    return report;
+  });
+};
+
+/** Runs the hand-checked datasheet vectors on both the CPU and the reference model. */
+export const runVectors = (): VectorReport[] => VECTORS.map(vector => {
+  const diffs: string[] = [];
+  const { flags: setupFlags, memory: setupMemory, ...setupRegisters } = vector.setup ?? {};
+  const { flags: expectFlags, memory: expectMemory, tStates, ...expectRegisters } = vector.expect;
+  const start: RefState = {
+    registers: { A: 0, B: 0, C: 0, D: 0, E: 0, H: 0, L: 0, SP: 0xFFFE, PC: VECTOR_ORIGIN, ...setupRegisters },
+    flags: parseFlagList(setupFlags ?? ''),
+    halted: false, ie: false, iePending: false, masks: 7, rst75: false, sod: false,
+  };
+
+  const memory = new Uint8Array(0x10000);
+  Object.entries(setupMemory ?? {}).forEach(([address, bytes]) => memory.set(bytes, Number(address)));
+  memory.set(vector.code, VECTOR_ORIGIN);
+
+  const cpu = new CPU8085();
+  cpu.historyLimit = 0;
+  cpu.memory.set(memory);
+  cpu.registers = { ...start.registers };
+  cpu.flags = { ...start.flags };
+  const cpuT = cpu.step();
+
+  const reference = copyState(start);
+  const referenceMemory = memory.slice();
+  const referenceT = referenceStep(reference, {
+    read: address => referenceMemory[address],
+    write: (address, value) => { referenceMemory[address] = value; },
+    input: () => 0,
+    output: () => {},
+  });
+
+  const results = [{ who: 'CPU', registers: cpu.registers, flags: cpu.flags, memory: cpu.memory, t: cpuT },
+    { who: 'reference', registers: reference.registers, flags: reference.flags, memory: referenceMemory, t: referenceT }];
+  results.forEach(({ who, registers, flags, memory: finalMemory, t }) => {
+    Object.entries(expectRegisters).forEach(([name, value]) => {
+      const got = registers[name as keyof Registers];
+      if (got !== value) diffs.push(`${who} ${name}: expected ${toHexString(value!, 2)}, got ${toHexString(got, 2)}`);
+    });
+    if (expectFlags !== undefined) {
+      const want = parseFlagList(expectFlags);
+      FLAG_NAMES.forEach(name => {
+        if (want[name] !== flags[name]) diffs.push(`${who} flag ${name}: expected ${+want[name]}, got ${+flags[name]}`);
+      });
+    }
+    Object.entries(expectMemory ?? {}).forEach(([address, bytes]) => bytes.forEach((byte, i) => {
+      const at = Number(address) + i;
+      if (finalMemory[at] !== byte) diffs.push(`${who} memory ${toHexString(at, 4)}H: expected ${toHexString(byte, 2)}, got ${toHexString(finalMemory[at], 2)}`);
+    }));
+    if (tStates !== undefined && t !== tStates) diffs.push(`${who} T-states: expected ${tStates}, got ${t}`);
+  });
+  return { name: vector.name, diffs };
+});
@@ -0,0 +1,75 @@
+// Hand-checked results from the 8085 datasheet and programming manual. They
+// anchor both the CPU and the reference model, so a mistake shared by the two
+// still shows up. Code is placed at 2000H and run for one instruction.
+// `flags` lists every flag expected set; the rest must be clear.
+
+import { FlagName, Registers } from '../types';
+
+export interface Vector {
+  name: string;
+  code: number[];
+  setup?: Partial<Registers> & { flags?: string; memory?: Record<number, number[]> };
+  expect: Partial<Registers> & { flags?: string; memory?: Record<number, number[]>; tStates?: number };
+}
+
+export const VECTOR_ORIGIN = 0x2000;
+
+export const parseFlagList = (list: string): Record<FlagName, boolean> => {
+  const names = list.split(/\s+/).filter(Boolean);
+  return {
+    S: names.includes('S'), Z: names.includes('Z'), AC: names.includes('AC'), P: names.includes('P'), CY: names.includes('CY'),
+    V: names.includes('V'), K: names.includes('K'),
+  };
+};
+
+export const VECTORS: Vector[] = [
+  { name: 'ADD B wraps to zero', code: [0x80], setup: { A: 0xFF, B: 0x01 }, expect: { A: 0x00, flags: 'Z AC P CY', tStates: 4 } },
+  { name: 'ADD B half carry', code: [0x80], setup: { A: 0x2E, B: 0x6C }, expect: { A: 0x9A, flags: 'S AC P' } },
+  { name: 'ADC C with carry in', code: [0x89], setup: { A: 0x3D, C: 0x42, flags: 'CY' }, expect: { A: 0x80, flags: 'S AC' } },
+  { name: 'ADD M', code: [0x86], setup: { A: 0x01, H: 0x30, L: 0x00, memory: { 0x3000: [0x7F] } }, expect: { A: 0x80, flags: 'S AC', tStates: 7 } },
+  { name: 'SUB A clears A', code: [0x97], setup: { A: 0x3E, flags: 'S CY' }, expect: { A: 0x00, flags: 'Z P' } },
+  { name: 'SUB B borrows from bit 4', code: [0x90], setup: { A: 0x10, B: 0x01 }, expect: { A: 0x0F, flags: 'AC P' } },
+  { name: 'SUB B goes negative', code: [0x90], setup: { A: 0x01, B: 0x02 }, expect: { A: 0xFF, flags: 'S AC P CY' } },
+  { name: 'SBB B with borrow in', code: [0x98], setup: { A: 0x04, B: 0x02, flags: 'CY' }, expect: { A: 0x01, flags: '' } },
+  { name: 'CMP B below', code: [0xB8], setup: { A: 0x10, B: 0x20 }, expect: { A: 0x10, flags: 'S P CY' } },
+  { name: 'CMP E equal', code: [0xBB], setup: { A: 0x5A, E: 0x5A }, expect: { A: 0x5A, flags: 'Z P' } },
+  { name: 'ANA B sets AC', code: [0xA0], setup: { A: 0x54, B: 0x82, flags: 'CY' }, expect: { A: 0x00, flags: 'Z AC P' } },
+  { name: 'ANA H', code: [0xA4], setup: { A: 0xF3, H: 0x3F }, expect: { A: 0x33, flags: 'AC P' } },
+  { name: 'ANI sets AC', code: [0xE6, 0x0F], setup: { A: 0xFF }, expect: { A: 0x0F, flags: 'AC P', tStates: 7 } },
+  { name: 'XRA A clears A', code: [0xAF], setup: { A: 0x77, flags: 'AC CY' }, expect: { A: 0x00, flags: 'Z P' } },
+  { name: 'XRA L', code: [0xAD], setup: { A: 0xF0, L: 0x0F }, expect: { A: 0xFF, flags: 'S P' } },
+  { name: 'ORA D', code: [0xB2], setup: { A: 0x12, D: 0x80, flags: 'AC CY' }, expect: { A: 0x92, flags: 'S' } },
+  { name: 'INR A keeps CY', code: [0x3C], setup: { A: 0xFF, flags: 'CY' }, expect: { A: 0x00, flags: 'Z AC P CY' } },
+  { name: 'DCR B wraps', code: [0x05], setup: { B: 0x00 }, expect: { B: 0xFF, flags: 'S AC P' } },
+  { name: 'DCR B to zero', code: [0x05], setup: { B: 0x01 }, expect: { B: 0x00, flags: 'Z P' } },
+  { name: 'INR M', code: [0x34], setup: { H: 0x30, L: 0x10, memory: { 0x3010: [0x0F] } }, expect: { flags: 'AC', memory: { 0x3010: [0x10] }, tStates: 10 } },
+  { name: 'DAA adjusts both digits', code: [0x27], setup: { A: 0x9B }, expect: { A: 0x01, flags: 'AC CY' } },
+  { name: 'DAA after AC', code: [0x27], setup: { A: 0x15, flags: 'AC' }, expect: { A: 0x1B, flags: 'P' } },
+  { name: 'DAA after CY', code: [0x27], setup: { A: 0x00, flags: 'CY' }, expect: { A: 0x60, flags: 'P CY' } },
+  { name: 'DAA leaves BCD alone', code: [0x27], setup: { A: 0x99 }, expect: { A: 0x99, flags: 'S P' } },
+  { name: 'RLC', code: [0x07], setup: { A: 0xA7 }, expect: { A: 0x4F, flags: 'CY' } },
+  { name: 'RRC', code: [0x0F], setup: { A: 0x81, flags: 'Z' }, expect: { A: 0xC0, flags: 'Z CY' } },
+  { name: 'RAL', code: [0x17], setup: { A: 0x80 }, expect: { A: 0x00, flags: 'CY' } },
+  { name: 'RAR', code: [0x1F], setup: { A: 0x01, flags: 'CY' }, expect: { A: 0x80, flags: 'CY' } },
+  { name: 'CMA', code: [0x2F], setup: { A: 0x51, flags: 'P' }, expect: { A: 0xAE, flags: 'P' } },
+  { name: 'STC', code: [0x37], expect: { flags: 'CY' } },
+  { name: 'CMC', code: [0x3F], setup: { flags: 'S CY' }, expect: { flags: 'S' } },
+  { name: 'DAD H carries', code: [0x29], setup: { H: 0x80, L: 0x00 }, expect: { H: 0x00, L: 0x00, flags: 'CY', tStates: 10 } },
+  { name: 'DAD B keeps other flags', code: [0x09], setup: { H: 0x12, L: 0x34, B: 0x11, C: 0x11, flags: 'S Z' }, expect: { H: 0x23, L: 0x45, flags: 'S Z' } },
+  { name: 'INX wraps', code: [0x13], setup: { D: 0xFF, E: 0xFF }, expect: { D: 0x00, E: 0x00, flags: '', tStates: 6 } },
+  { name: 'PUSH PSW layout', code: [0xF5], setup: { A: 0x12, SP: 0x4000, flags: 'S Z AC P CY' }, expect: { SP: 0x3FFE, memory: { 0x3FFE: [0xD7, 0x12] }, tStates: 12 } },
+  { name: 'POP PSW', code: [0xF1], setup: { SP: 0x4000, memory: { 0x4000: [0xFF, 0x34] } }, expect: { A: 0x34, SP: 0x4002, flags: 'S Z AC P CY' } },
+  { name: 'XTHL', code: [0xE3], setup: { H: 0x0B, L: 0x3C, SP: 0x4000, memory: { 0x4000: [0xF0, 0x0D] } }, expect: { H: 0x0D, L: 0xF0, memory: { 0x4000: [0x3C, 0x0B] }, tStates: 16 } },
+  { name: 'XCHG', code: [0xEB], setup: { D: 0x33, E: 0x55, H: 0x00, L: 0xFF }, expect: { D: 0x00, E: 0xFF, H: 0x33, L: 0x55 } },
+  { name: 'SHLD', code: [0x22, 0x0A, 0x30], setup: { H: 0xAE, L: 0x29 }, expect: { memory: { 0x300A: [0x29, 0xAE] }, tStates: 16 } },
+  { name: 'LDA', code: [0x3A, 0x00, 0x30], setup: { memory: { 0x3000: [0x5C] } }, expect: { A: 0x5C, tStates: 13 } },
+  { name: 'CALL', code: [0xCD, 0x00, 0x30], setup: { SP: 0x4000 }, expect: { PC: 0x3000, SP: 0x3FFE, memory: { 0x3FFE: [0x03, 0x20] }, tStates: 18 } },
+  { name: 'CPE taken', code: [0xEC, 0x00, 0x30], setup: { SP: 0x4000, flags: 'P' }, expect: { PC: 0x3000, SP: 0x3FFE, tStates: 18 } },
+  { name: 'CM not taken', code: [0xFC, 0x00, 0x30], setup: { SP: 0x4000 }, expect: { PC: 0x2003, SP: 0x4000, tStates: 9 } },
+  { name: 'RPO not taken', code: [0xE0], setup: { SP: 0x4000, flags: 'P' }, expect: { PC: 0x2001, SP: 0x4000, tStates: 6 } },
+  { name: 'RP taken', code: [0xF0], setup: { SP: 0x4000, memory: { 0x4000: [0x34, 0x12] } }, expect: { PC: 0x1234, SP: 0x4002, tStates: 12 } },
+  { name: 'JNZ not taken', code: [0xC2, 0x00, 0x30], setup: { flags: 'Z' }, expect: { PC: 0x2003, tStates: 7 } },
+  { name: 'RST 5', code: [0xEF], setup: { SP: 0x4000 }, expect: { PC: 0x0028, SP: 0x3FFE, memory: { 0x3FFE: [0x01, 0x20] }, tStates: 12 } },
+  { name: 'PCHL', code: [0xE9], setup: { H: 0x41, L: 0x3E }, expect: { PC: 0x413E, tStates: 6 } },
+  { name: 'HLT', code: [0x76], expect: { PC: 0x2001, tStates: 5 } },
+];
@@ -0,0 +1,268 @@
+import { describe, expect, it } from 'vitest';
+import { CPU8085 } from './8085';
+import { IODevice } from './bus';
+import { opcodeInfo } from './opcodes';
+import { PPI8255 } from './ppi8255';
+import { PIT8254 } from './pit8254';
+import { SoftwareUart } from './serial';
+
+// A memory-mapped device that serves fixed bytes and counts how often it is read
+const romDevice = (bytes: number[]) => {
+  const device: IODevice & { reads: number } = {
+    name: 'Test ROM',
+    reads: 0,
+    read(offset) {
+      device.reads++;
+      return bytes[offset] ?? 0xFF;
+    },
+    write() {},
+  };
+  return device;
+};
+
+describe('memory-mapped devices', () => {
+  it('fetches instructions from the device, not from memory behind it', () => {
+    const cpu = new CPU8085();
+    const device = romDevice([0x3E, 0x42, 0x76]); // MVI A, 42H; HLT
+    cpu.bus.mapMemory(device, 0x8000, 0x100);
+    cpu.memory.fill(0x00, 0x8000, 0x8100); // NOPs in the RAM array the device hides
+    cpu.registers.PC = 0x8000;
+    cpu.step();
+    cpu.step();
+    expect(cpu.registers.A).toBe(0x42);
+    expect(cpu.halted).toBe(true);
+  });
+
+  it('reads each instruction byte from the device once, history included', () => {
+    const cpu = new CPU8085();
+    const device = romDevice([0x21, 0x34, 0x12]); // LXI H, 1234H
+    cpu.bus.mapMemory(device, 0x8000, 0x100);
+    cpu.registers.PC = 0x8000;
+    cpu.step();
+    expect(device.reads).toBe(3);
+    expect(cpu.getHistory()[0].bytes).toEqual([0x21, 0x34, 0x12]);
+  });
+});
+
+describe('stack tracking', () => {
+  // 2000: LXI SP, 3000H; PUSH B; POP B; PUSH D; CALL 2010H. 2010: HLT
+  const program = () => {
+    const cpu = new CPU8085();
+    cpu.memory.set([0x31, 0x00, 0x30, 0xC5, 0xC1, 0xD5, 0xCD, 0x10, 0x20], 0x2000);
+    cpu.memory[0x2010] = 0x76;
+    cpu.registers.PC = 0x2000;
+    return cpu;
+  };
+
+  it('tags return addresses and pushed registers', () => {
+    const cpu = program();
+    for (let i = 0; i < 5; i++) cpu.step();
+    expect(cpu.stackTags.get(0x2FFE)).toEqual({ kind: 'push', value: 0, pushedBy: 0x2005, register: 'D' });
+    expect(cpu.stackTags.get(0x2FFC)).toEqual({ kind: 'call', value: 0x2009, pushedBy: 0x2006, target: 0x2010 });
+    expect(cpu.stackBounds).toEqual({ base: 0x3000, maxDepth: 4, minDepth: 0 });
+  });
+
+  it('tags from the bytes fetched, not the memory a device hides', () => {
+    const cpu = new CPU8085();
+    cpu.bus.mapMemory(romDevice([0xCD, 0x10, 0x20, 0xD5]), 0x8000, 0x100); // CALL 2010H; PUSH D
+    cpu.memory[0x2010] = 0xC9; // RET
+    cpu.registers.PC = 0x8000;
+    cpu.registers.SP = 0x3000;
+    cpu.step();
+    expect(cpu.stackTags.get(0x2FFE)).toEqual({ kind: 'call', value: 0x8003, pushedBy: 0x8000, target: 0x2010 });
+    cpu.step();
+    cpu.step();
+    expect(cpu.stackTags.get(0x2FFE)).toEqual({ kind: 'push', value: 0, pushedBy: 0x8003, register: 'D' });
+  });
+
+  it('tags a call that overwrites its own bytes with the stack', () => {
+    const cpu = new CPU8085();
+    cpu.memory.set([0xCD, 0x10, 0x20], 0x2FFD); // CALL 2010H, just below the stack
+    cpu.registers.PC = 0x2FFD;
+    cpu.registers.SP = 0x3000;
+    cpu.step();
+    expect(cpu.stackTags.get(0x2FFE)).toEqual({ kind: 'call', value: 0x3000, pushedBy: 0x2FFD, target: 0x2010 });
+  });
+
+  it('undoes tags on step back', () => {
+    const cpu = program();
+    for (let i = 0; i < 5; i++) cpu.step();
+    cpu.stepBack(1);
+    expect(cpu.stackTags.has(0x2FFC)).toBe(false);
+    cpu.stepBack(1);
+    expect(cpu.stackTags.get(0x2FFE)).toMatchObject({ kind: 'push', register: 'B', pushedBy: 0x2003 });
+    cpu.stepBack(2);
+    expect(cpu.stackTags.size).toBe(0);
+    expect(cpu.stackBounds).toEqual({ base: 0x3000, maxDepth: 0, minDepth: 0 });
+  });
+});
+
+describe('step back', () => {
+  it('puts devices back as they were before each instruction', () => {
+    const cpu = new CPU8085();
+    const ppi = new PPI8255();
+    const pit = new PIT8254();
+    const uart = new SoftwareUart();
+    cpu.bus.mapPorts(ppi, 0x00, 4);
+    cpu.bus.mapPorts(pit, 0x10, 4);
+    cpu.serialLine = uart;
+    uart.send('A');
+    // PPI all outputs, 5AH on port A; counter 0 mode 2 from 1010H; RIM; SOD low; NOPs while the timer counts
+    cpu.memory.set([
+      0x3E, 0x80, 0xD3, 0x03, 0x3E, 0x5A, 0xD3, 0x00,
+      0x3E, 0x34, 0xD3, 0x13, 0x3E, 0x10, 0xD3, 0x10, 0xD3, 0x10,
+      0x20, 0x3E, 0x40, 0x30, 0x00, 0x00,
+    ], 0x2000);
+    cpu.registers.PC = 0x2000;
+    const devices = () => ({ ppi: ppi.saveState(), pit: pit.saveState(), uart: uart.saveState() });
+
+    const before = [];
+    for (let i = 0; i < 15; i++) {
+      before.push(devices());
+      cpu.step();
+    }
+    expect(pit.getState()[0].count).not.toBe(0x1010);
+    for (let i = 14; i >= 0; i--) {
+      cpu.stepBack(1);
+      expect(devices()).toEqual(before[i]);
+    }
+  });
+});
+
+describe('T-states', () => {
+  // Runs the instruction at 2000H with every flag set to `flags` and returns the T-states it took
+  const timeOf = (bytes: number[], flags = false) => {
+    const cpu = new CPU8085();
+    cpu.undocumented = true;
+    cpu.memory.set(bytes, 0x2000);
+    cpu.registers.PC = 0x2000;
+    cpu.registers.SP = 0x3000;
+    for (const flag of Object.keys(cpu.flags) as (keyof typeof cpu.flags)[]) cpu.flags[flag] = flags;
+    return cpu.step();
+  };
+
+  // From the 8085 data sheet
+  it.each([
+    ['MOV A, B', 4, [0x78]], ['MOV A, M', 7, [0x7E]], ['MVI M, 00H', 10, [0x36, 0x00]], ['LXI H', 10, [0x21, 0, 0]],
+    ['LDA', 13, [0x3A, 0, 0]], ['LHLD', 16, [0x2A, 0, 0]], ['INR M', 10, [0x34]], ['INX H', 6, [0x23]],
+    ['DAD B', 10, [0x09]], ['ADD M', 7, [0x86]], ['PUSH B', 12, [0xC5]], ['POP B', 10, [0xC1]], ['XTHL', 16, [0xE3]],
+    ['SPHL', 6, [0xF9]], ['CALL', 18, [0xCD, 0, 0]], ['RET', 10, [0xC9]], ['RST 1', 12, [0xCF]], ['PCHL', 6, [0xE9]],
+    ['IN', 10, [0xDB, 0]], ['HLT', 5, [0x76]], ['DSUB', 10, [0x08]], ['LHLX', 10, [0xED]],
+  ] as [string, number, number[]][])('%s takes %i T-states', (_, expected, bytes) => {
+    expect(timeOf(bytes)).toBe(expected);
+  });
+
+  // Taken with every flag clear, not taken with every flag set
+  it.each([
+    ['JNZ', [0xC2, 0, 0], 10, 7], ['CNZ', [0xC4, 0, 0], 18, 9], ['RNZ', [0xC0], 12, 6], ['JNK', [0xDD, 0, 0], 10, 7],
+  ] as [string, number[], number, number][])('%s takes longer when the branch is taken', (_, bytes, taken, notTaken) => {
+    expect(timeOf(bytes, false)).toBe(taken);
+    expect(timeOf(bytes, true)).toBe(notTaken);
+  });
+
+  it('matches the opcode table for every opcode, branch taken or not', () => {
+    for (let opcode = 0; opcode < 256; opcode++) {
+      const info = opcodeInfo(opcode, true)!;
+      // Every flag clear takes one way of a conditional branch and every flag set the other
+      const times = [timeOf([opcode, 0, 0], false), timeOf([opcode, 0, 0], true)].sort((a, b) => a - b);
+      expect(times, `opcode ${opcode.toString(16)}`).toEqual([info.tStates, info.tStatesTaken ?? info.tStates]);
+    }
+  });
+
+  it('adds each instruction to the cycle count', () => {
+    const cpu = new CPU8085();
+    cpu.memory.set([0x3E, 0x01, 0x3D, 0xC2, 0x02, 0x20, 0x76], 0x2000); // MVI A, 1; DCR A; JNZ 2002H; HLT
+    cpu.registers.PC = 0x2000;
+    for (let i = 0; i < 4; i++) cpu.step();
+    expect(cpu.cycles).toBe(7 + 4 + 7 + 5);
+  });
+});
+
+describe('interrupts', () => {
+  // A CPU at 2000H running `bytes`, with NOPs after them
+  const running = (bytes: number[]) => {
+    const cpu = new CPU8085();
+    cpu.memory.set(bytes, 0x2000);
+    cpu.registers.PC = 0x2000;
+    cpu.registers.SP = 0x3000;
+    return cpu;
+  };
+  const returnAddress = (cpu: CPU8085) => cpu.memory[0x2FFE] | (cpu.memory[0x2FFF] << 8);
+  const UNMASK_AND_EI = [0x3E, 0x08, 0x30, 0xFB, 0x00]; // MVI A, 08H; SIM; EI; NOP
+
+  it('accepts TRAP, RST 7.5, 6.5, 5.5 and INTR in that order', () => {
+    const cpu = running(UNMASK_AND_EI);
+    for (let i = 0; i < 4; i++) cpu.step();
+    const vectors = [];
+    for (const line of ['INTR', 'RST5.5', 'RST6.5', 'RST7.5', 'TRAP'] as const) cpu.raiseInterrupt(line, 0xCF);
+    for (let i = 0; i < 5; i++) {
+      cpu.step();
+      vectors.push(cpu.registers.PC);
+      cpu.interrupts.enabled = true; // As if each handler had run EI and returned
+    }
+    expect(vectors).toEqual([0x0024, 0x003C, 0x0034, 0x002C, 0x0008]);
+  });
+
+  it('accepts TRAP with interrupts disabled, and nothing else', () => {
+    const cpu = running([0x00, 0x00]);
+    cpu.raiseInterrupt('RST7.5');
+    cpu.step();
+    expect(cpu.registers.PC).toBe(0x2001);
+    cpu.raiseInterrupt('TRAP');
+    cpu.step();
+    expect(cpu.registers.PC).toBe(0x0024);
+    expect(returnAddress(cpu)).toBe(0x2001);
+  });
+
+  it('holds masked lines off until SIM unmasks them, still showing them pending in RIM', () => {
+    const cpu = running([0x3E, 0x0B, 0x30, 0xFB, 0x00, 0x20, 0x3E, 0x08, 0x30, 0x00]); // Mask 5.5 and 6.5; EI; NOP; RIM; unmask
+    cpu.raiseInterrupt('RST5.5');
+    for (let i = 0; i < 5; i++) cpu.step();
+    expect(cpu.registers.A).toBe(0x10 | 0x08 | 0x03); // 5.5 pending, interrupts enabled, 5.5 and 6.5 masked
+    cpu.step(); // MVI A, 08H
+    cpu.step(); // SIM
+    cpu.step();
+    expect(cpu.registers.PC).toBe(0x002C);
+  });
+
+  it('clears a latched RST 7.5 when SIM sets R7.5', () => {
+    const cpu = running([0x3E, 0x18, 0x30, 0xFB, 0x00, 0x00]); // MVI A, 18H; SIM; EI; NOP
+    cpu.raiseInterrupt('RST7.5');
+    for (let i = 0; i < 5; i++) cpu.step();
+    expect(cpu.registers.PC).toBe(0x2006);
+  });
+
+  it('waits one instruction after EI before accepting an interrupt', () => {
+    const cpu = running(UNMASK_AND_EI);
+    cpu.step();
+    cpu.step();
+    cpu.raiseInterrupt('RST6.5');
+    cpu.step(); // EI
+    expect(cpu.registers.PC).toBe(0x2004);
+    cpu.step(); // NOP runs first
+    expect(cpu.registers.PC).toBe(0x2005);
+    cpu.step();
+    expect(cpu.registers.PC).toBe(0x0034);
+    expect(returnAddress(cpu)).toBe(0x2005);
+    expect(cpu.interrupts.enabled).toBe(false);
+  });
+
+  it('takes the RST opcode for INTR from the bus', () => {
+    const cpu = running(UNMASK_AND_EI);
+    for (let i = 0; i < 4; i++) cpu.step();
+    cpu.raiseInterrupt('INTR', 0xEF); // RST 5
+    cpu.step();
+    expect(cpu.registers.PC).toBe(0x0028);
+  });
+
+  it('wakes from HLT on an interrupt and returns past the HLT', () => {
+    const cpu = running([...UNMASK_AND_EI, 0x76]);
+    for (let i = 0; i < 5; i++) cpu.step();
+    expect(cpu.halted).toBe(true);
+    cpu.raiseInterrupt('RST5.5');
+    cpu.step();
+    expect(cpu.halted).toBe(false);
+    expect(cpu.registers.PC).toBe(0x002C);
+    expect(returnAddress(cpu)).toBe(0x2006);
+  });
+});
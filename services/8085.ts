@@ -1,23 +1,68 @@
 
-import { Registers, Flags, CPUState } from '../types';
+import { Registers, Flags, CPUState, MemoryAccessListener, HistoryEntry, CPUSnapshot, InterruptLine, InterruptState, MemoryFault, DaaMode, StackTag, StackBounds } from '../types';
+import { opcodeInfo } from './opcodes';
+import { SerialLine } from './serial';
+import { IODevice, IOBus } from './bus';
+import { MemoryMap } from './memoryMap';
+import { stackDepth } from './stackInspector';
+
+const HALT_IDLE_TSTATES = 4; // Clock states consumed per step while halted and waiting for an interrupt
+
+// RESET clears IE and masks RST 7.5/6.5/5.5
+const initialInterruptState = (): InterruptState => ({
+  enabled: false, enablePending: false, masks: 0x07, rst75Latch: false, trapLatch: false, requested: [], intrOpcode: 0xFF,
+});
+
+const PUSH_REGISTERS: Record<number, StackTag['register']> = { 0xC5: 'B', 0xD5: 'D', 0xE5: 'H', 0xF5: 'PSW' };
 
 export class CPU8085 {
   public registers: Registers;
   public flags: Flags;
   public memory: Uint8Array;
   public halted: boolean;
-  public ioPorts: Uint8Array; // 256 I/O ports
+  public ioPorts: Uint8Array; // 256 I/O ports: last value written, and the read value of ports with no device
+  public bus = new IOBus(); // Port-mapped and memory-mapped devices
+  public memoryMap = new MemoryMap([{ start: 0x0000, end: 0xFFFF, kind: 'ram' }]);
+  public fault: MemoryFault | null = null; // First bad memory access of the last step
+  public unknownOpcode: { opcode: number; address: number } | null = null; // Set when the last step halted on one
+  private stepAddress = 0;
+  private fetchedBytes: number[] | null = null; // Collects the instruction's bytes for history as they are fetched
+  private stepOpcode = 0;  // Opcode of the instruction being run, as fetched
+  private stepOperand = 0; // Its last word operand, as fetched
+  private memoryListeners: MemoryAccessListener[] = [];
+  public cycles = 0; // Total T-states executed since reset
+  public clockHz = 3_072_000; // Used to convert T-states to elapsed time
+  public historyLimit = 1000; // Instructions kept for step back; 0 disables recording
+  public undocumented = false; // Run the undocumented opcodes and show V and K in the PSW; off, they halt as unknown
+  public daaMode: DaaMode = 'silicon';
+  public lastSubtract = false; // The last 8-bit arithmetic was a subtraction; only subtract-aware DAA reads it
+  private history: HistoryEntry[] = [];
+  private currentEntry: HistoryEntry | null = null;
+  public interrupts: InterruptState = initialInterruptState();
+  public sod = false; // Serial output latch, written by SIM when SDE is set
+  public serialLine: SerialLine | null = null; // Device on the SID/SOD pins
+  private interruptLines: Record<InterruptLine, boolean> = { 'TRAP': false, 'RST7.5': false, 'RST6.5': false, 'RST5.5': false, 'INTR': false };
+  public stackTags = new Map<number, StackTag>(); // What pushed each stack word, for the stack inspector
+  public stackBounds: StackBounds = { base: 0xFFFE, maxDepth: 0, minDepth: 0 };
 
-  constructor() {
-    this.memory = new Uint8Array(65536); // 64KB
+  // `memory` may be a view of a SharedArrayBuffer, so another thread sees the same 64KB
+  constructor(memory: Uint8Array = new Uint8Array(65536)) {
+    this.memory = memory;
     this.ioPorts = new Uint8Array(256);
     this.reset();
   }
 
   public reset(): void {
     this.registers = { A: 0, B: 0, C: 0, D: 0, E: 0, H: 0, L: 0, SP: 0xFFFE, PC: 0x0000 };
-    this.flags = { S: false, Z: true, AC: false, P: true, CY: false }; // Initial Z=1, P=1 for 0
+    this.flags = { S: false, Z: true, AC: false, P: true, CY: false, V: false, K: false }; // Initial Z=1, P=1 for 0
     this.halted = false;
+    this.cycles = 0;
+    this.history = [];
+    this.bus.reset(); // Before clearing interrupts, so edges from devices resetting are not latched
+    this.interrupts = initialInterruptState();
+    this.sod = false;
+    this.lastSubtract = false;
+    this.resetStackTracking();
     // Optionally clear memory or part of it. For now, it persists.
     // this.memory.fill(0); 
   }
@@ -29,15 +74,133 @@ export class CPU8085 {
         memory: this.memory, // Return reference for performance in UI, ensure UI doesn't mutate directly
         halted: this.halted,
         ioPorts: this.ioPorts,
+        cycles: this.cycles,
+        clockHz: this.clockHz,
+        interrupts: { ...this.interrupts, requested: [...this.interrupts.requested] },
+        sod: this.sod,
+        pendingInterrupts: (['TRAP', 'RST7.5', 'RST6.5', 'RST5.5', 'INTR'] as InterruptLine[]).filter(line => this.isAsserted(line)),
+        undocumented: this.undocumented,
+        daaMode: this.daaMode,
+        stackTags: new Map(this.stackTags),
+        stackBounds: { ...this.stackBounds },
+    };
+  }
+
+  /** Forgets what pushed each stack word and takes the current SP as the stack base. */
+  public resetStackTracking(): void {
+    this.stackTags.clear();
+    this.stackBounds = { base: this.registers.SP, maxDepth: 0, minDepth: 0 };
+  }
+
+  // Observers of data reads/writes (debugger watchpoints). Opcode and operand fetches are not reported.
+  public addMemoryListener(listener: MemoryAccessListener): () => void {
+    this.memoryListeners.push(listener);
+    return () => {
+      this.memoryListeners = this.memoryListeners.filter(l => l !== listener);
     };
   }
 
   private readByte(address: number): number {
-    return this.memory[address & 0xFFFF];
+    address &= 0xFFFF;
+    const mapped = this.bus.findMemory(address);
+    let value: number;
+    if (mapped) {
+      this.recordDevice(mapped.device);
+      value = mapped.device.read(address - mapped.start) & 0xFF;
+    } else if (this.isDecoded(address)) {
+      value = this.memory[address];
+    } else {
+      value = 0xFF; // Nothing drives the data bus
+      this.raiseFault('unmapped-read', address, value);
+    }
+    this.memoryListeners.forEach(l => l({ type: 'read', address, value }));
+    return value;
   }
 
   public writeByte(address: number, value: number): void {
-    this.memory[address & 0xFFFF] = value & 0xFF;
+    address &= 0xFFFF;
+    value &= 0xFF;
+    const mapped = this.bus.findMemory(address);
+    const kind = mapped ? 'mmio' : this.memoryMap.kindAt(address);
+    if (mapped) {
+      this.recordDevice(mapped.device);
+      mapped.device.write(address - mapped.start, value);
+    } else if (kind === 'ram') {
+      if (this.currentEntry) {
+        this.currentEntry.memoryWrites.push({ address, oldValue: this.memory[address], newValue: value });
+      }
+      this.memory[address] = value;
+    } else {
+      this.raiseFault(kind === 'rom' ? 'rom-write' : 'unmapped-write', address, value);
+    }
+    this.memoryListeners.forEach(l => l({ type: 'write', address, value }));
+  }
+
+  private readPort(port: number): number {
+    const mapped = this.bus.findPort(port);
+    if (!mapped) return this.ioPorts[port];
+    this.recordDevice(mapped.device);
+    return mapped.device.read(port - mapped.start) & 0xFF;
+  }
+
+  private writePort(port: number, value: number): void {
+    if (this.currentEntry) {
+      this.currentEntry.portWrites.push({ address: port, oldValue: this.ioPorts[port], newValue: value & 0xFF });
+    }
+    this.ioPorts[port] = value & 0xFF;
+    const mapped = this.bus.findPort(port);
+    if (mapped) {
+      this.recordDevice(mapped.device);
+      mapped.device.write(port - mapped.start, value & 0xFF);
+    }
+  }
+
+  // Keeps what a device held before this instruction first used it, so step back can put it back
+  private recordDevice(device: IODevice | SerialLine): void {
+    const entry = this.currentEntry;
+    if (!entry || !device.saveState || entry.deviceStates.some(change => change.device === device)) return;
+    entry.deviceStates.push({ device, state: device.saveState() });
+  }
+
+  // Opcode and operand fetches read the same way data reads do, but are not reported to memory listeners
+  private fetchByte(address: number): number {
+    address &= 0xFFFF;
+    const mapped = this.bus.findMemory(address);
+    let value: number;
+    if (mapped) {
+      this.recordDevice(mapped.device);
+      value = mapped.device.read(address - mapped.start) & 0xFF;
+    } else if (this.isDecoded(address)) {
+      value = this.memory[address];
+    } else {
+      this.raiseFault('unmapped-fetch', address, 0xFF);
+      value = 0xFF; // RST 7, as on a floating bus
+    }
+    this.fetchedBytes?.push(value);
+    return value;
+  }
+
+  // ROM and RAM answer reads; an MMIO region only does through a device on the bus
+  private isDecoded(address: number): boolean {
+    const kind = this.memoryMap.kindAt(address);
+    return kind === 'ram' || kind === 'rom';
+  }
+
+  private raiseFault(type: MemoryFault['type'], address: number, value: number): void {
+    if (!this.fault) this.fault = { type, address, value, pc: this.stepAddress };
+  }
+
+  // Low byte first, as the bus cycles run
+  private fetchWord(address: number): number {
+    const low = this.fetchByte(address);
+    this.stepOperand = (this.fetchByte(address + 1) << 8) | low;
+    return this.stepOperand;
+  }
+
+  public loadBytes(address: number, bytes: ArrayLike<number>): void {
+    for (let i = 0; i < bytes.length; i++) {
+      this.writeByte(address + i, bytes[i]);
+    }
   }
 
   private readWord(address: number): number {
@@ -98,6 +261,8 @@ export class CPU8085 {
     this.flags.CY = unmaskedResult > 0xFF;
     this.flags.AC = (((val1 & 0x0F) + (val2 & 0x0F) + c) & 0x10) !== 0;
     this.updateZSPFlags(result);
+    this.updateVKFlags(((val1 ^ result) & (val2 ^ result) & 0x80) !== 0);
+    this.lastSubtract = false;
     return result;
   }
   
@@ -112,9 +277,49 @@ export class CPU8085 {
      // AC: borrow from bit 4 to bit 3
     this.flags.AC = (((val1 & 0x0F) - (val2 & 0x0F) - b) & 0x10) !== 0; // Check if this is standard way
     this.updateZSPFlags(result);
+    this.updateVKFlags(((val1 ^ val2) & (val1 ^ result) & 0x80) !== 0);
+    this.lastSubtract = true;
     return result;
   }
 
+  // Undocumented flags after arithmetic: V is signed overflow, K is S XOR V (signed "less than" after a compare)
+  private updateVKFlags(overflow: boolean): void {
+    this.flags.V = overflow;
+    this.flags.K = this.flags.S !== overflow;
+  }
+
+  // INX/DCX: K (the UI flag) records the pair wrapping past FFFF or 0000, for JNK loop counters
+  private stepPair(value: number, delta: 1 | -1): number {
+    const result = (value + delta) & 0xFFFF;
+    this.flags.K = result === (delta > 0 ? 0x0000 : 0xFFFF);
+    return result;
+  }
+
+  // Logical ops clear CY and V; the 8085 sets AC after AND and clears it after OR/XOR
+  private ana(value: number): void {
+    this.registers.A &= value;
+    this.updateZSPFlags(this.registers.A);
+    this.flags.CY = false;
+    this.flags.AC = true;
+    this.flags.V = false;
+  }
+
+  private xra(value: number): void {
+    this.registers.A = (this.registers.A ^ value) & 0xFF;
+    this.updateZSPFlags(this.registers.A);
+    this.flags.CY = false;
+    this.flags.AC = false;
+    this.flags.V = false;
+  }
+
+  private ora(value: number): void {
+    this.registers.A = (this.registers.A | value) & 0xFF;
+    this.updateZSPFlags(this.registers.A);
+    this.flags.CY = false;
+    this.flags.AC = false;
+    this.flags.V = false;
+  }
+
   private dad(val: number): void {
     const hl = this.getHL();
     const result = hl + val;
@@ -122,11 +327,43 @@ export class CPU8085 {
     this.setHL(result & 0xFFFF);
   }
 
-  private pushWord(value: number): void {
+  // `interruptVector` is set when an interrupt is being accepted rather than an instruction run
+  private pushWord(value: number, interruptVector?: number): void {
     this.registers.SP = (this.registers.SP - 1) & 0xFFFF;
     this.writeByte(this.registers.SP, (value >> 8) & 0xFF); // High byte
     this.registers.SP = (this.registers.SP - 1) & 0xFFFF;
     this.writeByte(this.registers.SP, value & 0xFF); // Low byte
+    if (this.currentEntry) {
+      this.currentEntry.stackTagChanges.push({ address: this.registers.SP, oldTag: this.stackTags.get(this.registers.SP) });
+    }
+    this.stackTags.set(this.registers.SP, this.stackTag(value, interruptVector));
+  }
+
+  // Works out what is pushing from the instruction being run. Its bytes come from the fetch, not
+  // from memory, which a device may hide or the instruction itself may have overwritten.
+  private stackTag(value: number, interruptVector?: number): StackTag {
+    const pushedBy = this.stepAddress;
+    if (interruptVector !== undefined) return { kind: 'interrupt', value, pushedBy, target: interruptVector };
+    const opcode = this.stepOpcode;
+    const register = PUSH_REGISTERS[opcode];
+    if (register) return { kind: 'push', value, pushedBy, register };
+    let target: number;
+    if (opcode === 0xCB) target = 0x0040; // RSTV
+    else if ((opcode & 0xC7) === 0xC7) target = opcode & 0x38; // RST n
+    else target = this.stepOperand; // CALL, Ccond
+    return { kind: 'call', value, pushedBy, target };
+  }
+
+  // Follows SP after each step. LXI SP and SPHL start a new stack, so its depth is measured from there.
+  private trackStackDepth(opcode: number | null): void {
+    const sp = this.registers.SP;
+    if (opcode === 0x31 || opcode === 0xF9) {
+      this.stackBounds = { base: sp, maxDepth: 0, minDepth: 0 };
+      return;
+    }
+    const depth = stackDepth(this.stackBounds.base, sp);
+    if (depth > this.stackBounds.maxDepth) this.stackBounds.maxDepth = depth;
+    if (depth < this.stackBounds.minDepth) this.stackBounds.minDepth = depth;
   }
 
   private popWord(): number {
@@ -145,9 +382,14 @@ export class CPU8085 {
     if (this.flags.AC) pswFlags |= 0x10;
     // Bit 3 is always 0
     if (this.flags.P) pswFlags |= 0x04;
-    // Bit 1 is always 1
-    pswFlags |= 0x02;
     if (this.flags.CY) pswFlags |= 0x01;
+    if (this.undocumented) {
+      // The silicon keeps K in bit 5 and V in bit 1
+      if (this.flags.K) pswFlags |= 0x20;
+      if (this.flags.V) pswFlags |= 0x02;
+    } else {
+      pswFlags |= 0x02; // Documented as always 1
+    }
     return (this.registers.A << 8) | pswFlags;
   }
 
@@ -159,19 +401,286 @@ export class CPU8085 {
     this.flags.AC = (pswFlags & 0x10) !== 0;
     this.flags.P  = (pswFlags & 0x04) !== 0;
     this.flags.CY = (pswFlags & 0x01) !== 0;
+    if (this.undocumented) {
+      this.flags.K = (pswFlags & 0x20) !== 0;
+      this.flags.V = (pswFlags & 0x02) !== 0;
+    }
+  }
+
+
+  // Condition codes in bits 3-5 of Jcc/Ccc/Rcc opcodes: NZ, Z, NC, C, PO, PE, P, M
+  private testCondition(code: number): boolean {
+    switch (code & 0x07) {
+      case 0: return !this.flags.Z;
+      case 1: return this.flags.Z;
+      case 2: return !this.flags.CY;
+      case 3: return this.flags.CY;
+      case 4: return !this.flags.P;
+      case 5: return this.flags.P;
+      case 6: return !this.flags.S;
+      default: return this.flags.S;
+    }
+  }
+
+  // Whether a conditional branch is taken; RSTV, JNK and JK test the undocumented flags
+  private branchTaken(opcode: number): boolean {
+    switch (opcode) {
+      case 0xCB: return this.flags.V;  // RSTV
+      case 0xDD: return !this.flags.K; // JNK
+      case 0xFD: return this.flags.K;  // JK
+      default: return this.testCondition(opcode >> 3);
+    }
+  }
+
+  // --- Interrupts ---
+
+  /** Drives an interrupt pin from a device. RST 7.5 and TRAP latch on the rising edge. */
+  public setInterruptLine(line: InterruptLine, level: boolean): void {
+    const wasHigh = this.interruptLines[line];
+    this.interruptLines[line] = level;
+    if (level && !wasHigh) {
+      if (line === 'RST7.5') this.interrupts.rst75Latch = true;
+      if (line === 'TRAP') this.interrupts.trapLatch = true;
+    }
+  }
+
+  /** Raises a line until the CPU acknowledges it. For INTR, `opcode` is the RST placed on the bus. */
+  public raiseInterrupt(line: InterruptLine, opcode: number = 0xFF): void {
+    if (line === 'RST7.5') this.interrupts.rst75Latch = true;
+    else if (line === 'TRAP') this.interrupts.trapLatch = true;
+    else if (!this.interrupts.requested.includes(line)) this.interrupts.requested = [...this.interrupts.requested, line];
+    if (line === 'INTR') this.interrupts.intrOpcode = opcode & 0xFF;
+  }
+
+  /** Levels on the interrupt pins, as last driven by devices. */
+  public getInterruptLines(): Record<InterruptLine, boolean> {
+    return { ...this.interruptLines };
+  }
+
+  private isAsserted(line: InterruptLine): boolean {
+    if (line === 'TRAP') return this.interrupts.trapLatch;
+    if (line === 'RST7.5') return this.interrupts.rst75Latch;
+    return this.interruptLines[line] || this.interrupts.requested.includes(line);
+  }
+
+  // Highest-priority interrupt that would be accepted right now, if any
+  private nextInterrupt(): InterruptLine | null {
+    if (this.isAsserted('TRAP')) return 'TRAP';
+    if (!this.interrupts.enabled) return null;
+    const { masks } = this.interrupts;
+    if (this.isAsserted('RST7.5') && !(masks & 0x04)) return 'RST7.5';
+    if (this.isAsserted('RST6.5') && !(masks & 0x02)) return 'RST6.5';
+    if (this.isAsserted('RST5.5') && !(masks & 0x01)) return 'RST5.5';
+    if (this.isAsserted('INTR')) return 'INTR';
+    return null;
+  }
+
+  public hasPendingInterrupt(): boolean {
+    return this.nextInterrupt() !== null;
   }
 
+  // A halted CPU only leaves HLT through an interrupt
+  public canWakeFromHalt(): boolean {
+    return this.interrupts.enabled || this.interrupts.enablePending || this.interrupts.trapLatch;
+  }
+
+  private acknowledgeInterrupt(line: InterruptLine): number {
+    let vector: number;
+    switch (line) {
+      case 'TRAP': vector = 0x0024; this.interrupts.trapLatch = false; break;
+      case 'RST7.5': vector = 0x003C; this.interrupts.rst75Latch = false; break;
+      case 'RST6.5': vector = 0x0034; break;
+      case 'RST5.5': vector = 0x002C; break;
+      default:
+        // Only RST opcodes are accepted from the INTA cycle
+        vector = (this.interrupts.intrOpcode & 0xC7) === 0xC7 ? this.interrupts.intrOpcode & 0x38 : 0x0038;
+        break;
+    }
+    this.interrupts.requested = this.interrupts.requested.filter(l => l !== line);
+    this.interrupts.enabled = false;
+    this.interrupts.enablePending = false;
+    this.halted = false;
+    this.pushWord(this.registers.PC, vector);
+    this.registers.PC = vector;
+    return 12;
+  }
+
+  private rim(): number {
+    const { enabled, masks } = this.interrupts;
+    if (this.serialLine) this.recordDevice(this.serialLine);
+    const sid = this.serialLine ? this.serialLine.readSID(this.cycles) : false;
+    return (sid ? 0x80 : 0) |
+      (this.isAsserted('RST7.5') ? 0x40 : 0) |
+      (this.isAsserted('RST6.5') ? 0x20 : 0) |
+      (this.isAsserted('RST5.5') ? 0x10 : 0) |
+      (enabled ? 0x08 : 0) |
+      (masks & 0x07);
+  }
+
+  private sim(value: number): void {
+    if (value & 0x08) this.interrupts.masks = value & 0x07; // MSE: mask set enable
+    if (value & 0x10) this.interrupts.rst75Latch = false;   // R7.5: reset the 7.5 latch
+    if (value & 0x40) {                                     // SDE: latch bit 7 onto SOD
+      this.sod = (value & 0x80) !== 0;
+      if (this.serialLine) this.recordDevice(this.serialLine);
+      this.serialLine?.writeSOD(this.sod, this.cycles);
+    }
+  }
 
-  public step(): void {
-    if (this.halted) return;
+  /** Executes one instruction (or accepts an interrupt) and returns the T-states it took. */
+  public step(): number {
+    this.fault = null;
+    this.unknownOpcode = null;
+    this.stepAddress = this.registers.PC;
+    const pendingInterrupt = this.nextInterrupt();
+    if (pendingInterrupt) {
+      const entry = this.historyLimit > 0 ? this.beginHistoryEntry(this.registers.PC, [], pendingInterrupt) : null;
+      const tStates = this.acknowledgeInterrupt(pendingInterrupt);
+      this.trackStackDepth(null);
+      this.advance(tStates);
+      if (entry) this.endHistoryEntry(entry);
+      return tStates;
+    }
+    if (this.halted) {
+      if (!this.canWakeFromHalt()) return 0;
+      // Idle in HLT so time keeps passing while waiting for an interrupt
+      this.advance(HALT_IDLE_TSTATES);
+      return HALT_IDLE_TSTATES;
+    }
 
-    const opcode = this.readByte(this.registers.PC);
+    const enableAfterThis = this.interrupts.enablePending;
+    // Reading the bytes again for history would read a device twice
+    this.fetchedBytes = this.historyLimit > 0 ? [] : null;
+    const opcode = this.fetchByte(this.registers.PC);
+    this.stepOpcode = opcode;
     this.registers.PC = (this.registers.PC + 1) & 0xFFFF;
     
     // For debugging
     // console.log(`PC: ${toHexString(this.registers.PC-1, 4)}, Opcode: ${toHexString(opcode, 2)}`);
 
+    // Branch conditions depend only on flags, so decide timing before executing
+    const info = opcodeInfo(opcode, this.undocumented);
+    let tStates = info ? info.tStates : 4;
+    if (info?.tStatesTaken !== undefined && this.branchTaken(opcode)) tStates = info.tStatesTaken;
+
+    // The operands are added to the entry's bytes as the instruction fetches them
+    const entry = this.fetchedBytes ? this.beginHistoryEntry((this.registers.PC - 1) & 0xFFFF, this.fetchedBytes) : null;
     this.executeInstruction(opcode);
+    this.fetchedBytes = null;
+    this.trackStackDepth(opcode);
+    // EI enables interrupts only once the instruction after it has run
+    if (enableAfterThis && this.interrupts.enablePending) {
+      this.interrupts.enabled = true;
+      this.interrupts.enablePending = false;
+    }
+    this.advance(tStates);
+    if (entry) this.endHistoryEntry(entry);
+    return tStates;
+  }
+
+  // Moves the clock forward and lets clocked devices catch up
+  private advance(tStates: number): void {
+    this.cycles += tStates;
+    this.tickDevices();
+  }
+
+  /** Brings clocked devices up to the current cycle count, e.g. after `cycles` was set from elsewhere. */
+  public tickDevices(): void {
+    if (this.currentEntry) {
+      if (this.serialLine) this.recordDevice(this.serialLine);
+      this.bus.clockedDevices.forEach(device => this.recordDevice(device));
+    }
+    this.serialLine?.tick(this.cycles);
+    this.bus.tick(this.cycles);
+  }
+
+  private snapshot(): CPUSnapshot {
+    return {
+      registers: { ...this.registers },
+      flags: { ...this.flags },
+      halted: this.halted,
+      cycles: this.cycles,
+      interrupts: { ...this.interrupts, requested: [...this.interrupts.requested] },
+      sod: this.sod,
+      lastSubtract: this.lastSubtract,
+      stackBounds: { ...this.stackBounds },
+    };
+  }
+
+  private beginHistoryEntry(address: number, bytes: number[], note?: string): HistoryEntry {
+    const before = this.snapshot();
+    before.registers.PC = address;
+    const entry: HistoryEntry = {
+      address,
+      bytes,
+      note,
+      before,
+      after: before,
+      memoryWrites: [],
+      portWrites: [],
+      stackTagChanges: [],
+      deviceStates: [],
+    };
+    this.currentEntry = entry;
+    return entry;
+  }
+
+  private endHistoryEntry(entry: HistoryEntry): void {
+    this.currentEntry = null;
+    entry.after = this.snapshot();
+    this.history.push(entry);
+    // Trim in batches so recording stays cheap per instruction
+    if (this.history.length > this.historyLimit * 2) {
+      this.history.splice(0, this.history.length - this.historyLimit);
+    }
+  }
+
+  public getHistory(): HistoryEntry[] {
+    return this.history.slice(-this.historyLimit);
+  }
+
+  public clearHistory(): void {
+    this.history = [];
+  }
+
+  /** Adds instructions executed elsewhere (by the CPU worker) to the step-back history. */
+  public appendHistory(entries: HistoryEntry[]): void {
+    if (this.historyLimit === 0) return;
+    this.history.push(...entries.slice(-this.historyLimit));
+    if (this.history.length > this.historyLimit * 2) {
+      this.history.splice(0, this.history.length - this.historyLimit);
+    }
+  }
+
+  /** Undoes up to `count` executed instructions. Returns how many were undone. */
+  public stepBack(count: number = 1): number {
+    let undone = 0;
+    while (undone < count && this.history.length > 0) {
+      const entry = this.history.pop()!;
+      for (let i = entry.portWrites.length - 1; i >= 0; i--) {
+        this.ioPorts[entry.portWrites[i].address] = entry.portWrites[i].oldValue;
+      }
+      for (let i = entry.memoryWrites.length - 1; i >= 0; i--) {
+        this.memory[entry.memoryWrites[i].address] = entry.memoryWrites[i].oldValue;
+      }
+      for (let i = entry.stackTagChanges.length - 1; i >= 0; i--) {
+        const { address, oldTag } = entry.stackTagChanges[i];
+        if (oldTag) this.stackTags.set(address, oldTag);
+        else this.stackTags.delete(address);
+      }
+      // Before the interrupt state: devices that drive interrupt lines report their restored levels
+      entry.deviceStates.forEach(({ device, state }) => device.restoreState?.(state));
+      this.registers = { ...entry.before.registers };
+      this.flags = { ...entry.before.flags };
+      this.halted = entry.before.halted;
+      this.cycles = entry.before.cycles;
+      this.interrupts = { ...entry.before.interrupts, requested: [...entry.before.interrupts.requested] };
+      this.sod = entry.before.sod;
+      this.lastSubtract = entry.before.lastSubtract;
+      this.stackBounds = { ...entry.before.stackBounds };
+      undone++;
+    }
+    return undone;
   }
 
   private executeInstruction(opcode: number): void {
@@ -184,24 +693,24 @@ export class CPU8085 {
       case 0x00: break;
 
       // LXI
-      case 0x01: tempVal = this.readWord(this.registers.PC); this.setBC(tempVal); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // LXI B, D16
-      case 0x11: tempVal = this.readWord(this.registers.PC); this.setDE(tempVal); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // LXI D, D16
-      case 0x21: tempVal = this.readWord(this.registers.PC); this.setHL(tempVal); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // LXI H, D16
-      case 0x31: this.registers.SP = this.readWord(this.registers.PC); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // LXI SP, D16
+      case 0x01: tempVal = this.fetchWord(this.registers.PC); this.setBC(tempVal); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // LXI B, D16
+      case 0x11: tempVal = this.fetchWord(this.registers.PC); this.setDE(tempVal); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // LXI D, D16
+      case 0x21: tempVal = this.fetchWord(this.registers.PC); this.setHL(tempVal); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // LXI H, D16
+      case 0x31: this.registers.SP = this.fetchWord(this.registers.PC); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // LXI SP, D16
 
       // STA, LDA
-      case 0x32: tempAddr = this.readWord(this.registers.PC); this.writeByte(tempAddr, this.registers.A); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // STA addr
-      case 0x3A: tempAddr = this.readWord(this.registers.PC); this.registers.A = this.readByte(tempAddr); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // LDA addr
+      case 0x32: tempAddr = this.fetchWord(this.registers.PC); this.writeByte(tempAddr, this.registers.A); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // STA addr
+      case 0x3A: tempAddr = this.fetchWord(this.registers.PC); this.registers.A = this.readByte(tempAddr); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // LDA addr
       
       // MVI R, D8
-      case 0x06: this.registers.B = this.readByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
-      case 0x0E: this.registers.C = this.readByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
-      case 0x16: this.registers.D = this.readByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
-      case 0x1E: this.registers.E = this.readByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
-      case 0x26: this.registers.H = this.readByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
-      case 0x2E: this.registers.L = this.readByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
-      case 0x36: this.writeByte(this.getHL(), this.readByte(this.registers.PC)); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break; // MVI M, D8
-      case 0x3E: this.registers.A = this.readByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0x06: this.registers.B = this.fetchByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0x0E: this.registers.C = this.fetchByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0x16: this.registers.D = this.fetchByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0x1E: this.registers.E = this.fetchByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0x26: this.registers.H = this.fetchByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0x2E: this.registers.L = this.fetchByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0x36: this.writeByte(this.getHL(), this.fetchByte(this.registers.PC)); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break; // MVI M, D8
+      case 0x3E: this.registers.A = this.fetchByte(this.registers.PC); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
 
       // MOV R, R'
       // ... many MOV R,R' combinations (Generated for brevity)
@@ -346,32 +855,36 @@ export class CPU8085 {
       case 0x3D: { const oldCY = this.flags.CY; this.registers.A = this.sub8bit(this.registers.A, 1); this.flags.CY = oldCY; break; } // DCR A
 
       // ADI D8
-      case 0xC6: tempVal = this.readByte(this.registers.PC); this.registers.A = this.add8bit(this.registers.A, tempVal); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0xC6: tempVal = this.fetchByte(this.registers.PC); this.registers.A = this.add8bit(this.registers.A, tempVal); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
       // ACI D8
-      case 0xCE: tempVal = this.readByte(this.registers.PC); this.registers.A = this.add8bit(this.registers.A, tempVal, this.flags.CY); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0xCE: tempVal = this.fetchByte(this.registers.PC); this.registers.A = this.add8bit(this.registers.A, tempVal, this.flags.CY); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
       // SUI D8
-      case 0xD6: tempVal = this.readByte(this.registers.PC); this.registers.A = this.sub8bit(this.registers.A, tempVal); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0xD6: tempVal = this.fetchByte(this.registers.PC); this.registers.A = this.sub8bit(this.registers.A, tempVal); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
       // SBI D8
-      case 0xDE: tempVal = this.readByte(this.registers.PC); this.registers.A = this.sub8bit(this.registers.A, tempVal, this.flags.CY); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0xDE: tempVal = this.fetchByte(this.registers.PC); this.registers.A = this.sub8bit(this.registers.A, tempVal, this.flags.CY); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
       
       // JMP, Jcond
-      case 0xC3: this.registers.PC = this.readWord(this.registers.PC); break; // JMP addr
-      case 0xC2: condition = !this.flags.Z; tempAddr = this.readWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JNZ addr
-      case 0xCA: condition = this.flags.Z; tempAddr = this.readWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JZ addr
-      case 0xD2: condition = !this.flags.CY; tempAddr = this.readWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JNC addr
-      case 0xDA: condition = this.flags.CY; tempAddr = this.readWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JC addr
-      case 0xE2: condition = !this.flags.P; tempAddr = this.readWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JPO addr (Parity Odd)
-      case 0xEA: condition = this.flags.P; tempAddr = this.readWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JPE addr (Parity Even)
-      case 0xF2: condition = !this.flags.S; tempAddr = this.readWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JP addr (Plus, Sign false)
-      case 0xFA: condition = this.flags.S; tempAddr = this.readWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JM addr (Minus, Sign true)
+      case 0xC3: this.registers.PC = this.fetchWord(this.registers.PC); break; // JMP addr
+      case 0xC2: condition = !this.flags.Z; tempAddr = this.fetchWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JNZ addr
+      case 0xCA: condition = this.flags.Z; tempAddr = this.fetchWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JZ addr
+      case 0xD2: condition = !this.flags.CY; tempAddr = this.fetchWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JNC addr
+      case 0xDA: condition = this.flags.CY; tempAddr = this.fetchWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JC addr
+      case 0xE2: condition = !this.flags.P; tempAddr = this.fetchWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JPO addr (Parity Odd)
+      case 0xEA: condition = this.flags.P; tempAddr = this.fetchWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JPE addr (Parity Even)
+      case 0xF2: condition = !this.flags.S; tempAddr = this.fetchWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JP addr (Plus, Sign false)
+      case 0xFA: condition = this.flags.S; tempAddr = this.fetchWord(this.registers.PC); if (condition) this.registers.PC = tempAddr; else this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // JM addr (Minus, Sign true)
 
 
       // CALL, Ccond
-      case 0xCD: tempAddr = this.readWord(this.registers.PC); this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; break; // CALL addr
-      case 0xC4: condition = !this.flags.Z; tempAddr = this.readWord(this.registers.PC); if (condition) { this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; } else { this.registers.PC = (this.registers.PC + 2) & 0xFFFF; } break; // CNZ addr
-      case 0xCC: condition = this.flags.Z; tempAddr = this.readWord(this.registers.PC); if (condition) { this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; } else { this.registers.PC = (this.registers.PC + 2) & 0xFFFF; } break; // CZ addr
-      case 0xD4: condition = !this.flags.CY; tempAddr = this.readWord(this.registers.PC); if (condition) { this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; } else { this.registers.PC = (this.registers.PC + 2) & 0xFFFF; } break; // CNC addr
-      case 0xDC: condition = this.flags.CY; tempAddr = this.readWord(this.registers.PC); if (condition) { this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; } else { this.registers.PC = (this.registers.PC + 2) & 0xFFFF; } break; // CC addr
+      case 0xCD: tempAddr = this.fetchWord(this.registers.PC); this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; break; // CALL addr
+      case 0xC4: condition = !this.flags.Z; tempAddr = this.fetchWord(this.registers.PC); if (condition) { this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; } else { this.registers.PC = (this.registers.PC + 2) & 0xFFFF; } break; // CNZ addr
+      case 0xCC: condition = this.flags.Z; tempAddr = this.fetchWord(this.registers.PC); if (condition) { this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; } else { this.registers.PC = (this.registers.PC + 2) & 0xFFFF; } break; // CZ addr
+      case 0xD4: condition = !this.flags.CY; tempAddr = this.fetchWord(this.registers.PC); if (condition) { this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; } else { this.registers.PC = (this.registers.PC + 2) & 0xFFFF; } break; // CNC addr
+      case 0xDC: condition = this.flags.CY; tempAddr = this.fetchWord(this.registers.PC); if (condition) { this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; } else { this.registers.PC = (this.registers.PC + 2) & 0xFFFF; } break; // CC addr
+      case 0xE4: condition = !this.flags.P; tempAddr = this.fetchWord(this.registers.PC); if (condition) { this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; } else { this.registers.PC = (this.registers.PC + 2) & 0xFFFF; } break; // CPO addr (Parity Odd)
+      case 0xEC: condition = this.flags.P; tempAddr = this.fetchWord(this.registers.PC); if (condition) { this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; } else { this.registers.PC = (this.registers.PC + 2) & 0xFFFF; } break; // CPE addr (Parity Even)
+      case 0xF4: condition = !this.flags.S; tempAddr = this.fetchWord(this.registers.PC); if (condition) { this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; } else { this.registers.PC = (this.registers.PC + 2) & 0xFFFF; } break; // CP addr (Plus)
+      case 0xFC: condition = this.flags.S; tempAddr = this.fetchWord(this.registers.PC); if (condition) { this.pushWord((this.registers.PC + 2) & 0xFFFF); this.registers.PC = tempAddr; } else { this.registers.PC = (this.registers.PC + 2) & 0xFFFF; } break; // CM addr (Minus)
 
       // RET, Rcond
       case 0xC9: this.registers.PC = this.popWord(); break; // RET
@@ -379,6 +892,10 @@ export class CPU8085 {
       case 0xC8: if (this.flags.Z) this.registers.PC = this.popWord(); break; // RZ
       case 0xD0: if (!this.flags.CY) this.registers.PC = this.popWord(); break; // RNC
       case 0xD8: if (this.flags.CY) this.registers.PC = this.popWord(); break; // RC
+      case 0xE0: if (!this.flags.P) this.registers.PC = this.popWord(); break; // RPO
+      case 0xE8: if (this.flags.P) this.registers.PC = this.popWord(); break; // RPE
+      case 0xF0: if (!this.flags.S) this.registers.PC = this.popWord(); break; // RP
+      case 0xF8: if (this.flags.S) this.registers.PC = this.popWord(); break; // RM
       
       // PUSH / POP
       case 0xC1: this.setBC(this.popWord()); break; // POP B
@@ -391,9 +908,9 @@ export class CPU8085 {
       case 0xE5: this.pushWord(this.getHL()); break; // PUSH H
       case 0xF5: this.pushWord(this.getPSW()); break; // PUSH PSW
 
-      // IN / OUT (Simplified)
-      case 0xDB: tempVal = this.readByte(this.registers.PC); this.registers.A = this.ioPorts[tempVal]; this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break; // IN port
-      case 0xD3: tempVal = this.readByte(this.registers.PC); this.ioPorts[tempVal] = this.registers.A; this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break; // OUT port
+      // IN / OUT (dispatched through the device bus)
+      case 0xDB: tempVal = this.fetchByte(this.registers.PC); this.registers.A = this.readPort(tempVal); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break; // IN port
+      case 0xD3: tempVal = this.fetchByte(this.registers.PC); this.writePort(tempVal, this.registers.A); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break; // OUT port
 
       // XCHG
       case 0xEB: {
@@ -447,26 +964,28 @@ export class CPU8085 {
       }
 
       // DAA
+      // The 8085 has no subtract flag, so silicon always adjusts as after an addition. Subtract-aware
+      // mode instead takes the correction away after a subtraction, like the Z80 does with its N flag.
       case 0x27: {
-        let a = this.registers.A;
+        const a = this.registers.A;
+        const lastSubtract = this.lastSubtract;
+        const subtract = this.daaMode === 'subtract-aware' && lastSubtract;
         let correction = 0;
-        const lsn = a & 0x0F;
-        const msn = a >> 4;
-        let oldCY = this.flags.CY;
-
-        if (this.flags.AC || lsn > 9) {
-            correction += 0x06;
+        let carry = this.flags.CY;
+        if (this.flags.AC || (a & 0x0F) > 9) correction |= 0x06;
+        if (this.flags.CY || a > 0x99) {
+          correction |= 0x60;
+          carry = true;
         }
-        if (this.flags.CY || msn > 9 || (msn >= 9 && lsn > 9)) {
-            correction += 0x60;
-            this.flags.CY = true;
+        if (subtract) {
+          this.registers.A = (a - correction) & 0xFF;
+          this.flags.AC = this.flags.AC && (a & 0x0F) < 6;
+          this.updateZSPFlags(this.registers.A);
+        } else {
+          this.registers.A = this.add8bit(a, correction); // Sets S, Z, P and AC from the adjustment
         }
-        
-        // DAA works differently based on whether the last operation was an add or sub.
-        // This simplified DAA assumes addition context. A full DAA needs to know the last operation.
-        // For this simulator, we'll assume ADD context.
-        this.registers.A = this.add8bit(a, correction); // Use add8bit to update Z,S,P,AC correctly based on result
-        this.flags.CY = oldCY || this.flags.CY; // Preserve original carry if DAA itself didn't set it but it was already set
+        this.flags.CY = carry;
+        this.lastSubtract = lastSubtract; // DAA is not itself an addition or subtraction
         break;
       }
       
@@ -479,41 +998,56 @@ export class CPU8085 {
 
 
       // ANA R
-      case 0xA0: this.registers.A &= this.registers.B; this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; break;
-      case 0xA1: this.registers.A &= this.registers.C; this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; break;
-      // ... (A2-A5 for D,E,H,L)
-      case 0xA6: this.registers.A &= this.readByte(this.getHL()); this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; break; // ANA M
-      case 0xA7: this.registers.A &= this.registers.A; this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; break; // ANA A (AC behavior varies on docs, typically set/reset based on ORing bit 3 of operands, for AND it's complex or just cleared)
+      case 0xA0: this.ana(this.registers.B); break; // ANA B
+      case 0xA1: this.ana(this.registers.C); break; // ANA C
+      case 0xA2: this.ana(this.registers.D); break; // ANA D
+      case 0xA3: this.ana(this.registers.E); break; // ANA E
+      case 0xA4: this.ana(this.registers.H); break; // ANA H
+      case 0xA5: this.ana(this.registers.L); break; // ANA L
+      case 0xA6: this.ana(this.readByte(this.getHL())); break; // ANA M
+      case 0xA7: this.ana(this.registers.A); break; // ANA A
 
       // ANI D8
-      case 0xE6: tempVal = this.readByte(this.registers.PC); this.registers.A &= tempVal; this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0xE6: tempVal = this.fetchByte(this.registers.PC); this.ana(tempVal); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
 
       // XRA R
-      case 0xA8: this.registers.A ^= this.registers.B; this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; break;
-      // ... (A9-AD for C,D,E,H,L)
-      case 0xAE: this.registers.A ^= this.readByte(this.getHL()); this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; break; // XRA M
-      case 0xAF: this.registers.A ^= this.registers.A; this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; break; // XRA A
+      case 0xA8: this.xra(this.registers.B); break; // XRA B
+      case 0xA9: this.xra(this.registers.C); break; // XRA C
+      case 0xAA: this.xra(this.registers.D); break; // XRA D
+      case 0xAB: this.xra(this.registers.E); break; // XRA E
+      case 0xAC: this.xra(this.registers.H); break; // XRA H
+      case 0xAD: this.xra(this.registers.L); break; // XRA L
+      case 0xAE: this.xra(this.readByte(this.getHL())); break; // XRA M
+      case 0xAF: this.xra(this.registers.A); break; // XRA A
 
       // XRI D8
-      case 0xEE: tempVal = this.readByte(this.registers.PC); this.registers.A ^= tempVal; this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0xEE: tempVal = this.fetchByte(this.registers.PC); this.xra(tempVal); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
 
       // ORA R
-      case 0xB0: this.registers.A |= this.registers.B; this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; break;
-      // ... (B1-B5 for C,D,E,H,L)
-      case 0xB6: this.registers.A |= this.readByte(this.getHL()); this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; break; // ORA M
-      case 0xB7: this.registers.A |= this.registers.A; this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; break; // ORA A
+      case 0xB0: this.ora(this.registers.B); break; // ORA B
+      case 0xB1: this.ora(this.registers.C); break; // ORA C
+      case 0xB2: this.ora(this.registers.D); break; // ORA D
+      case 0xB3: this.ora(this.registers.E); break; // ORA E
+      case 0xB4: this.ora(this.registers.H); break; // ORA H
+      case 0xB5: this.ora(this.registers.L); break; // ORA L
+      case 0xB6: this.ora(this.readByte(this.getHL())); break; // ORA M
+      case 0xB7: this.ora(this.registers.A); break; // ORA A
 
       // ORI D8
-      case 0xF6: tempVal = this.readByte(this.registers.PC); this.registers.A |= tempVal; this.updateZSPFlags(this.registers.A); this.flags.CY = false; this.flags.AC = false; this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0xF6: tempVal = this.fetchByte(this.registers.PC); this.ora(tempVal); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
 
-      // CMP R
-      case 0xB8: this.sub8bit(this.registers.A, this.registers.B); break; // CMP B (Result discarded, flags set)
-      // ... (B9-BD for C,D,E,H,L)
+      // CMP R (result discarded, flags set)
+      case 0xB8: this.sub8bit(this.registers.A, this.registers.B); break; // CMP B
+      case 0xB9: this.sub8bit(this.registers.A, this.registers.C); break; // CMP C
+      case 0xBA: this.sub8bit(this.registers.A, this.registers.D); break; // CMP D
+      case 0xBB: this.sub8bit(this.registers.A, this.registers.E); break; // CMP E
+      case 0xBC: this.sub8bit(this.registers.A, this.registers.H); break; // CMP H
+      case 0xBD: this.sub8bit(this.registers.A, this.registers.L); break; // CMP L
       case 0xBE: this.sub8bit(this.registers.A, this.readByte(this.getHL())); break; // CMP M
       case 0xBF: this.sub8bit(this.registers.A, this.registers.A); break; // CMP A
 
       // CPI D8
-      case 0xFE: tempVal = this.readByte(this.registers.PC); this.sub8bit(this.registers.A, tempVal); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
+      case 0xFE: tempVal = this.fetchByte(this.registers.PC); this.sub8bit(this.registers.A, tempVal); this.registers.PC = (this.registers.PC + 1) & 0xFFFF; break;
 
       // DAD rp
       case 0x09: this.dad(this.getBC()); break; // DAD B
@@ -522,14 +1056,14 @@ export class CPU8085 {
       case 0x39: this.dad(this.registers.SP); break; // DAD SP
 
       // INX rp, DCX rp
-      case 0x03: this.setBC((this.getBC() + 1) & 0xFFFF); break; // INX B
-      case 0x0B: this.setBC((this.getBC() - 1) & 0xFFFF); break; // DCX B
-      case 0x13: this.setDE((this.getDE() + 1) & 0xFFFF); break; // INX D
-      case 0x1B: this.setDE((this.getDE() - 1) & 0xFFFF); break; // DCX D
-      case 0x23: this.setHL((this.getHL() + 1) & 0xFFFF); break; // INX H
-      case 0x2B: this.setHL((this.getHL() - 1) & 0xFFFF); break; // DCX H
-      case 0x33: this.registers.SP = (this.registers.SP + 1) & 0xFFFF; break; // INX SP
-      case 0x3B: this.registers.SP = (this.registers.SP - 1) & 0xFFFF; break; // DCX SP
+      case 0x03: this.setBC(this.stepPair(this.getBC(), 1)); break; // INX B
+      case 0x0B: this.setBC(this.stepPair(this.getBC(), -1)); break; // DCX B
+      case 0x13: this.setDE(this.stepPair(this.getDE(), 1)); break; // INX D
+      case 0x1B: this.setDE(this.stepPair(this.getDE(), -1)); break; // DCX D
+      case 0x23: this.setHL(this.stepPair(this.getHL(), 1)); break; // INX H
+      case 0x2B: this.setHL(this.stepPair(this.getHL(), -1)); break; // DCX H
+      case 0x33: this.registers.SP = this.stepPair(this.registers.SP, 1); break; // INX SP
+      case 0x3B: this.registers.SP = this.stepPair(this.registers.SP, -1); break; // DCX SP
       
       // STAX, LDAX
       case 0x02: this.writeByte(this.getBC(), this.registers.A); break; // STAX B
@@ -538,16 +1072,17 @@ export class CPU8085 {
       case 0x1A: this.registers.A = this.readByte(this.getDE()); break; // LDAX D
 
       // SHLD, LHLD
-      case 0x22: tempAddr = this.readWord(this.registers.PC); this.writeWord(tempAddr, this.getHL()); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // SHLD addr
-      case 0x2A: tempAddr = this.readWord(this.registers.PC); this.setHL(this.readWord(tempAddr)); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // LHLD addr
+      case 0x22: tempAddr = this.fetchWord(this.registers.PC); this.writeWord(tempAddr, this.getHL()); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // SHLD addr
+      case 0x2A: tempAddr = this.fetchWord(this.registers.PC); this.setHL(this.readWord(tempAddr)); this.registers.PC = (this.registers.PC + 2) & 0xFFFF; break; // LHLD addr
       
       // EI, DI (Interrupts not fully simulated)
-      case 0xFB: /* EI - Enable Interrupts */ break;
-      case 0xF3: /* DI - Disable Interrupts */ break;
+      // EI, DI
+      case 0xFB: this.interrupts.enablePending = true; break; // EI - takes effect after the next instruction
+      case 0xF3: this.interrupts.enabled = false; this.interrupts.enablePending = false; break; // DI
 
-      // RIM, SIM (Interrupt masks and serial I/O not simulated)
-      case 0x20: /* RIM */ break;
-      case 0x30: /* SIM */ break;
+      // RIM, SIM (interrupt masks and serial SID/SOD)
+      case 0x20: this.registers.A = this.rim(); break; // RIM
+      case 0x30: this.sim(this.registers.A); break; // SIM
 
       // RST n (Restart instructions)
       // Pushes current PC to stack, then jumps to 8 * n
@@ -561,10 +1096,70 @@ export class CPU8085 {
       case 0xFF: this.pushWord(this.registers.PC); this.registers.PC = 0x0038; break; // RST 7
 
       default:
+        if (this.undocumented && this.executeUndocumented(opcode)) break;
         // Handle unknown opcode, perhaps treat as NOP or set an error flag
         console.warn(`Unknown/Unimplemented opcode: ${opcode.toString(16).toUpperCase()} at PC=${(this.registers.PC-1).toString(16).toUpperCase()}`);
         this.halted = true; // Halt on unknown instruction
+        this.unknownOpcode = { opcode, address: (this.registers.PC - 1) & 0xFFFF };
         break;
     }
   }
+
+  // The undocumented opcodes; returns false for a slot that has none
+  private executeUndocumented(opcode: number): boolean {
+    switch (opcode) {
+      case 0x08: { // DSUB: HL = HL - BC, all flags from the 16-bit result
+        const hl = this.getHL();
+        const bc = this.getBC();
+        const unmaskedResult = hl - bc;
+        const result = unmaskedResult & 0xFFFF;
+        this.setHL(result);
+        this.flags.CY = unmaskedResult < 0;
+        this.flags.AC = ((hl & 0x0F) - (bc & 0x0F)) < 0;
+        this.updateZSPFlags(result & 0xFF); // P from the low byte
+        this.flags.S = (result & 0x8000) !== 0;
+        this.flags.Z = result === 0;
+        this.updateVKFlags(((hl ^ bc) & (hl ^ result) & 0x8000) !== 0);
+        break;
+      }
+      case 0x10: { // ARHL: arithmetic shift right of HL, bit 0 into CY
+        const hl = this.getHL();
+        this.flags.CY = (hl & 1) !== 0;
+        this.setHL((hl & 0x8000) | (hl >> 1));
+        break;
+      }
+      case 0x18: { // RDEL: rotate DE left through CY; V when bit 15 changes
+        const de = this.getDE();
+        const result = ((de << 1) | (this.flags.CY ? 1 : 0)) & 0xFFFF;
+        this.flags.CY = (de & 0x8000) !== 0;
+        this.flags.V = ((de ^ result) & 0x8000) !== 0;
+        this.setDE(result);
+        break;
+      }
+      case 0x28: // LDHI d8: DE = HL + d8
+        this.setDE((this.getHL() + this.fetchByte(this.registers.PC)) & 0xFFFF);
+        this.registers.PC = (this.registers.PC + 1) & 0xFFFF;
+        break;
+      case 0x38: // LDSI d8: DE = SP + d8
+        this.setDE((this.registers.SP + this.fetchByte(this.registers.PC)) & 0xFFFF);
+        this.registers.PC = (this.registers.PC + 1) & 0xFFFF;
+        break;
+      case 0xCB: // RSTV: RST 8 (call 0040H) on overflow
+        if (this.flags.V) {
+          this.pushWord(this.registers.PC);
+          this.registers.PC = 0x0040;
+        }
+        break;
+      case 0xD9: this.writeWord(this.getDE(), this.getHL()); break; // SHLX: (DE) = HL
+      case 0xED: this.setHL(this.readWord(this.getDE())); break;    // LHLX: HL = (DE)
+      case 0xDD: case 0xFD: { // JNK, JK
+        const target = this.fetchWord(this.registers.PC);
+        this.registers.PC = this.branchTaken(opcode) ? target : (this.registers.PC + 2) & 0xFFFF;
+        break;
+      }
+      default:
+        return false;
+    }
+    return true;
+  }
 }
@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { assemble } from './assembler';
+
+// Assembles `source` and returns the bytes from its start address on, failing on any error
+const bytesOf = (source: string): number[] => {
+  const result = assemble(source);
+  expect(result.errors).toEqual([]);
+  return result.segments.flatMap(segment => segment.bytes);
+};
+
+describe('instructions', () => {
+  it('encodes register, immediate and address operands', () => {
+    expect(bytesOf(`
+      MVI A, 25H
+      MOV B, A
+      LXI H, 2050H
+      ADD M
+      STA 3000H
+      HLT`)).toEqual([0x3E, 0x25, 0x47, 0x21, 0x50, 0x20, 0x86, 0x32, 0x00, 0x30, 0x76]);
+  });
+
+  it('accepts mnemonics and registers in any case', () => {
+    expect(bytesOf('mvi a,1\nPush psw\nrst 7')).toEqual([0x3E, 0x01, 0xF5, 0xFF]);
+  });
+});
+
+describe('directives', () => {
+  it('places code at ORG and starts there', () => {
+    const result = assemble('ORG 2000H\nNOP\nORG 2100H\nHLT');
+    expect(result.errors).toEqual([]);
+    expect(result.segments).toEqual([{ address: 0x2000, bytes: [0x00] }, { address: 0x2100, bytes: [0x76] }]);
+    expect(result.entryPoint).toBe(0x2000);
+  });
+
+  it('emits DB bytes and strings, and DW words low byte first', () => {
+    expect(bytesOf(`DB 1, 0FFH, 'AB', -1\nDW 1234H, 'AB'`))
+      .toEqual([0x01, 0xFF, 0x41, 0x42, 0xFF, 0x34, 0x12, 0x42, 0x41]);
+  });
+
+  it('reserves DS space without emitting bytes', () => {
+    const result = assemble('ORG 100H\nBUF: DS 4\nAFTER: DB 7');
+    expect(result.symbols).toMatchObject({ BUF: 0x100, AFTER: 0x104 });
+    expect(result.segments).toEqual([{ address: 0x104, bytes: [0x07] }]);
+  });
+
+  it('takes the entry point from END and ignores anything after it', () => {
+    const result = assemble('ORG 2000H\nNOP\nSTART: HLT\nEND START\nthis is not assembled');
+    expect(result.errors).toEqual([]);
+    expect(result.entryPoint).toBe(0x2001);
+  });
+
+  it('defines EQU symbols with or without a colon', () => {
+    const result = assemble('PORT EQU 40H\nMASK: EQU 0FH\nOUT PORT\nANI MASK');
+    expect(result.errors).toEqual([]);
+    expect(result.symbols).toMatchObject({ PORT: 0x40, MASK: 0x0F });
+    expect(result.segments[0].bytes).toEqual([0xD3, 0x40, 0xE6, 0x0F]);
+  });
+});
+
+describe('expressions', () => {
+  it('reads hex, decimal, binary, octal and character literals', () => {
+    expect(bytesOf(`DB 0AH, 0x0B, 12, 12D, 1101B, 0b1110, 17Q, 'A', "z"`))
+      .toEqual([0x0A, 0x0B, 12, 12, 13, 14, 15, 0x41, 0x7A]);
+  });
+
+  it('escapes a quote by doubling it', () => {
+    expect(bytesOf(`DB 'IT''S', ''''\nMVI A, '"'\nDB "SAY ""HI""" ; quotes`))
+      .toEqual([...'IT\'S\''].map(c => c.charCodeAt(0)).concat([0x3E, 0x22], [...'SAY "HI"'].map(c => c.charCodeAt(0))));
+  });
+
+  it('does not end a comment or operand list inside a quote', () => {
+    expect(bytesOf(`DB ';', ','  ; comment`)).toEqual([0x3B, 0x2C]);
+  });
+
+  it('evaluates operators with precedence, labels, $ and HIGH/LOW', () => {
+    const result = assemble(`
+      ORG 2000H
+TABLE: DB 1, 2, 3
+      LXI H, TABLE+2
+      MVI A, (2+3)*4 - 1
+      MVI B, HIGH TABLE
+      MVI C, LOW (TABLE + 100H)
+      MVI D, 1 SHL 3 OR 1
+HERE: JMP $`);
+    expect(result.errors).toEqual([]);
+    expect(result.segments[0].bytes.slice(3)).toEqual([
+      0x21, 0x02, 0x20,
+      0x3E, 19,
+      0x06, 0x20,
+      0x0E, 0x00,
+      0x16, 0x09,
+      0xC3, 0x0E, 0x20,
+    ]);
+    expect(result.symbols.HERE).toBe(0x200E);
+  });
+
+  it('treats an operand that only starts and ends with a quote as an expression', () => {
+    expect(bytesOf(`DB 'A'+'B'-'A'`)).toEqual([0x42]);
+  });
+});
+
+describe('forward references', () => {
+  it('resolves labels used before they are defined', () => {
+    const result = assemble('ORG 2000H\nJMP LATER\nNOP\nLATER: HLT');
+    expect(result.errors).toEqual([]);
+    expect(result.segments[0].bytes).toEqual([0xC3, 0x04, 0x20, 0x00, 0x76]);
+  });
+
+  it('resolves EQUs that refer to labels and EQUs defined later', () => {
+    const result = assemble(`
+SIZE EQU END_ - START
+HALF EQU COUNT / 2
+COUNT EQU SIZE + 2
+      ORG 2000H
+START: DB 1, 2, 3, 4
+END_: MVI A, HALF`);
+    expect(result.errors).toEqual([]);
+    expect(result.symbols).toMatchObject({ SIZE: 4, COUNT: 6, HALF: 3 });
+    expect(result.segments[0].bytes).toEqual([1, 2, 3, 4, 0x3E, 3]);
+  });
+
+  it('reports EQUs that depend on each other', () => {
+    const result = assemble('A1 EQU B1 + 1\nB1 EQU A1 - 1\nNOP');
+    expect(result.errors).toEqual([
+      { line: 1, column: 1, message: "Circular definition of 'A1'" },
+      { line: 2, column: 1, message: "Circular definition of 'B1'" },
+    ]);
+  });
+
+  it('reports an EQU that uses a symbol defined nowhere', () => {
+    const result = assemble('X EQU NOWHERE + 1');
+    expect(result.errors).toEqual([{ line: 1, column: 7, message: "Undefined symbol 'NOWHERE'" }]);
+  });
+
+  it('says when ORG or DS uses a symbol that is only defined later', () => {
+    const result = assemble('ORG START\nDS LEN\nSTART EQU 2000H\nLEN EQU 4');
+    expect(result.errors).toEqual([
+      { line: 1, column: 5, message: "'START' must be defined before ORG uses it" },
+      { line: 2, column: 4, message: "'LEN' must be defined before DS uses it" },
+    ]);
+  });
+});
+
+describe('errors', () => {
+  it('reports the line and column of each problem and keeps going', () => {
+    const result = assemble('NOP\n  FOO A\n  MVI A, 300\n  MOV A, Q\n  JMP MISSING');
+    expect(result.errors).toEqual([
+      { line: 2, column: 3, message: "Unknown instruction 'FOO'" },
+      { line: 3, column: 10, message: 'Value 300 out of range for 8-bit operand' },
+      { line: 4, column: 10, message: "Invalid operand 'Q' for MOV" },
+      { line: 5, column: 7, message: "Undefined symbol 'MISSING'" },
+    ]);
+  });
+
+  it('checks operand counts', () => {
+    expect(assemble('MOV A').errors).toEqual([{ line: 1, column: 1, message: 'MOV expects 2 operands' }]);
+    expect(assemble('DB').errors).toEqual([{ line: 1, column: 1, message: 'DB expects at least 1 operand' }]);
+  });
+
+  it('rejects duplicate and reserved labels', () => {
+    expect(assemble('X: NOP\nX: NOP').errors).toEqual([{ line: 2, column: 1, message: "Duplicate symbol 'X'" }]);
+    expect(assemble('X EQU LATER\nX: NOP\nLATER: NOP').errors).toEqual([{ line: 2, column: 1, message: "Duplicate symbol 'X'" }]);
+    expect(assemble('SP: NOP').errors).toEqual([{ line: 1, column: 1, message: "'SP' is a reserved word" }]);
+  });
+
+  it('reports unterminated literals and bad numbers', () => {
+    expect(assemble(`MVI A, 'A`).errors).toEqual([{ line: 1, column: 8, message: 'Unterminated character literal' }]);
+    expect(assemble('MVI A, 12G').errors).toEqual([{ line: 1, column: 8, message: "Invalid number '12G'" }]);
+    expect(assemble('MVI A, 1/0').errors).toEqual([{ line: 1, column: 9, message: 'Division by zero' }]);
+  });
+
+  it('rejects registers inside expressions', () => {
+    expect(assemble('MVI A, B+1').errors).toEqual([{ line: 1, column: 8, message: "Register 'B' not allowed here" }]);
+  });
+});
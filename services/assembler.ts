@@ -0,0 +1,601 @@
+import { OPCODE_TABLE, UNDOCUMENTED_OPCODE_TABLE, OpcodeInfo, opcodeKey } from './opcodes';
+
+export interface AssemblerError {
+  line: number;   // 1-based source line
+  column: number; // 1-based column where the problem starts
+  message: string;
+}
+
+export interface ListingLine {
+  line: number;
+  address: number;
+  bytes: number[];
+  source: string;
+}
+
+export interface MemorySegment {
+  address: number;
+  bytes: number[];
+}
+
+export interface AssemblyResult {
+  segments: MemorySegment[];      // Contiguous runs of emitted bytes
+  listing: ListingLine[];         // One entry per source line that defines an address
+  symbols: Record<string, number>;
+  entryPoint: number;             // END operand, else the first ORG / emitted address
+  errors: AssemblerError[];
+}
+
+interface Field {
+  text: string;
+  column: number;
+}
+
+interface ParsedLine {
+  label?: Field;
+  op?: Field;
+  operands: Field[];
+}
+
+interface Shape {
+  fixed: number;
+  immediate: boolean;
+}
+
+export const DIRECTIVES = ['ORG', 'EQU', 'DB', 'DW', 'DS', 'END'];
+const RESERVED = ['A', 'B', 'C', 'D', 'E', 'H', 'L', 'M', 'SP', 'PSW'];
+
+const OPCODE_LOOKUP = new Map<string, OpcodeInfo>();
+const MNEMONIC_SHAPES = new Map<string, Shape>();
+// Undocumented instructions always assemble; whether they run is up to the CPU
+[...OPCODE_TABLE, ...UNDOCUMENTED_OPCODE_TABLE].forEach(info => {
+  if (!info) return;
+  OPCODE_LOOKUP.set(opcodeKey(info.mnemonic, info.operands), info);
+  MNEMONIC_SHAPES.set(info.mnemonic, { fixed: info.operands.length, immediate: info.immediate !== undefined });
+});
+
+class SourceError extends Error {
+  constructor(message: string, public column: number) {
+    super(message);
+  }
+}
+
+// A symbol with no value yet. Pass one defers EQUs that hit one until every label is known.
+class UndefinedSymbolError extends SourceError {
+  constructor(public symbol: string, column: number) {
+    super(`Undefined symbol '${symbol}'`, column);
+  }
+}
+
+// --- Line scanning -------------------------------------------------------
+
+const stripComment = (text: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '\'' || ch === '"') {
+      quote = ch;
+    } else if (ch === ';') {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+};
+
+/**
+ * Reads the quoted literal that opens at `start`. A doubled quote stands for
+ * the quote itself, as in 'IT''S'. Returns the text between the quotes and the
+ * index just past the closing one, or null if it is never closed.
+ */
+const scanQuoted = (text: string, start: number): { value: string; end: number } | null => {
+  const quote = text[start];
+  let value = '';
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] !== quote) {
+      value += text[i];
+    } else if (text[i + 1] === quote) {
+      value += quote;
+      i++;
+    } else {
+      return { value, end: i + 1 };
+    }
+  }
+  return null;
+};
+
+// Splits on commas that are not inside quotes or parentheses.
+const splitOperands = (text: string, offset: number): Field[] => {
+  const fields: Field[] = [];
+  let quote: string | null = null;
+  let depth = 0;
+  let start = 0;
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    const lead = raw.length - raw.trimStart().length;
+    fields.push({ text: raw.trim(), column: offset + start + lead + 1 });
+  };
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '\'' || ch === '"') {
+      quote = ch;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      push(i);
+      start = i + 1;
+    }
+  }
+  push(text.length);
+  return fields;
+};
+
+const parseLine = (raw: string): ParsedLine => {
+  const text = stripComment(raw);
+  const result: ParsedLine = { operands: [] };
+  let pos = 0;
+
+  const skipSpace = () => { while (pos < text.length && /\s/.test(text[pos])) pos++; };
+  const readWord = (): Field | undefined => {
+    skipSpace();
+    const match = /^[A-Za-z_?@.][\w?@.]*/.exec(text.slice(pos));
+    if (!match) return undefined;
+    const field = { text: match[0], column: pos + 1 };
+    pos += match[0].length;
+    return field;
+  };
+
+  skipSpace();
+  if (pos >= text.length) return result;
+
+  const first = readWord();
+  if (!first) throw new SourceError(`Unexpected '${text[pos]}'`, pos + 1);
+
+  skipSpace();
+  if (text[pos] === ':') {
+    result.label = first;
+    pos++;
+    result.op = readWord();
+  } else {
+    // "NAME EQU value" takes its label without a colon
+    const save = pos;
+    const second = readWord();
+    if (second && second.text.toUpperCase() === 'EQU') {
+      result.label = first;
+      result.op = second;
+    } else {
+      pos = save;
+      result.op = first;
+    }
+  }
+
+  skipSpace();
+  if (!result.op) {
+    if (pos < text.length) throw new SourceError(`Unexpected '${text[pos]}'`, pos + 1);
+    return result;
+  }
+  if (pos < text.length) {
+    result.operands = splitOperands(text.slice(pos), pos);
+  }
+  return result;
+};
+
+// --- Expressions ---------------------------------------------------------
+
+type Token = { kind: 'num' | 'id' | 'op' | 'str'; text: string; value: number; column: number };
+
+const parseNumber = (text: string, column: number): number => {
+  const t = text.toUpperCase();
+  let m: RegExpExecArray | null;
+  if ((m = /^([0-9][0-9A-F]*)H$/.exec(t))) return parseInt(m[1], 16);
+  if ((m = /^0X([0-9A-F]+)$/.exec(t))) return parseInt(m[1], 16);
+  if ((m = /^0B([01]+)$/.exec(t))) return parseInt(m[1], 2);
+  if ((m = /^([01]+)B$/.exec(t))) return parseInt(m[1], 2);
+  if ((m = /^([0-7]+)[OQ]$/.exec(t))) return parseInt(m[1], 8);
+  if ((m = /^([0-9]+)D?$/.exec(t))) return parseInt(m[1], 10);
+  throw new SourceError(`Invalid number '${text}'`, column);
+};
+
+const tokenize = (text: string, column: number): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const col = column + i;
+    if (/\s/.test(ch)) { i++; continue; }
+    if (/[0-9]/.test(ch)) {
+      const m = /^[0-9][0-9A-Za-z]*/.exec(text.slice(i))!;
+      tokens.push({ kind: 'num', text: m[0], value: parseNumber(m[0], col), column: col });
+      i += m[0].length;
+    } else if (/[A-Za-z_?@.]/.test(ch)) {
+      const m = /^[A-Za-z_?@.][\w?@.]*/.exec(text.slice(i))!;
+      tokens.push({ kind: 'id', text: m[0].toUpperCase(), value: 0, column: col });
+      i += m[0].length;
+    } else if (ch === '\'' || ch === '"') {
+      const literal = scanQuoted(text, i);
+      if (!literal) throw new SourceError('Unterminated character literal', col);
+      tokens.push({ kind: 'str', text: literal.value, value: 0, column: col });
+      i = literal.end;
+    } else if (text.startsWith('<<', i) || text.startsWith('>>', i)) {
+      tokens.push({ kind: 'op', text: text.slice(i, i + 2), value: 0, column: col });
+      i += 2;
+    } else if ('+-*/%&|^~()$'.includes(ch)) {
+      tokens.push({ kind: 'op', text: ch, value: 0, column: col });
+      i++;
+    } else {
+      throw new SourceError(`Unexpected '${ch}' in expression`, col);
+    }
+  }
+  return tokens;
+};
+
+const WORD_OPERATORS: Record<string, string> = { MOD: '%', AND: '&', OR: '|', XOR: '^', SHL: '<<', SHR: '>>', NOT: '~' };
+
+const BINARY_PRECEDENCE: string[][] = [
+  ['|'],
+  ['^'],
+  ['&'],
+  ['<<', '>>'],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+/**
+ * Evaluates an operand expression. `resolve` returns undefined for symbols that
+ * are not defined yet, which is reported as an error.
+ */
+const evaluate = (field: Field, location: number, resolve: (name: string) => number | undefined): number => {
+  const tokens = tokenize(field.text, field.column).map(tok =>
+    tok.kind === 'id' && WORD_OPERATORS[tok.text] ? { ...tok, kind: 'op' as const, text: WORD_OPERATORS[tok.text] } : tok);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const endColumn = field.column + field.text.length;
+
+  const parseBinary = (level: number): number => {
+    if (level >= BINARY_PRECEDENCE.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    while (peek() && peek().kind === 'op' && BINARY_PRECEDENCE[level].includes(peek().text)) {
+      const op = tokens[pos++];
+      const right = parseBinary(level + 1);
+      switch (op.text) {
+        case '|': left |= right; break;
+        case '^': left ^= right; break;
+        case '&': left &= right; break;
+        case '<<': left = left << right; break;
+        case '>>': left = left >>> right; break;
+        case '+': left += right; break;
+        case '-': left -= right; break;
+        case '*': left *= right; break;
+        case '/':
+        case '%':
+          if (right === 0) throw new SourceError('Division by zero', op.column);
+          left = op.text === '/' ? Math.trunc(left / right) : left % right;
+          break;
+      }
+    }
+    return left;
+  };
+
+  const parseUnary = (): number => {
+    const tok = peek();
+    if (tok && tok.kind === 'op' && (tok.text === '-' || tok.text === '+' || tok.text === '~')) {
+      pos++;
+      const value = parseUnary();
+      return tok.text === '-' ? -value : tok.text === '~' ? ~value & 0xFFFF : value;
+    }
+    if (tok && tok.kind === 'id' && (tok.text === 'HIGH' || tok.text === 'LOW')) {
+      pos++;
+      const value = parseUnary();
+      return tok.text === 'HIGH' ? (value >> 8) & 0xFF : value & 0xFF;
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): number => {
+    const tok = tokens[pos++];
+    if (!tok) throw new SourceError('Expected a value', endColumn);
+    switch (tok.kind) {
+      case 'num': return tok.value;
+      case 'str':
+        if (tok.text.length === 1) return tok.text.charCodeAt(0);
+        if (tok.text.length === 2) return (tok.text.charCodeAt(0) << 8) | tok.text.charCodeAt(1);
+        throw new SourceError('Character literal must be 1 or 2 characters', tok.column);
+      case 'id': {
+        if (RESERVED.includes(tok.text)) throw new SourceError(`Register '${tok.text}' not allowed here`, tok.column);
+        const value = resolve(tok.text);
+        if (value === undefined) throw new UndefinedSymbolError(tok.text, tok.column);
+        return value;
+      }
+      case 'op':
+        if (tok.text === '$') return location;
+        if (tok.text === '(') {
+          const value = parseBinary(0);
+          const close = tokens[pos++];
+          if (!close || close.text !== ')') throw new SourceError('Missing )', close ? close.column : endColumn);
+          return value;
+        }
+        throw new SourceError(`Unexpected '${tok.text}'`, tok.column);
+    }
+  };
+
+  if (tokens.length === 0) throw new SourceError('Expected a value', field.column);
+  const value = parseBinary(0);
+  if (pos < tokens.length) throw new SourceError(`Unexpected '${tokens[pos].text}'`, tokens[pos].column);
+  return value;
+};
+
+const checkRange = (value: number, kind: 'byte' | 'word', column: number): number => {
+  const [min, max] = kind === 'byte' ? [-128, 0xFF] : [-32768, 0xFFFF];
+  if (value < min || value > max) {
+    throw new SourceError(`Value ${value} out of range for ${kind === 'byte' ? '8' : '16'}-bit operand`, column);
+  }
+  return kind === 'byte' ? value & 0xFF : value & 0xFFFF;
+};
+
+// The text of a DB operand that is a single quoted string, or null for an expression
+const stringOperand = (text: string): string | null => {
+  if (text[0] !== '\'' && text[0] !== '"') return null;
+  const literal = scanQuoted(text, 0);
+  return literal && literal.end === text.length ? literal.value : null;
+};
+
+// --- Assembler -----------------------------------------------------------
+
+interface LineInfo {
+  parsed: ParsedLine;
+  address: number;
+  instruction?: OpcodeInfo;
+  failed: boolean;
+}
+
+// An EQU whose value uses a symbol defined further down
+interface PendingEqu {
+  line: number;
+  name: string;
+  label: Field;
+  value: Field;
+  location: number;
+}
+
+/**
+ * Two-pass assembler for 8085 source text. Pass one assigns addresses and
+ * defines symbols; pass two evaluates operands and emits bytes.
+ */
+export const assemble = (source: string): AssemblyResult => {
+  const lines = source.split(/\r?\n/);
+  const errors: AssemblerError[] = [];
+  const symbols: Record<string, number> = {};
+  const infos: LineInfo[] = [];
+  const pending = new Map<string, PendingEqu>();
+  // ORG and DS operands that used a symbol before its definition, checked once pass one is done
+  const earlyUses: { line: number; directive: string; error: UndefinedSymbolError }[] = [];
+  let entryPoint: number | undefined;
+  let firstOrigin: number | undefined;
+
+  const report = (line: number, err: unknown, fallbackColumn = 1) => {
+    if (err instanceof SourceError) errors.push({ line, column: err.column, message: err.message });
+    else errors.push({ line, column: fallbackColumn, message: String(err) });
+  };
+  const resolveDefined = (name: string) => symbols[name];
+
+  // Pass 1
+  let location = 0;
+  let ended = false;
+  lines.forEach((raw, index) => {
+    const lineNo = index + 1;
+    const info: LineInfo = { parsed: { operands: [] }, address: location, failed: false };
+    infos.push(info);
+    if (ended) return;
+
+    try {
+      info.parsed = parseLine(raw);
+    } catch (err) {
+      info.failed = true;
+      report(lineNo, err);
+      return;
+    }
+    const { label, op, operands } = info.parsed;
+    const opName = op ? op.text.toUpperCase() : '';
+
+    try {
+      if (label) {
+        const name = label.text.toUpperCase();
+        if (RESERVED.includes(name) || MNEMONIC_SHAPES.has(name) || DIRECTIVES.includes(name)) {
+          throw new SourceError(`'${label.text}' is a reserved word`, label.column);
+        }
+        if (name in symbols || pending.has(name)) throw new SourceError(`Duplicate symbol '${label.text}'`, label.column);
+        if (opName !== 'EQU') symbols[name] = location;
+      }
+      if (!op) return;
+
+      const expectOperands = (count: number) => {
+        if (operands.length !== count) {
+          throw new SourceError(`${opName} expects ${count} operand${count === 1 ? '' : 's'}`, op.column);
+        }
+      };
+      // ORG and DS decide addresses, so their operands must be known by this line
+      const evaluateNow = (field: Field): number => {
+        try {
+          return evaluate(field, location, resolveDefined);
+        } catch (err) {
+          if (err instanceof UndefinedSymbolError) earlyUses.push({ line: lineNo, directive: opName, error: err });
+          throw err;
+        }
+      };
+
+      switch (opName) {
+        case 'ORG':
+          expectOperands(1);
+          location = checkRange(evaluateNow(operands[0]), 'word', operands[0].column);
+          info.address = location;
+          if (label) symbols[label.text.toUpperCase()] = location;
+          if (firstOrigin === undefined) firstOrigin = location;
+          break;
+        case 'EQU':
+          if (!label) throw new SourceError('EQU requires a label', op.column);
+          expectOperands(1);
+          try {
+            symbols[label.text.toUpperCase()] = evaluate(operands[0], location, resolveDefined) & 0xFFFF;
+          } catch (err) {
+            if (!(err instanceof UndefinedSymbolError)) throw err;
+            const name = label.text.toUpperCase();
+            pending.set(name, { line: lineNo, name, label, value: operands[0], location });
+          }
+          break;
+        case 'DB':
+          if (operands.length === 0) throw new SourceError('DB expects at least 1 operand', op.column);
+          location += operands.reduce((n, f) => n + (stringOperand(f.text)?.length ?? 1), 0);
+          break;
+        case 'DW':
+          if (operands.length === 0) throw new SourceError('DW expects at least 1 operand', op.column);
+          location += operands.length * 2;
+          break;
+        case 'DS': {
+          expectOperands(1);
+          const count = evaluateNow(operands[0]);
+          if (count < 0) throw new SourceError('DS size cannot be negative', operands[0].column);
+          location += count;
+          break;
+        }
+        case 'END':
+          if (operands.length > 1) expectOperands(1);
+          ended = true;
+          break;
+        default: {
+          const shape = MNEMONIC_SHAPES.get(opName);
+          if (!shape) throw new SourceError(`Unknown instruction '${op.text}'`, op.column);
+          expectOperands(shape.fixed + (shape.immediate ? 1 : 0));
+          const fixed = operands.slice(0, shape.fixed);
+          const instruction = OPCODE_LOOKUP.get(opcodeKey(opName, fixed.map(f => f.text.toUpperCase())));
+          if (!instruction) {
+            const bad = fixed.find(f => !RESERVED.includes(f.text.toUpperCase()) && !/^[0-7]$/.test(f.text)) ?? fixed[0];
+            throw new SourceError(`Invalid operand '${bad.text}' for ${opName}`, bad.column);
+          }
+          info.instruction = instruction;
+          location += instruction.size;
+        }
+      }
+      if (location > 0x10000) throw new SourceError('Program exceeds 64K address space', op.column);
+    } catch (err) {
+      info.failed = true;
+      report(lineNo, err, op ? op.column : 1);
+    }
+  });
+
+  // EQUs that referred forward: resolve them in dependency order, which takes
+  // at most one round per pending symbol
+  while (pending.size > 0) {
+    let progress = false;
+    pending.forEach(equ => {
+      try {
+        symbols[equ.name] = evaluate(equ.value, equ.location, resolveDefined) & 0xFFFF;
+        pending.delete(equ.name);
+        progress = true;
+      } catch (err) {
+        if (err instanceof UndefinedSymbolError && pending.has(err.symbol)) return; // Another pending EQU
+        report(equ.line, err);
+        infos[equ.line - 1].failed = true;
+        pending.delete(equ.name);
+        progress = true;
+      }
+    });
+    if (!progress) {
+      // Everything left waits on something else that is left
+      pending.forEach(equ => {
+        report(equ.line, new SourceError(`Circular definition of '${equ.label.text}'`, equ.label.column));
+        infos[equ.line - 1].failed = true;
+      });
+      pending.clear();
+    }
+  }
+
+  // Name forward references that ORG and DS cannot take, instead of calling them undefined
+  earlyUses.forEach(({ line, directive, error }) => {
+    if (!(error.symbol in symbols)) return;
+    const reported = errors.find(e => e.line === line && e.column === error.column);
+    if (reported) reported.message = `'${error.symbol}' must be defined before ${directive} uses it`;
+  });
+
+  // Pass 2
+  const listing: ListingLine[] = [];
+  let endSeen = false;
+  infos.forEach((info, index) => {
+    const lineNo = index + 1;
+    const { op, operands } = info.parsed;
+    if (info.failed || endSeen) return;
+    const opName = op ? op.text.toUpperCase() : '';
+    const resolve = (name: string) => symbols[name];
+    const bytes: number[] = [];
+
+    try {
+      switch (opName) {
+        case 'EQU':
+        case 'ORG':
+          break;
+        case 'END':
+          endSeen = true;
+          if (operands.length === 1) {
+            entryPoint = checkRange(evaluate(operands[0], info.address, resolve), 'word', operands[0].column);
+          }
+          break;
+        case 'DB':
+          operands.forEach(f => {
+            const text = stringOperand(f.text);
+            if (text !== null) {
+              for (const ch of text) bytes.push(ch.charCodeAt(0) & 0xFF);
+            } else {
+              bytes.push(checkRange(evaluate(f, info.address + bytes.length, resolve), 'byte', f.column));
+            }
+          });
+          break;
+        case 'DW':
+          operands.forEach(f => {
+            const value = checkRange(evaluate(f, info.address + bytes.length, resolve), 'word', f.column);
+            bytes.push(value & 0xFF, (value >> 8) & 0xFF);
+          });
+          break;
+        case 'DS':
+          break;
+        default:
+          if (info.instruction) {
+            const { instruction } = info;
+            bytes.push(instruction.opcode);
+            if (instruction.immediate) {
+              const f = operands[operands.length - 1];
+              const value = checkRange(evaluate(f, info.address, resolve), instruction.immediate, f.column);
+              bytes.push(value & 0xFF);
+              if (instruction.immediate === 'word') bytes.push((value >> 8) & 0xFF);
+            }
+          }
+      }
+    } catch (err) {
+      report(lineNo, err, op ? op.column : 1);
+      return;
+    }
+
+    if (op && opName !== 'EQU' && opName !== 'END') {
+      listing.push({ line: lineNo, address: info.address, bytes, source: lines[index] });
+    }
+  });
+
+  // Coalesce emitted bytes into contiguous segments
+  const segments: MemorySegment[] = [];
+  listing.forEach(({ address, bytes }) => {
+    if (bytes.length === 0) return;
+    const last = segments[segments.length - 1];
+    if (last && last.address + last.bytes.length === address) last.bytes.push(...bytes);
+    else segments.push({ address, bytes: [...bytes] });
+  });
+
+  if (entryPoint === undefined) {
+    entryPoint = firstOrigin ?? (segments.length > 0 ? segments[0].address : 0);
+  }
+
+  errors.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { segments, listing, symbols, entryPoint, errors };
+};
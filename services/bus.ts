@@ -0,0 +1,98 @@
+import { toHexString } from '../utils/formatters';
+
+/**
+ * A peripheral attached to the CPU, either in the I/O port space (IN/OUT) or
+ * memory-mapped. Offsets are relative to the start of the mapped range.
+ */
+export interface IODevice {
+  name: string;
+  read(offset: number): number;
+  write(offset: number, value: number): void;
+  tick?(cycles: number): void; // Called after every CPU step with the total T-states
+  reset?(): void;              // Called on CPU reset
+  saveState?(): unknown;       // Internal state as plain data, for saved sessions and step back
+  restoreState?(state: unknown): void;
+}
+
+export interface DeviceMapping {
+  device: IODevice;
+  start: number;
+  end: number; // Inclusive
+}
+
+const describe = (m: DeviceMapping, digits: number) =>
+  `${m.device.name} (${toHexString(m.start, digits)}H-${toHexString(m.end, digits)}H)`;
+
+/** Routes port and memory accesses to attached devices. */
+export class IOBus {
+  private portMappings: DeviceMapping[] = [];
+  private memoryMappings: DeviceMapping[] = [];
+  private portTable: (DeviceMapping | undefined)[] = new Array(256);
+  private devices: IODevice[] = []; // Unique attached devices, for tick/reset
+  private clocked: IODevice[] = [];
+
+  /** Attaches a device to `count` ports from `start`. Returns a function that detaches it. */
+  public mapPorts(device: IODevice, start: number, count: number): () => void {
+    const mapping = this.addMapping(this.portMappings, device, start, count, 0xFF, 2);
+    for (let p = mapping.start; p <= mapping.end; p++) this.portTable[p] = mapping;
+    return () => {
+      this.portMappings = this.portMappings.filter(m => m !== mapping);
+      for (let p = mapping.start; p <= mapping.end; p++) {
+        if (this.portTable[p] === mapping) this.portTable[p] = undefined;
+      }
+      this.refreshDevices();
+    };
+  }
+
+  /** Attaches a device to `count` memory addresses from `start`. Returns a function that detaches it. */
+  public mapMemory(device: IODevice, start: number, count: number): () => void {
+    const mapping = this.addMapping(this.memoryMappings, device, start, count, 0xFFFF, 4);
+    return () => {
+      this.memoryMappings = this.memoryMappings.filter(m => m !== mapping);
+      this.refreshDevices();
+    };
+  }
+
+  private addMapping(list: DeviceMapping[], device: IODevice, start: number, count: number, limit: number, digits: number): DeviceMapping {
+    const mapping: DeviceMapping = { device, start, end: start + count - 1 };
+    if (count < 1 || start < 0 || mapping.end > limit) {
+      throw new Error(`Invalid range for ${device.name}: ${toHexString(start, digits)}H, ${count} locations`);
+    }
+    const clash = list.find(m => m.start <= mapping.end && mapping.start <= m.end);
+    if (clash) throw new Error(`${describe(mapping, digits)} overlaps ${describe(clash, digits)}`);
+    list.push(mapping);
+    this.refreshDevices();
+    return mapping;
+  }
+
+  private refreshDevices(): void {
+    this.devices = [...new Set([...this.portMappings, ...this.memoryMappings].map(m => m.device))];
+    this.clocked = this.devices.filter(device => device.tick);
+  }
+
+  public findPort(port: number): DeviceMapping | undefined {
+    return this.portTable[port & 0xFF];
+  }
+
+  public findMemory(address: number): DeviceMapping | undefined {
+    if (this.memoryMappings.length === 0) return undefined;
+    return this.memoryMappings.find(m => address >= m.start && address <= m.end);
+  }
+
+  public get mappings(): { ports: DeviceMapping[]; memory: DeviceMapping[] } {
+    return { ports: [...this.portMappings], memory: [...this.memoryMappings] };
+  }
+
+  /** Attached devices that run from the CPU clock. */
+  public get clockedDevices(): IODevice[] {
+    return this.clocked;
+  }
+
+  public tick(cycles: number): void {
+    for (const device of this.clocked) device.tick!(cycles);
+  }
+
+  public reset(): void {
+    for (const device of this.devices) device.reset?.();
+  }
+}
@@ -0,0 +1,182 @@
+// Web Worker that runs the CPU off the main thread, so a program that never
+// halts cannot freeze the page. See workerProtocol.ts for the messages.
+
+import { CPU8085 } from './8085';
+import { Debugger } from './debugger';
+import { MemoryMap } from './memoryMap';
+import { monitorReturn } from './monitor';
+import { ExecutionScheduler, FrameClock } from './scheduler';
+import { Breakpoint, Watchpoint } from '../types';
+import { MachineConfig, StopReason, WorkerCommand, WorkerResponse, WorkerSnapshot, applyMachineState, captureMachineState, needsHost } from './workerProtocol';
+
+// The parts of the worker global scope used here; the project's type library is DOM only
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerCommand>) => void) | null;
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+  setTimeout(callback: () => void, ms: number): number;
+  clearTimeout(id: number): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// No frames to draw here, so slices run back to back with a yield between
+// them for incoming commands
+const sliceClock: FrameClock = {
+  request: callback => scope.setTimeout(callback, 0),
+  cancel: id => scope.clearTimeout(id),
+  now: () => performance.now(),
+};
+
+let cpu: CPU8085;
+let debuggerService: Debugger;
+let scheduler: ExecutionScheduler;
+let shared = false;
+let config: MachineConfig | null = null;
+let breakpoints: Breakpoint[] = [];
+let watchpoints: Watchpoint[] = [];
+let runId: number | null = null;
+let stopSignal: Int32Array | null = null;
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => scope.postMessage(message, transfer);
+
+// A new CPU, with the debugger and scheduler that hold on to it
+const createMachine = (memory?: Uint8Array) => {
+  cpu = new CPU8085(memory);
+  debuggerService = new Debugger(cpu);
+  debuggerService.setBreakpoints(breakpoints);
+  debuggerService.setWatchpoints(watchpoints);
+  scheduler = new ExecutionScheduler(cpu, { step: runStep, refresh: reportProgress }, sliceClock);
+};
+
+const takeSnapshot = (): WorkerSnapshot => ({
+  state: captureMachineState(cpu),
+  memory: shared ? undefined : cpu.memory.slice(),
+  history: cpu.getHistory(),
+});
+
+const transferables = (snapshot: WorkerSnapshot): Transferable[] =>
+  snapshot.memory ? [snapshot.memory.buffer, snapshot.state.ioPorts.buffer] : [snapshot.state.ioPorts.buffer];
+
+// Runs one instruction the way the app's run loop does. Returns why to stop, or null to go on.
+const stepOnce = (): StopReason | null => {
+  if (stopSignal && Atomics.load(stopSignal, 0) !== 0) return { kind: 'paused' };
+  // HLT with interrupts enabled waits for an interrupt instead of stopping
+  if (cpu.halted && !cpu.canWakeFromHalt()) return { kind: 'halted' };
+  if (config && needsHost(cpu, config)) return { kind: 'host' };
+  debuggerService.beginStep();
+  cpu.step();
+  const reason = debuggerService.check() ?? monitorReturn(cpu);
+  return reason ? { kind: 'break', reason } : null;
+};
+
+const finishRun = (reason: StopReason) => {
+  const id = runId;
+  runId = null;
+  stopSignal = null;
+  debuggerService.setRunTarget(null);
+  scheduler.stop();
+  if (id === null) return;
+  const snapshot = takeSnapshot();
+  post({ type: 'stopped', id, reason, snapshot }, transferables(snapshot));
+};
+
+function runStep(): boolean {
+  const reason = stepOnce();
+  if (!reason) return true;
+  finishRun(reason);
+  return false;
+}
+
+function reportProgress(): void {
+  const state = captureMachineState(cpu);
+  const memory = shared ? undefined : cpu.memory.slice();
+  post({ type: 'progress', state, effectiveHz: scheduler.effectiveHz, memory },
+    memory ? [memory.buffer, state.ioPorts.buffer] : [state.ioPorts.buffer]);
+}
+
+const handle = (command: WorkerCommand) => {
+  switch (command.type) {
+    case 'load': {
+      if (runId !== null) throw new Error('Cannot load while running');
+      if (command.memory instanceof SharedArrayBuffer) {
+        if (!shared || cpu.memory.buffer !== command.memory) createMachine(new Uint8Array(command.memory));
+        shared = true;
+      } else if (command.memory) {
+        if (shared) createMachine();
+        shared = false;
+        cpu.memory.set(command.memory);
+      }
+      config = command.config;
+      cpu.memoryMap = new MemoryMap(config.memoryRegions);
+      cpu.undocumented = config.undocumented;
+      cpu.daaMode = config.daaMode;
+      cpu.clockHz = config.clockHz;
+      cpu.historyLimit = config.historyLimit;
+      applyMachineState(cpu, command.state);
+      cpu.fault = null;
+      cpu.clearHistory();
+      post({ type: 'done', id: command.id });
+      break;
+    }
+    case 'step': {
+      if (runId !== null) throw new Error('Cannot step while running');
+      let reason: StopReason | null = null;
+      for (let i = 0; i < command.count && !reason; i++) reason = stepOnce();
+      const snapshot = takeSnapshot();
+      post({ type: 'stopped', id: command.id, reason: reason ?? { kind: 'stepped' }, snapshot }, transferables(snapshot));
+      break;
+    }
+    case 'run':
+      if (runId !== null) throw new Error('Already running');
+      runId = command.id;
+      stopSignal = command.stopSignal ? new Int32Array(command.stopSignal) : null;
+      debuggerService.setRunTarget(command.target ?? null);
+      scheduler.speed = command.speed;
+      scheduler.start();
+      break;
+    case 'pause':
+      if (runId !== null) finishRun({ kind: 'paused' });
+      post({ type: 'done', id: command.id });
+      break;
+    case 'setSpeed':
+      scheduler.speed = command.speed;
+      post({ type: 'done', id: command.id });
+      break;
+    case 'setBreakpoints':
+      breakpoints = command.breakpoints;
+      watchpoints = command.watchpoints;
+      debuggerService.setBreakpoints(breakpoints);
+      debuggerService.setWatchpoints(watchpoints);
+      post({ type: 'done', id: command.id });
+      break;
+    case 'setInterruptLine':
+      cpu.setInterruptLine(command.line, command.level);
+      post({ type: 'done', id: command.id });
+      break;
+    case 'raiseInterrupt':
+      cpu.raiseInterrupt(command.line, command.opcode);
+      post({ type: 'done', id: command.id });
+      break;
+    case 'readMemory': {
+      const bytes = new Uint8Array(command.length);
+      for (let i = 0; i < command.length; i++) bytes[i] = cpu.memory[(command.start + i) & 0xFFFF];
+      post({ type: 'memory', id: command.id, start: command.start, bytes }, [bytes.buffer]);
+      break;
+    }
+    case 'snapshot': {
+      const snapshot = takeSnapshot();
+      post({ type: 'snapshot', id: command.id, snapshot }, transferables(snapshot));
+      break;
+    }
+  }
+};
+
+createMachine();
+
+scope.onmessage = event => {
+  try {
+    handle(event.data);
+  } catch (e) {
+    post({ type: 'error', id: event.data.id, message: (e as Error).message });
+  }
+};
@@ -0,0 +1,143 @@
+// Main-thread side of the CPU worker: sends commands and resolves each with
+// the worker's response.
+
+import { CPU8085 } from './8085';
+import { RunSpeed } from './scheduler';
+import { Breakpoint, InterruptLine, RunTarget, Watchpoint } from '../types';
+import { MachineConfig, MachineState, StopReason, WorkerCommand, WorkerResponse, WorkerSnapshot, applyMachineState } from './workerProtocol';
+
+export interface RunResult {
+  reason: StopReason;
+  snapshot: WorkerSnapshot;
+}
+
+export interface WorkerProgress {
+  state: MachineState;
+  effectiveHz: number;
+  memory?: Uint8Array;
+}
+
+// Distributes WorkerCommand over its union members, so callers can leave out the id
+type CommandBody<T = WorkerCommand> = T extends WorkerCommand ? Omit<T, 'id'> : never;
+
+// SharedArrayBuffer needs a cross-origin isolated page (COOP/COEP headers)
+const canShare = (): boolean => typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated;
+
+/**
+ * Memory the main thread and the worker can share. Without it, memory is
+ * copied across whenever the worker starts, stops or reports progress.
+ */
+export const createSharedMemory = (): Uint8Array | undefined =>
+  canShare() ? new Uint8Array(new SharedArrayBuffer(0x10000)) : undefined;
+
+/** Takes over what the worker did: its state, its memory if not shared, and its history for step back. */
+export const applyWorkerSnapshot = (cpu: CPU8085, snapshot: WorkerSnapshot): void => {
+  applyMachineState(cpu, snapshot.state);
+  if (snapshot.memory) cpu.memory.set(snapshot.memory);
+  cpu.appendHistory(snapshot.history);
+  cpu.tickDevices();
+};
+
+export class CPUWorkerClient {
+  public onProgress: ((progress: WorkerProgress) => void) | null = null;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (response: WorkerResponse) => void; reject: (error: Error) => void }>();
+  private stopSignal: Int32Array | null;
+
+  /** Starts the worker, or returns null where workers are unavailable. */
+  public static create(): CPUWorkerClient | null {
+    if (typeof Worker === 'undefined') return null;
+    return new CPUWorkerClient(new Worker(new URL('./cpu.worker.ts', import.meta.url), { type: 'module' }));
+  }
+
+  constructor(private worker: Worker) {
+    this.stopSignal = canShare() ? new Int32Array(new SharedArrayBuffer(4)) : null;
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.receive(event.data);
+    worker.onerror = event => this.failAll(new Error(event.message || 'CPU worker failed'));
+  }
+
+  public load(config: MachineConfig, state: MachineState, memory?: Uint8Array | SharedArrayBuffer): Promise<void> {
+    return this.request({ type: 'load', config, state, memory }).then(() => undefined);
+  }
+
+  public async step(count: number = 1): Promise<RunResult> {
+    const response = await this.request({ type: 'step', count });
+    return this.asResult(response);
+  }
+
+  /** Runs until the program stops, reaches `target`, or `pause()` is called. */
+  public async run(speed: RunSpeed, target?: RunTarget): Promise<RunResult> {
+    if (this.stopSignal) Atomics.store(this.stopSignal, 0, 0);
+    const response = await this.request({ type: 'run', speed, stopSignal: this.stopSignal?.buffer as SharedArrayBuffer | undefined, target });
+    return this.asResult(response);
+  }
+
+  public pause(): Promise<void> {
+    // With shared memory the run sees this between two instructions, whatever it is doing
+    if (this.stopSignal) Atomics.store(this.stopSignal, 0, 1);
+    return this.request({ type: 'pause' }).then(() => undefined);
+  }
+
+  public setSpeed(speed: RunSpeed): Promise<void> {
+    return this.request({ type: 'setSpeed', speed }).then(() => undefined);
+  }
+
+  public setBreakpoints(breakpoints: Breakpoint[], watchpoints: Watchpoint[]): Promise<void> {
+    return this.request({ type: 'setBreakpoints', breakpoints, watchpoints }).then(() => undefined);
+  }
+
+  public setInterruptLine(line: InterruptLine, level: boolean): Promise<void> {
+    return this.request({ type: 'setInterruptLine', line, level }).then(() => undefined);
+  }
+
+  public raiseInterrupt(line: InterruptLine, opcode: number = 0xFF): Promise<void> {
+    return this.request({ type: 'raiseInterrupt', line, opcode }).then(() => undefined);
+  }
+
+  public async readMemory(start: number, length: number): Promise<Uint8Array> {
+    const response = await this.request({ type: 'readMemory', start, length });
+    if (response.type !== 'memory') throw new Error(`Unexpected '${response.type}' response to readMemory`);
+    return response.bytes;
+  }
+
+  public async snapshot(): Promise<WorkerSnapshot> {
+    const response = await this.request({ type: 'snapshot' });
+    if (response.type !== 'snapshot') throw new Error(`Unexpected '${response.type}' response to snapshot`);
+    return response.snapshot;
+  }
+
+  public terminate(): void {
+    this.worker.terminate();
+    this.failAll(new Error('CPU worker terminated'));
+  }
+
+  private request(body: CommandBody): Promise<WorkerResponse> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ ...body, id } as WorkerCommand);
+    });
+  }
+
+  private receive(response: WorkerResponse): void {
+    if (response.type === 'progress') {
+      this.onProgress?.(response);
+      return;
+    }
+    const waiter = this.pending.get(response.id);
+    if (!waiter) return;
+    this.pending.delete(response.id);
+    if (response.type === 'error') waiter.reject(new Error(response.message));
+    else waiter.resolve(response);
+  }
+
+  private asResult(response: WorkerResponse): RunResult {
+    if (response.type !== 'stopped') throw new Error(`Unexpected '${response.type}' response to a run`);
+    return { reason: response.reason, snapshot: response.snapshot };
+  }
+
+  private failAll(error: Error): void {
+    this.pending.forEach(waiter => waiter.reject(error));
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { CPU8085 } from './8085';
+import { Debugger, stepOutTarget, stepOverTarget } from './debugger';
+
+// Steps like the app's run loop until the debugger reports a stop, or `limit` steps pass
+const run = (cpu: CPU8085, debuggerService: Debugger, limit = 100) => {
+  for (let i = 0; i < limit && !cpu.halted; i++) {
+    debuggerService.beginStep();
+    cpu.step();
+    const reason = debuggerService.check();
+    if (reason) return reason;
+  }
+  return null;
+};
+
+const load = (cpu: CPU8085, address: number, bytes: number[]) => {
+  cpu.memory.set(bytes, address);
+  cpu.registers.PC = address;
+};
+
+describe('breakpoints', () => {
+  it('stops when the condition holds', () => {
+    const cpu = new CPU8085();
+    const debuggerService = new Debugger(cpu);
+    load(cpu, 0x2000, [0x3C, 0xC3, 0x00, 0x20]); // INR A; JMP 2000H
+    debuggerService.setBreakpoints([{ address: 0x2000, condition: 'A == 3', enabled: true }]);
+    expect(run(cpu, debuggerService)?.kind).toBe('breakpoint');
+    expect(cpu.registers.A).toBe(3);
+  });
+
+  it('leaves out a breakpoint whose condition does not compile', () => {
+    const cpu = new CPU8085();
+    const debuggerService = new Debugger(cpu);
+    load(cpu, 0x2000, [0x00, 0x00, 0x76]); // NOP; NOP; HLT
+    debuggerService.setBreakpoints([{ address: 0x2001, condition: 'A ==', enabled: true }]);
+    expect(run(cpu, debuggerService)).toBeNull();
+    expect(cpu.halted).toBe(true);
+  });
+});
+
+describe('run targets', () => {
+  // 2000: CALL 2010H; HLT. 2010: CALL 2020H; RET. 2020: NOP; RET
+  const program = (cpu: CPU8085, sp: number) => {
+    load(cpu, 0x2010, [0xCD, 0x20, 0x20, 0xC9]);
+    load(cpu, 0x2020, [0x00, 0xC9]);
+    load(cpu, 0x2000, [0xCD, 0x10, 0x20, 0x76]);
+    cpu.registers.SP = sp;
+  };
+
+  it('steps over a call to the instruction after it', () => {
+    const cpu = new CPU8085();
+    const debuggerService = new Debugger(cpu);
+    program(cpu, 0x3000);
+    debuggerService.setRunTarget(stepOverTarget(cpu));
+    expect(run(cpu, debuggerService)?.kind).toBe('target');
+    expect(cpu.registers.PC).toBe(0x2003);
+  });
+
+  it.each([0x3000, 0x0000, 0x0002])('steps out of the current subroutine with the stack at %i', sp => {
+    const cpu = new CPU8085();
+    const debuggerService = new Debugger(cpu);
+    program(cpu, sp);
+    cpu.step();
+    cpu.step(); // Into 2020H, two calls deep
+    expect(cpu.registers.PC).toBe(0x2020);
+    debuggerService.setRunTarget(stepOutTarget(cpu));
+    expect(run(cpu, debuggerService)?.kind).toBe('target');
+    expect(cpu.registers.PC).toBe(0x2013);
+    debuggerService.setRunTarget(stepOutTarget(cpu));
+    expect(run(cpu, debuggerService)?.kind).toBe('target');
+    expect(cpu.registers.PC).toBe(0x2003);
+    expect(cpu.registers.SP).toBe(sp);
+  });
+});
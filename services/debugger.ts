@@ -0,0 +1,271 @@
+import { CPU8085 } from './8085';
+import { opcodeInfo } from './opcodes';
+import { stackDepth } from './stackInspector';
+import { Breakpoint, BreakReason, MemoryAccess, MemoryFault, RunTarget, Watchpoint } from '../types';
+import { toHexString } from '../utils/formatters';
+
+export type Condition = (cpu: CPU8085) => number;
+
+type Token = { kind: 'num' | 'id' | 'op'; text: string; value: number; pos: number };
+
+const REGISTER_GETTERS: Record<string, (cpu: CPU8085) => number> = {
+  A: cpu => cpu.registers.A,
+  B: cpu => cpu.registers.B,
+  C: cpu => cpu.registers.C,
+  D: cpu => cpu.registers.D,
+  E: cpu => cpu.registers.E,
+  H: cpu => cpu.registers.H,
+  L: cpu => cpu.registers.L,
+  SP: cpu => cpu.registers.SP,
+  PC: cpu => cpu.registers.PC,
+  BC: cpu => (cpu.registers.B << 8) | cpu.registers.C,
+  DE: cpu => (cpu.registers.D << 8) | cpu.registers.E,
+  HL: cpu => (cpu.registers.H << 8) | cpu.registers.L,
+  M: cpu => cpu.memory[(cpu.registers.H << 8) | cpu.registers.L],
+  S: cpu => Number(cpu.flags.S),
+  Z: cpu => Number(cpu.flags.Z),
+  AC: cpu => Number(cpu.flags.AC),
+  P: cpu => Number(cpu.flags.P),
+  CY: cpu => Number(cpu.flags.CY),
+  V: cpu => Number(cpu.flags.V),
+  K: cpu => Number(cpu.flags.K),
+};
+
+// Lowest to highest precedence
+const BINARY_LEVELS: string[][] = [
+  ['||'],
+  ['&&'],
+  ['|'],
+  ['^'],
+  ['&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+];
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const rest = text.slice(i);
+    let m: RegExpExecArray | null;
+    if (/^\s/.test(rest)) { i++; continue; }
+    if ((m = /^(0x[0-9a-f]+|[0-9][0-9a-f]*h|[0-9]+)/i.exec(rest))) {
+      const t = m[0].toLowerCase();
+      const value = t.startsWith('0x') ? parseInt(t.slice(2), 16) : t.endsWith('h') ? parseInt(t.slice(0, -1), 16) : parseInt(t, 10);
+      tokens.push({ kind: 'num', text: m[0], value, pos: i });
+    } else if ((m = /^[A-Za-z]+/.exec(rest))) {
+      tokens.push({ kind: 'id', text: m[0].toUpperCase(), value: 0, pos: i });
+    } else if ((m = /^(\|\||&&|==|!=|<=|>=|[<>!+\-&|^()[\]])/.exec(rest))) {
+      tokens.push({ kind: 'op', text: m[0], value: 0, pos: i });
+    } else {
+      throw new Error(`Unexpected '${rest[0]}' at position ${i + 1}`);
+    }
+    i += m[0].length;
+  }
+  return tokens;
+};
+
+const applyBinary = (op: string, a: number, b: number): number => {
+  switch (op) {
+    case '||': return Number(a !== 0 || b !== 0);
+    case '&&': return Number(a !== 0 && b !== 0);
+    case '|': return a | b;
+    case '^': return a ^ b;
+    case '&': return a & b;
+    case '==': return Number(a === b);
+    case '!=': return Number(a !== b);
+    case '<': return Number(a < b);
+    case '<=': return Number(a <= b);
+    case '>': return Number(a > b);
+    case '>=': return Number(a >= b);
+    case '+': return (a + b) & 0xFFFF;
+    case '-': return (a - b) & 0xFFFF;
+    default: return 0;
+  }
+};
+
+/**
+ * Compiles a breakpoint condition such as `A == 0x3F && CY` or `[HL] != 0`.
+ * Registers, register pairs, flags and `[addr]` memory reads are available.
+ * Throws an Error describing the first syntax problem.
+ */
+export const compileCondition = (text: string): Condition => {
+  const tokens = tokenize(text);
+  let pos = 0;
+  const peek = () => tokens[pos];
+
+  const parseBinary = (level: number): Condition => {
+    if (level >= BINARY_LEVELS.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    while (peek() && peek().kind === 'op' && BINARY_LEVELS[level].includes(peek().text)) {
+      const op = tokens[pos++].text;
+      const lhs = left;
+      const rhs = parseBinary(level + 1);
+      left = cpu => applyBinary(op, lhs(cpu), rhs(cpu));
+    }
+    return left;
+  };
+
+  const parseUnary = (): Condition => {
+    const tok = peek();
+    if (tok && tok.kind === 'op' && tok.text === '!') {
+      pos++;
+      const operand = parseUnary();
+      return cpu => Number(operand(cpu) === 0);
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Condition => {
+    const tok = tokens[pos++];
+    if (!tok) throw new Error('Unexpected end of condition');
+    if (tok.kind === 'num') return () => tok.value;
+    if (tok.kind === 'id') {
+      const getter = REGISTER_GETTERS[tok.text];
+      if (!getter) throw new Error(`Unknown register or flag '${tok.text}'`);
+      return getter;
+    }
+    if (tok.text === '(' || tok.text === '[') {
+      const close = tok.text === '(' ? ')' : ']';
+      const inner = parseBinary(0);
+      const next = tokens[pos++];
+      if (!next || next.text !== close) throw new Error(`Missing '${close}'`);
+      return tok.text === '(' ? inner : cpu => cpu.memory[inner(cpu) & 0xFFFF];
+    }
+    throw new Error(`Unexpected '${tok.text}' at position ${tok.pos + 1}`);
+  };
+
+  if (tokens.length === 0) throw new Error('Empty condition');
+  const condition = parseBinary(0);
+  if (pos < tokens.length) throw new Error(`Unexpected '${tokens[pos].text}' at position ${tokens[pos].pos + 1}`);
+  return condition;
+};
+
+const describeRange = (wp: Watchpoint): string =>
+  wp.start === wp.end ? `${toHexString(wp.start, 4)}H` : `${toHexString(wp.start, 4)}H-${toHexString(wp.end, 4)}H`;
+
+/** `by` names what made the access, for faults that did not come from a running instruction. */
+export const describeFault = (fault: MemoryFault, by = `by instruction at ${toHexString(fault.pc, 4)}H`): string => {
+  const address = `${toHexString(fault.address, 4)}H`;
+  switch (fault.type) {
+    case 'rom-write': return `Write of ${toHexString(fault.value, 2)}H to ROM at ${address} ${by}`;
+    case 'unmapped-write': return `Write of ${toHexString(fault.value, 2)}H to unmapped address ${address} ${by}`;
+    case 'unmapped-read': return `Read from unmapped address ${address} ${by}`;
+    case 'unmapped-fetch': return `Instruction fetch from unmapped address ${address}`;
+  }
+};
+
+const RETURN_OPCODES = new Set([0xC9, 0xC0, 0xC8, 0xD0, 0xD8, 0xE0, 0xE8, 0xF0, 0xF8]);
+
+// CALL, Ccond and RST; RSTV too when the undocumented opcodes are on
+const isCall = (opcode: number, undocumented: boolean): boolean =>
+  opcode === 0xCD || (opcode & 0xC7) === 0xC4 || (opcode & 0xC7) === 0xC7 || (undocumented && opcode === 0xCB);
+
+/**
+ * Step Over target for the instruction at PC: the return address of a call, at
+ * the current stack depth. Null when the instruction is not a call, so a single
+ * step does the same.
+ */
+export const stepOverTarget = (cpu: CPU8085): RunTarget | null => {
+  const pc = cpu.registers.PC;
+  const opcode = cpu.memory[pc];
+  if (cpu.halted || !isCall(opcode, cpu.undocumented)) return null;
+  const size = opcodeInfo(opcode, cpu.undocumented)?.size ?? 1;
+  return { kind: 'address', address: (pc + size) & 0xFFFF, minSP: cpu.registers.SP };
+};
+
+/** Step Out target: the return that pops the current subroutine's frame. */
+export const stepOutTarget = (cpu: CPU8085): RunTarget => ({ kind: 'return', sp: cpu.registers.SP });
+
+/**
+ * Tracks breakpoints and watchpoints for a CPU, and reports memory faults the
+ * CPU raised. The run loop calls `beginStep()` before each instruction and
+ * `check()` after it.
+ */
+export class Debugger {
+  private breakpoints = new Map<number, { breakpoint: Breakpoint; condition?: Condition }>();
+  private watchpoints: Watchpoint[] = [];
+  private pendingHit: BreakReason | null = null;
+  private instructionAddress = 0;
+  private instructionSP = 0;
+  private runTarget: RunTarget | null = null;
+
+  constructor(private cpu: CPU8085) {
+    cpu.addMemoryListener(access => this.handleAccess(access));
+  }
+
+  /**
+   * Replaces the breakpoints. One whose condition does not compile is left out
+   * rather than guessed at; DebuggerPanel shows the compile error beside it.
+   */
+  public setBreakpoints(list: Breakpoint[]): void {
+    this.breakpoints.clear();
+    list.forEach(breakpoint => {
+      let condition: Condition | undefined;
+      if (breakpoint.condition && breakpoint.condition.trim()) {
+        try {
+          condition = compileCondition(breakpoint.condition);
+        } catch {
+          return;
+        }
+      }
+      this.breakpoints.set(breakpoint.address & 0xFFFF, { breakpoint, condition });
+    });
+  }
+
+  public setWatchpoints(list: Watchpoint[]): void {
+    this.watchpoints = [...list];
+  }
+
+  /** Sets where the current run should stop besides breakpoints, or clears it with null. */
+  public setRunTarget(target: RunTarget | null): void {
+    this.runTarget = target;
+  }
+
+  public beginStep(): void {
+    this.pendingHit = null;
+    this.instructionAddress = this.cpu.registers.PC;
+    this.instructionSP = this.cpu.registers.SP;
+  }
+
+  /** Returns why execution should pause after the last step, or null to keep going. */
+  public check(): BreakReason | null {
+    const fault = this.cpu.fault;
+    if (fault) return { kind: 'fault', address: fault.address, message: describeFault(fault) };
+    if (this.pendingHit) return this.pendingHit;
+
+    const pc = this.cpu.registers.PC;
+    if (this.runTarget && this.reachedTarget(this.runTarget)) {
+      return { kind: 'target', address: pc, message: `Stopped at ${toHexString(pc, 4)}H` };
+    }
+    const entry = this.breakpoints.get(pc);
+    if (!entry || !entry.breakpoint.enabled) return null;
+    if (entry.condition && entry.condition(this.cpu) === 0) return null;
+    const suffix = entry.condition ? ` (${entry.breakpoint.condition})` : '';
+    return { kind: 'breakpoint', address: pc, message: `Breakpoint at ${toHexString(pc, 4)}H${suffix}` };
+  }
+
+  private reachedTarget(target: RunTarget): boolean {
+    const { PC, SP } = this.cpu.registers;
+    // Stack positions are compared as signed 16-bit distances, so a stack that wraps past 0000H still works
+    if (target.kind === 'address') return PC === target.address && (target.minSP === undefined || stackDepth(target.minSP, SP) <= 0);
+    // A return that was taken popped two bytes; an interrupt taken instead would have pushed
+    return RETURN_OPCODES.has(this.cpu.memory[this.instructionAddress]) && SP === ((this.instructionSP + 2) & 0xFFFF) && stackDepth(target.sp, SP) < 0;
+  }
+
+  private handleAccess(access: MemoryAccess): void {
+    if (this.pendingHit) return;
+    const hit = this.watchpoints.find(wp =>
+      access.address >= wp.start && access.address <= wp.end &&
+      (wp.access === 'readwrite' || wp.access === access.type));
+    if (!hit) return;
+    const verb = access.type === 'write' ? 'Write' : 'Read';
+    this.pendingHit = {
+      kind: 'watchpoint',
+      address: access.address,
+      message: `${verb} of ${toHexString(access.value, 2)}H at ${toHexString(access.address, 4)}H ` +
+        `(watch ${describeRange(hit)}) by instruction at ${toHexString(this.instructionAddress, 4)}H`,
+    };
+  }
+}
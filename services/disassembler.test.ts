@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { assemble } from './assembler';
+import { disassemble, disassembleAt, formatHex } from './disassembler';
+import { opcodeInfo } from './opcodes';
+
+// 64K of memory with `bytes` at `address`
+const memoryWith = (address: number, bytes: number[]) => {
+  const memory = new Uint8Array(0x10000);
+  bytes.forEach((byte, i) => { memory[(address + i) & 0xFFFF] = byte; });
+  return memory;
+};
+
+describe('decoding', () => {
+  it('formats register, byte and word operands', () => {
+    const memory = memoryWith(0x2000, [0x3E, 0x25, 0x47, 0x21, 0x50, 0x20, 0x76]); // MVI A, 25H; MOV B, A; LXI H, 2050H; HLT
+    expect(disassemble(memory, 0x2000, 4)).toEqual([
+      { address: 0x2000, bytes: [0x3E, 0x25], text: 'MVI A, 25H', size: 2 },
+      { address: 0x2002, bytes: [0x47], text: 'MOV B, A', size: 1 },
+      { address: 0x2003, bytes: [0x21, 0x50, 0x20], text: 'LXI H, 2050H', size: 3 },
+      { address: 0x2006, bytes: [0x76], text: 'HLT', size: 1 },
+    ]);
+  });
+
+  it('puts a 0 in front of hex values that start with a letter', () => {
+    expect(formatHex(0xFF, 2)).toBe('0FFH');
+    expect(formatHex(0x9A, 2)).toBe('9AH');
+    expect(disassembleAt(memoryWith(0, [0xC3, 0x00, 0xA0]), 0).text).toBe('JMP 0A000H');
+  });
+
+  it('shows undocumented opcodes as data unless asked to decode them', () => {
+    const memory = memoryWith(0, [0x08, 0xDD, 0x34, 0x12]);
+    expect(disassembleAt(memory, 0).text).toBe('DB 08H');
+    expect(disassembleAt(memory, 0, true).text).toBe('DSUB');
+    expect(disassembleAt(memory, 1, true)).toMatchObject({ text: 'JNK 1234H', size: 3 });
+  });
+
+  it('wraps operand fetches and the next address past FFFFH', () => {
+    const memory = memoryWith(0xFFFF, [0xCD, 0x00, 0x30]); // CALL 3000H across the top of memory
+    const [call, next] = disassemble(memory, 0xFFFF, 2);
+    expect(call).toMatchObject({ address: 0xFFFF, bytes: [0xCD, 0x00, 0x30], text: 'CALL 3000H' });
+    expect(next.address).toBe(0x0002);
+  });
+});
+
+describe('round trip', () => {
+  const documented = Array.from({ length: 256 }, (_, opcode) => ({ opcode, hex: formatHex(opcode, 2) }))
+    .filter(({ opcode }) => opcodeInfo(opcode, false));
+
+  it.each(documented)('assembles the text for opcode $hex back to the same bytes', ({ opcode }) => {
+    const { bytes, text } = disassembleAt(memoryWith(0, [opcode, 0xBC, 0x9A]), 0);
+    const result = assemble(text);
+    expect(result.errors).toEqual([]);
+    expect(result.segments.flatMap(segment => segment.bytes)).toEqual(bytes);
+  });
+});
@@ -0,0 +1,47 @@
+import { opcodeInfo } from './opcodes';
+import { toHexString } from '../utils/formatters';
+
+export interface DisassembledInstruction {
+  address: number;
+  bytes: number[];
+  text: string; // e.g. 'MVI A, 25H'
+  size: number;
+}
+
+// Hex literal in assembler syntax; a leading 0 keeps values like 0FFH from reading as symbols.
+export const formatHex = (value: number, digits: number): string => {
+  const hex = toHexString(value, digits);
+  return /^[A-F]/.test(hex) ? `0${hex}H` : `${hex}H`;
+};
+
+/** Decodes the single instruction at `address`. Undocumented opcodes come out as `DB xxH` unless `undocumented` is set. */
+export const disassembleAt = (memory: ArrayLike<number>, address: number, undocumented = false): DisassembledInstruction => {
+  address &= 0xFFFF;
+  const opcode = memory[address];
+  const info = opcodeInfo(opcode, undocumented);
+  if (!info) {
+    return { address, bytes: [opcode], text: `DB ${formatHex(opcode, 2)}`, size: 1 };
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i < info.size; i++) bytes.push(memory[(address + i) & 0xFFFF]);
+
+  const operands = [...info.operands];
+  if (info.immediate === 'byte') operands.push(formatHex(bytes[1], 2));
+  if (info.immediate === 'word') operands.push(formatHex((bytes[2] << 8) | bytes[1], 4));
+
+  const text = operands.length > 0 ? `${info.mnemonic} ${operands.join(', ')}` : info.mnemonic;
+  return { address, bytes, text, size: info.size };
+};
+
+/** Decodes `count` consecutive instructions starting at `start`. */
+export const disassemble = (memory: ArrayLike<number>, start: number, count: number, undocumented = false): DisassembledInstruction[] => {
+  const result: DisassembledInstruction[] = [];
+  let address = start & 0xFFFF;
+  for (let i = 0; i < count; i++) {
+    const instruction = disassembleAt(memory, address, undocumented);
+    result.push(instruction);
+    address = (address + instruction.size) & 0xFFFF;
+  }
+  return result;
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { assemble } from './assembler';
+import { gradeProgram, runCase, validateSpec } from './grader';
+
+// Adds the bytes at 2050H and 2051H, stores the sum at 2052H and sends it to port 01H
+const { segments, entryPoint } = assemble(`
+      ORG 2000H
+      LDA 2050H
+      MOV B, A
+      LDA 2051H
+      ADD B
+      STA 2052H
+      OUT 01H
+      HLT`);
+
+describe('grading', () => {
+  it('passes a case whose expectations all hold', () => {
+    const [result] = gradeProgram(segments, entryPoint, validateSpec({
+      cases: [{
+        name: 'small sum',
+        setup: { memory: { '2050H': '12 34' } },
+        expect: { registers: { A: '46' }, flags: { CY: false }, memory: { '2052': 0x46 }, outputs: { '01': [0x46] }, maxCycles: 100 },
+      }],
+    }));
+    expect(result).toMatchObject({ name: 'small sum', passed: true, status: 'halted', diffs: [] });
+  });
+
+  it('lists each expectation that fails with what was expected and what happened', () => {
+    const result = runCase(segments, entryPoint, {
+      name: 'carry',
+      setup: { memory: { '2050': [0xF0, 0x20] } },
+      expect: { registers: { A: 0x10 }, flags: { CY: false }, outputs: { 1: '10 10' }, maxCycles: 10 },
+    });
+    expect(result.passed).toBe(false);
+    expect(result.diffs).toEqual([
+      { what: 'flag CY', expected: '0', actual: '1' },
+      { what: 'port 01H writes', expected: '10 10', actual: '10' },
+      { what: 'cycles', expected: '<= 10', actual: String(result.cycles) },
+    ]);
+  });
+
+  it('fails a program that does not reach HLT within the step limit', () => {
+    const loop = assemble('ORG 2000H\nJMP 2000H');
+    const result = runCase(loop.segments, loop.entryPoint, { name: 'loop', setup: { maxSteps: 50 }, expect: {} });
+    expect(result).toMatchObject({ passed: false, status: 'step-limit', steps: 50 });
+    expect(result.diffs).toEqual([{ what: 'stop', expected: 'HLT', actual: 'Step limit of 50 reached' }]);
+  });
+
+  it('feeds IN from the case inputs', () => {
+    const echo = assemble('ORG 2000H\nIN 05H\nOUT 06H\nHLT');
+    const result = runCase(echo.segments, echo.entryPoint, { name: 'echo', setup: { inputs: { '05': 'A5' } }, expect: { outputs: { '06': 'A5' } } });
+    expect(result.passed).toBe(true);
+  });
+
+  it('rejects a value that is out of range for its field', () => {
+    expect(() => runCase(segments, entryPoint, { name: 'bad', expect: { registers: { A: '100' } } }))
+      .toThrow("bad: register A: '100' is not a value from 0 to FFH");
+  });
+});
+
+describe('spec validation', () => {
+  const withCase = (c: object) => ({ cases: [{ name: 'c', expect: {}, ...c }] });
+
+  it('needs cases, each with a name and an expect section', () => {
+    expect(() => validateSpec({})).toThrow('Spec needs a non-empty cases list');
+    expect(() => validateSpec({ cases: [{ expect: {} }] })).toThrow('Case 1: needs a name');
+    expect(() => validateSpec({ cases: [{ name: 'c' }] })).toThrow('Case 1 (c): needs an expect section');
+  });
+
+  it('rejects unknown registers and flags, and flags that are not booleans', () => {
+    expect(() => validateSpec(withCase({ expect: { registers: { X: 1 } } }))).toThrow('Case 1 (c): unknown register X');
+    expect(() => validateSpec(withCase({ expect: { flags: { Q: true } } }))).toThrow('Case 1 (c): unknown flag Q');
+    expect(() => validateSpec(withCase({ setup: { flags: { Z: 1 } } }))).toThrow('Case 1 (c): flag Z must be true or false');
+  });
+
+  it.each([0, -5, 2.5, '100'])('rejects a step limit of %j', maxSteps => {
+    expect(() => validateSpec({ maxSteps, ...withCase({}) })).toThrow('Spec maxSteps must be a whole number above 0');
+    expect(() => validateSpec(withCase({ setup: { maxSteps } }))).toThrow('Case 1 (c): maxSteps must be a whole number above 0');
+    expect(() => validateSpec(withCase({ expect: { maxCycles: maxSteps } }))).toThrow('Case 1 (c): maxCycles must be a whole number above 0');
+  });
+});
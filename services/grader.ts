@@ -0,0 +1,200 @@
+// Declarative test specs for grading programs. A spec lists cases; each case
+// starts a fresh CPU with the program loaded, applies its setup, runs to HLT
+// and compares the final state against its expectations.
+//
+// Numbers in a spec may be JSON/YAML numbers (taken as they are) or strings,
+// which are always hex: "2050", "2050H" and "0x2050" are the same address.
+// Memory keys are addresses; memory values are a byte, a list of bytes or a
+// string of hex bytes such as "34 12".
+
+import { CPU8085 } from './8085';
+import { IODevice } from './bus';
+import { MemorySegment } from './assembler';
+import { runUntilHalt, RunStatus } from './runner';
+import { FlagName, RegisterName } from '../types';
+import { toHexString } from '../utils/formatters';
+
+type SpecNumber = number | string;
+type SpecBytes = SpecNumber | SpecNumber[];
+
+export interface GradeCaseSpec {
+  name: string;
+  setup?: {
+    registers?: Partial<Record<RegisterName, SpecNumber>>;
+    flags?: Partial<Record<FlagName, boolean>>;
+    memory?: Record<string, SpecBytes>;
+    inputs?: Record<string, SpecNumber>; // Value IN reads from each port
+    start?: SpecNumber;                  // Default: the program's entry point
+    maxSteps?: number;
+  };
+  expect: {
+    registers?: Partial<Record<RegisterName, SpecNumber>>;
+    flags?: Partial<Record<FlagName, boolean>>;
+    memory?: Record<string, SpecBytes>;
+    outputs?: Record<string, SpecBytes>; // Every byte OUT wrote to each port, in order
+    maxCycles?: number;                  // T-states
+    halted?: boolean;                    // Default true: the program must reach HLT
+  };
+}
+
+export interface GradeSpec {
+  name?: string;
+  program?: string; // Program file, relative to the spec
+  maxSteps?: number;
+  cases: GradeCaseSpec[];
+}
+
+export interface GradeDiff {
+  what: string;
+  expected: string;
+  actual: string;
+}
+
+export interface GradeCaseResult {
+  name: string;
+  passed: boolean;
+  status: RunStatus;
+  message: string;
+  steps: number;
+  cycles: number;
+  diffs: GradeDiff[];
+}
+
+const DEFAULT_MAX_STEPS = 100_000;
+const REGISTER_NAMES: RegisterName[] = ['A', 'B', 'C', 'D', 'E', 'H', 'L', 'SP', 'PC'];
+const FLAG_NAMES: FlagName[] = ['S', 'Z', 'AC', 'P', 'CY'];
+
+const parseNumber = (value: SpecNumber, what: string, max: number): number => {
+  let n: number;
+  if (typeof value === 'number') {
+    n = value;
+  } else {
+    const text = value.trim().replace(/^0x/i, '').replace(/h$/i, '');
+    n = /^[0-9a-f]+$/i.test(text) ? parseInt(text, 16) : NaN;
+  }
+  if (!Number.isInteger(n) || n < 0 || n > max) throw new Error(`${what}: '${value}' is not a value from 0 to ${toHexString(max, 2)}H`);
+  return n;
+};
+
+const parseBytes = (value: SpecBytes, what: string): number[] => {
+  const items = Array.isArray(value) ? value
+    : typeof value === 'string' ? value.trim().split(/[\s,]+/)
+    : [value];
+  return items.map(item => parseNumber(item, what, 0xFF));
+};
+
+const registerMax = (name: RegisterName) => name === 'SP' || name === 'PC' ? 0xFFFF : 0xFF;
+
+// A step or cycle limit: a whole number above zero, or left out
+const checkLimit = (value: unknown, what: string): void => {
+  if (value !== undefined && !(Number.isInteger(value) && (value as number) > 0)) {
+    throw new Error(`${what} must be a whole number above 0, not '${String(value)}'`);
+  }
+};
+
+const formatValue = (value: number, digits: number) => `${toHexString(value, digits)}H`;
+const formatBytes = (bytes: number[]) => bytes.length ? bytes.map(b => toHexString(b, 2)).join(' ') : '(none)';
+
+/** Checks a parsed spec's shape, throwing on the first problem so a bad spec fails before anything runs. */
+export const validateSpec = (data: unknown): GradeSpec => {
+  const spec = data as GradeSpec | null;
+  if (!spec || typeof spec !== 'object' || !Array.isArray(spec.cases) || spec.cases.length === 0) {
+    throw new Error('Spec needs a non-empty cases list');
+  }
+  checkLimit(spec.maxSteps, 'Spec maxSteps');
+  spec.cases.forEach((c, i) => {
+    const where = `Case ${i + 1}${c && c.name ? ` (${c.name})` : ''}`;
+    if (!c || typeof c !== 'object' || typeof c.name !== 'string') throw new Error(`${where}: needs a name`);
+    if (!c.expect || typeof c.expect !== 'object') throw new Error(`${where}: needs an expect section`);
+    const checkRegisters = (registers: object | undefined) => Object.keys(registers ?? {}).forEach(name => {
+      if (!REGISTER_NAMES.includes(name as RegisterName)) throw new Error(`${where}: unknown register ${name}`);
+    });
+    const checkFlags = (flags: object | undefined) => Object.entries(flags ?? {}).forEach(([name, value]) => {
+      if (!FLAG_NAMES.includes(name as FlagName)) throw new Error(`${where}: unknown flag ${name}`);
+      if (typeof value !== 'boolean') throw new Error(`${where}: flag ${name} must be true or false`);
+    });
+    checkRegisters(c.setup?.registers);
+    checkRegisters(c.expect.registers);
+    checkFlags(c.setup?.flags);
+    checkFlags(c.expect.flags);
+    checkLimit(c.setup?.maxSteps, `${where}: maxSteps`);
+    checkLimit(c.expect.maxCycles, `${where}: maxCycles`);
+  });
+  return spec;
+};
+
+// Stands in for every I/O port: IN reads the case's inputs, OUT writes are recorded
+class PortRecorder implements IODevice {
+  public name = 'Grader ports';
+  public writes = new Map<number, number[]>();
+
+  constructor(private inputs: Map<number, number>) {}
+
+  public read(offset: number): number {
+    return this.inputs.get(offset) ?? 0xFF;
+  }
+
+  public write(offset: number, value: number): void {
+    this.writes.set(offset, [...(this.writes.get(offset) ?? []), value]);
+  }
+}
+
+/** Runs one case against a program image. Throws on a malformed setup or expectation. */
+export const runCase = (segments: MemorySegment[], entryPoint: number, spec: GradeCaseSpec, defaultMaxSteps = DEFAULT_MAX_STEPS): GradeCaseResult => {
+  const where = spec.name;
+  const { setup = {}, expect } = spec;
+  const cpu = new CPU8085();
+  cpu.historyLimit = 0;
+  segments.forEach(segment => cpu.memory.set(segment.bytes, segment.address));
+
+  const inputs = new Map(Object.entries(setup.inputs ?? {}).map(([port, value]) =>
+    [parseNumber(port, `${where}: input port`, 0xFF), parseNumber(value, `${where}: input ${port}`, 0xFF)]));
+  const ports = new PortRecorder(inputs);
+  cpu.bus.mapPorts(ports, 0x00, 0x100);
+
+  Object.entries(setup.registers ?? {}).forEach(([name, value]) => {
+    const register = name as RegisterName;
+    cpu.registers[register] = parseNumber(value!, `${where}: register ${name}`, registerMax(register));
+  });
+  Object.entries(setup.flags ?? {}).forEach(([name, value]) => { cpu.flags[name as FlagName] = value!; });
+  Object.entries(setup.memory ?? {}).forEach(([address, value]) =>
+    cpu.memory.set(parseBytes(value, `${where}: memory ${address}`), parseNumber(address, `${where}: memory address`, 0xFFFF)));
+  cpu.registers.PC = setup.start !== undefined ? parseNumber(setup.start, `${where}: start`, 0xFFFF) : entryPoint;
+
+  const run = runUntilHalt(cpu, { maxSteps: setup.maxSteps ?? defaultMaxSteps });
+  const diffs: GradeDiff[] = [];
+  const compare = (what: string, expected: string, actual: string) => {
+    if (expected !== actual) diffs.push({ what, expected, actual });
+  };
+
+  if (expect.halted ?? true) compare('stop', 'HLT', run.status === 'halted' ? 'HLT' : run.message);
+  Object.entries(expect.registers ?? {}).forEach(([name, value]) => {
+    const register = name as RegisterName;
+    const digits = registerMax(register) > 0xFF ? 4 : 2;
+    compare(`register ${name}`, formatValue(parseNumber(value!, `${where}: register ${name}`, registerMax(register)), digits),
+      formatValue(cpu.registers[register], digits));
+  });
+  Object.entries(expect.flags ?? {}).forEach(([name, value]) =>
+    compare(`flag ${name}`, value ? '1' : '0', cpu.flags[name as FlagName] ? '1' : '0'));
+  Object.entries(expect.memory ?? {}).forEach(([key, value]) => {
+    const address = parseNumber(key, `${where}: memory address`, 0xFFFF);
+    parseBytes(value, `${where}: memory ${key}`).forEach((byte, i) => {
+      const at = (address + i) & 0xFFFF;
+      compare(`memory ${formatValue(at, 4)}`, formatValue(byte, 2), formatValue(cpu.memory[at], 2));
+    });
+  });
+  Object.entries(expect.outputs ?? {}).forEach(([key, value]) => {
+    const port = parseNumber(key, `${where}: output port`, 0xFF);
+    compare(`port ${formatValue(port, 2)} writes`, formatBytes(parseBytes(value, `${where}: output ${key}`)),
+      formatBytes(ports.writes.get(port) ?? []));
+  });
+  if (expect.maxCycles !== undefined && run.cycles > expect.maxCycles) {
+    diffs.push({ what: 'cycles', expected: `<= ${expect.maxCycles}`, actual: String(run.cycles) });
+  }
+
+  return { name: spec.name, passed: diffs.length === 0, status: run.status, message: run.message, steps: run.steps, cycles: run.cycles, diffs };
+};
+
+/** Runs every case in a spec. */
+export const gradeProgram = (segments: MemorySegment[], entryPoint: number, spec: GradeSpec): GradeCaseResult[] =>
+  spec.cases.map(c => runCase(segments, entryPoint, c, spec.maxSteps));
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { binarySegment, parseIntelHex, toIntelHex } from './intelHex';
+
+describe('Intel HEX', () => {
+  it('formats records with checksums and an end-of-file record', () => {
+    const memory = new Uint8Array(0x10000);
+    memory.set([0x3E, 0x25, 0x76], 0x2000);
+    expect(toIntelHex(memory, 0x2000, 0x2002)).toBe(':032000003E257604\n:00000001FF\n');
+  });
+
+  it('reads back what it writes, joining adjacent records', () => {
+    const memory = new Uint8Array(0x10000);
+    for (let i = 0; i < 40; i++) memory[0x8000 + i] = i * 7;
+    const segments = parseIntelHex(toIntelHex(memory, 0x8000, 0x8027));
+    expect(segments).toEqual([{ address: 0x8000, bytes: Array.from(memory.slice(0x8000, 0x8028)) }]);
+  });
+
+  it('keeps separate segments apart and stops at the end-of-file record', () => {
+    const text = ':0120000001DE\n:0130000002CD\n:00000001FF\n:01400000FFC0\n';
+    expect(parseIntelHex(text)).toEqual([{ address: 0x2000, bytes: [0x01] }, { address: 0x3000, bytes: [0x02] }]);
+  });
+
+  it('reports a bad checksum with the line and the expected value', () => {
+    expect(() => parseIntelHex(':0120000001DF\n:00000001FF'))
+      .toThrow('Line 1: checksum DFH, expected DEH');
+  });
+
+  it('rejects malformed records', () => {
+    expect(() => parseIntelHex('0120000001DE')).toThrow("Line 1: record does not start with ':'");
+    expect(() => parseIntelHex(':012000')).toThrow('Line 1: malformed record');
+    expect(() => parseIntelHex(':01200000XYDE')).toThrow('Line 1: malformed record');
+    expect(() => parseIntelHex(':0220000001DD')).toThrow('Line 1: length field says 2 data bytes, record has 1');
+    expect(() => parseIntelHex(':020000040000FA\n:00000001FF')).toThrow('record type 04 is not supported');
+  });
+
+  it('needs an end-of-file record', () => {
+    expect(() => parseIntelHex(':0120000001DE')).toThrow('No end-of-file record');
+  });
+});
+
+describe('raw binary', () => {
+  it('places the bytes at the base address', () => {
+    expect(binarySegment(new Uint8Array([1, 2]), 0x2000)).toEqual({ address: 0x2000, bytes: [1, 2] });
+  });
+
+  it('refuses an image that runs past FFFFH', () => {
+    expect(() => binarySegment(new Uint8Array(3), 0xFFFE)).toThrow('3 bytes at FFFEH run past FFFFH');
+  });
+});
@@ -0,0 +1,77 @@
+// Intel HEX and raw binary images. Only the record types an 8080/8085 tool
+// chain emits for a 64KB space are accepted: 00 (data) and 01 (end of file).
+
+import { MemorySegment } from './assembler';
+import { toHexString } from '../utils/formatters';
+
+const DATA_RECORD = 0x00;
+const EOF_RECORD = 0x01;
+
+/**
+ * Parses Intel HEX text into contiguous segments, throwing on the first bad
+ * record with its line number.
+ */
+export const parseIntelHex = (text: string): MemorySegment[] => {
+  const segments: MemorySegment[] = [];
+  const lines = text.split(/\r?\n/);
+  let sawEof = false;
+
+  for (let i = 0; i < lines.length && !sawEof; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    const fail = (message: string) => new Error(`Line ${i + 1}: ${message}`);
+    if (line[0] !== ':') throw fail("record does not start with ':'");
+    const hex = line.slice(1);
+    if (hex.length < 10 || hex.length % 2 !== 0 || !/^[0-9A-Fa-f]+$/.test(hex)) throw fail('malformed record');
+
+    const bytes = hex.match(/../g)!.map(pair => parseInt(pair, 16));
+    const [length, addressHigh, addressLow, type] = bytes;
+    if (bytes.length !== length + 5) throw fail(`length field says ${length} data bytes, record has ${bytes.length - 5}`);
+    const sum = bytes.reduce((a, b) => a + b, 0) & 0xFF;
+    if (sum !== 0) {
+      const expected = (0x100 - (bytes.slice(0, -1).reduce((a, b) => a + b, 0) & 0xFF)) & 0xFF;
+      throw fail(`checksum ${toHexString(bytes[bytes.length - 1], 2)}H, expected ${toHexString(expected, 2)}H`);
+    }
+
+    const address = (addressHigh << 8) | addressLow;
+    const data = bytes.slice(4, 4 + length);
+    if (type === EOF_RECORD) {
+      sawEof = true;
+    } else if (type === DATA_RECORD) {
+      if (address + length > 0x10000) throw fail(`data runs past FFFFH`);
+      const last = segments[segments.length - 1];
+      if (last && last.address + last.bytes.length === address) last.bytes.push(...data);
+      else if (length > 0) segments.push({ address, bytes: data });
+    } else {
+      throw fail(`record type ${toHexString(type, 2)} is not supported (only 00 data and 01 end of file)`);
+    }
+  }
+
+  if (!sawEof) throw new Error('No end-of-file record');
+  return segments;
+};
+
+/** Formats `start`-`end` (inclusive) of memory as Intel HEX. */
+export const toIntelHex = (memory: ArrayLike<number>, start: number, end: number, bytesPerRecord = 16): string => {
+  const records: string[] = [];
+  const record = (address: number, type: number, data: number[]) => {
+    const bytes = [data.length, address >> 8, address & 0xFF, type, ...data];
+    const checksum = (0x100 - (bytes.reduce((a, b) => a + b, 0) & 0xFF)) & 0xFF;
+    records.push(':' + [...bytes, checksum].map(b => toHexString(b, 2)).join(''));
+  };
+  for (let address = start; address <= end; address += bytesPerRecord) {
+    const data: number[] = [];
+    for (let a = address; a <= Math.min(end, address + bytesPerRecord - 1); a++) data.push(memory[a]);
+    record(address, DATA_RECORD, data);
+  }
+  record(0, EOF_RECORD, []);
+  return records.join('\n') + '\n';
+};
+
+/** Places a raw binary image at `base`, throwing if it would run past FFFFH. */
+export const binarySegment = (bytes: Uint8Array, base: number): MemorySegment => {
+  if (base + bytes.length > 0x10000) {
+    throw new Error(`${bytes.length} bytes at ${toHexString(base, 4)}H run past FFFFH`);
+  }
+  return { address: base, bytes: Array.from(bytes) };
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { KDC8279 } from './kdc8279';
+
+const DATA = 0;
+const COMMAND = 1;
+
+describe('display', () => {
+  it('writes display RAM from an address with auto-increment', () => {
+    const kdc = new KDC8279();
+    kdc.write(COMMAND, 0x00); // 8 digits, left entry
+    kdc.write(COMMAND, 0x96); // Write from digit 6, auto-increment
+    kdc.write(DATA, 0x11);
+    kdc.write(DATA, 0x22);
+    kdc.write(DATA, 0x33); // Wraps to digit 0
+    expect(kdc.getState().displayRam.slice(0, 8)).toEqual([0x33, 0, 0, 0, 0, 0, 0x11, 0x22]);
+  });
+
+  it('shifts characters in from the right in right entry mode', () => {
+    const kdc = new KDC8279();
+    kdc.write(COMMAND, 0x10); // 8 digits, right entry
+    [1, 2, 3].forEach(byte => kdc.write(DATA, byte));
+    expect(kdc.getState().segments).toEqual([0, 0, 0, 0, 0, 1, 2, 3]);
+  });
+
+  it('keeps an inhibited nibble and shows blanked ones as the clear code', () => {
+    const kdc = new KDC8279();
+    kdc.write(COMMAND, 0x00);
+    kdc.write(COMMAND, 0x80);
+    kdc.write(DATA, 0xAB);
+    kdc.write(COMMAND, 0xA8); // Inhibit writes to the A (high) nibble
+    kdc.write(COMMAND, 0x80);
+    kdc.write(DATA, 0xCD);
+    expect(kdc.getState().displayRam[0]).toBe(0xAD);
+    kdc.write(COMMAND, 0xA1); // Blank the B nibble
+    expect(kdc.getState().segments[0]).toBe(0xA0);
+  });
+
+  it('reads display RAM back', () => {
+    const kdc = new KDC8279();
+    kdc.write(COMMAND, 0x90);
+    kdc.write(DATA, 0x5A);
+    kdc.write(DATA, 0xA5);
+    kdc.write(COMMAND, 0x70); // Read display RAM from digit 0, auto-increment
+    expect([kdc.read(DATA), kdc.read(DATA)]).toEqual([0x5A, 0xA5]);
+  });
+
+  it('clears the display with the selected code', () => {
+    const kdc = new KDC8279();
+    kdc.write(COMMAND, 0x90);
+    kdc.write(DATA, 0x12);
+    kdc.write(COMMAND, 0xDC); // Clear display to FFH
+    expect(kdc.getState().displayRam.every(byte => byte === 0xFF)).toBe(true);
+  });
+});
+
+describe('keyboard', () => {
+  it('queues keys in the FIFO, counts them in the status and raises IRQ', () => {
+    const kdc = new KDC8279();
+    const irq: boolean[] = [];
+    kdc.onIrqChange = level => irq.push(level);
+    kdc.pressKey(0x05);
+    kdc.pressKey(0x12);
+    expect(kdc.read(COMMAND) & 0x07).toBe(2);
+    kdc.write(COMMAND, 0x40); // Read FIFO
+    expect([kdc.read(DATA), kdc.read(DATA)]).toEqual([0x05, 0x12]);
+    expect(irq).toEqual([true, false]);
+  });
+
+  it('flags overrun past 8 keys and underrun on an empty read', () => {
+    const kdc = new KDC8279();
+    for (let key = 0; key < 9; key++) kdc.pressKey(key);
+    expect(kdc.read(COMMAND)).toBe(0x20 | 0x08);
+    kdc.write(COMMAND, 0xC2); // Clear FIFO status
+    expect(kdc.read(COMMAND)).toBe(0x00);
+    kdc.write(COMMAND, 0x40);
+    kdc.read(DATA);
+    expect(kdc.read(COMMAND) & 0x10).toBe(0x10);
+  });
+
+  it('sets sensor RAM bits in sensor matrix mode until the row is read', () => {
+    const kdc = new KDC8279();
+    kdc.write(COMMAND, 0x04); // Encoded sensor matrix
+    kdc.pressKey(0x1A); // Row 3, column 2
+    expect(kdc.getState().irq).toBe(true);
+    expect(kdc.read(COMMAND) & 0x40).toBe(0x40);
+    kdc.write(COMMAND, 0x43); // Read sensor row 3
+    expect(kdc.read(DATA)).toBe(0x04);
+    expect(kdc.getState().irq).toBe(false);
+  });
+
+  it('ignores keys on scan lines 4-7 with decoded scan', () => {
+    const kdc = new KDC8279();
+    kdc.write(COMMAND, 0x01); // Decoded scan keyboard
+    kdc.pressKey(0x20);
+    expect(kdc.getState().fifo).toEqual([]);
+    expect(kdc.getState().digits).toBe(4);
+  });
+});
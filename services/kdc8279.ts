@@ -0,0 +1,301 @@
+// Intel 8279 keyboard/display controller. Offset 0 is the data port and
+// offset 1 the command/status port (A0 = 1). Key scanning and debounce take
+// no time here: a key press goes straight into the FIFO.
+
+import { IODevice } from './bus';
+
+export interface KDCState {
+  displayMode: number;   // DD: 0 8-char left, 1 16-char left, 2 8-char right, 3 16-char right entry
+  keyboardMode: number;  // KKK: 0-3 scanned keyboard, 4-5 sensor matrix, 6-7 strobed input
+  decodedScan: boolean;  // Decoded scan drives only 4 scan lines
+  prescaler: number;
+  digits: number;        // Digits scanned
+  displayRam: number[];
+  segments: number[];    // Segment outputs per digit after blanking (A3-A0 = D7-D4, B3-B0 = D3-D0)
+  fifo: number[];
+  sensorRam: number[];
+  status: number;
+  irq: boolean;
+}
+
+// Segment patterns for hex digits, bit 0 = a ... bit 6 = g, bit 7 = decimal point
+export const SEGMENT_PATTERNS = [
+  0x3F, 0x06, 0x5B, 0x4F, 0x66, 0x6D, 0x7D, 0x07,
+  0x7F, 0x6F, 0x77, 0x7C, 0x39, 0x5E, 0x79, 0x71,
+];
+
+// Key codes (SL2-0 RL2-0) for the trainer keypad: hex keys on scan lines 0-1, commands on line 2
+export const KEY_CODES: Record<string, number> = {
+  ...Object.fromEntries('0123456789ABCDEF'.split('').map((key, i) => [key, i])),
+  EXAM_MEM: 0x10,
+  STORE: 0x11,
+  NEXT_ADDR: 0x12,
+  PREV_ADDR: 0x13,
+  GO: 0x14,
+};
+
+// Everything the chip holds, for saved sessions and step back. IRQ follows from the FIFO and sensor RAM.
+export interface KDCSavedState {
+  displayMode: number;
+  keyboardMode: number;
+  prescaler: number;
+  displayRam: number[];
+  fifo: number[];
+  sensorRam: number[];
+  readFromDisplay: boolean;
+  readAddress: number;
+  readAutoIncrement: boolean;
+  writeAddress: number;
+  writeAutoIncrement: boolean;
+  inhibit: number;
+  blank: number;
+  clearCode: number;
+  overrun: boolean;
+  underrun: boolean;
+  sensorClosure: boolean;
+}
+
+const FIFO_SIZE = 8;
+const CLEAR_CODES = [0x00, 0x00, 0x20, 0xFF]; // Selected by CD1 CD0
+
+export class KDC8279 implements IODevice {
+  public name = '8279 KDC';
+  public onIrqChange: ((level: boolean) => void) | null = null;
+  public onDisplayWrite: (() => void) | null = null;
+
+  private displayMode = 1; // Reset: 16-character left entry, encoded scan keyboard with 2-key lockout
+  private keyboardMode = 0;
+  private prescaler = 31;
+  private displayRam = new Array<number>(16).fill(0);
+  private fifo: number[] = [];
+  private sensorRam = new Array<number>(8).fill(0);
+  private readFromDisplay = false;
+  private readAddress = 0;
+  private readAutoIncrement = false;
+  private writeAddress = 0;
+  private writeAutoIncrement = false;
+  private inhibit = 0; // Bit 1 A nibble, bit 0 B nibble
+  private blank = 0;   // Bit 1 A nibble, bit 0 B nibble
+  private clearCode = 0x00;
+  private overrun = false;
+  private underrun = false;
+  private sensorClosure = false;
+  private irq = false;
+
+  public reset(): void {
+    this.displayMode = 1;
+    this.keyboardMode = 0;
+    this.prescaler = 31;
+    this.displayRam.fill(0);
+    this.sensorRam.fill(0);
+    this.fifo = [];
+    this.readFromDisplay = false;
+    this.readAddress = this.writeAddress = 0;
+    this.readAutoIncrement = this.writeAutoIncrement = false;
+    this.inhibit = this.blank = 0;
+    this.clearCode = 0x00;
+    this.overrun = this.underrun = this.sensorClosure = false;
+    this.updateIrq();
+  }
+
+  public read(offset: number): number {
+    if (offset & 1) return this.status;
+    let value: number;
+    if (this.readFromDisplay) {
+      value = this.displayRam[this.readAddress];
+      if (this.readAutoIncrement) this.readAddress = (this.readAddress + 1) & 0x0F;
+    } else if (this.sensorMode) {
+      // A closure stays set until the program reads its row
+      value = this.sensorRam[this.readAddress];
+      this.sensorRam[this.readAddress] = 0;
+      if (this.readAutoIncrement) this.readAddress = (this.readAddress + 1) & 0x07;
+      else this.sensorClosure = false;
+    } else if (this.fifo.length > 0) {
+      value = this.fifo.shift() as number;
+    } else {
+      this.underrun = true;
+      value = 0x00;
+    }
+    this.updateIrq();
+    return value;
+  }
+
+  public write(offset: number, value: number): void {
+    if (offset & 1) this.command(value & 0xFF);
+    else this.writeDisplay(value & 0xFF);
+    this.updateIrq();
+  }
+
+  /** Enters a key closure (SL2-0 RL2-0, plus SHIFT in bit 6 and CNTL in bit 7). */
+  public pressKey(code: number): void {
+    if (this.sensorMode) {
+      const row = (code >> 3) & 7;
+      if (this.decodedScan && row > 3) return;
+      this.sensorRam[row] |= 1 << (code & 7);
+      this.sensorClosure = true;
+    } else if (this.strobedMode || !this.decodedScan || ((code >> 3) & 7) < 4) {
+      if (this.fifo.length >= FIFO_SIZE) this.overrun = true;
+      else this.fifo.push(code & 0xFF);
+    }
+    this.updateIrq();
+  }
+
+  public getState(): KDCState {
+    return {
+      displayMode: this.displayMode,
+      keyboardMode: this.keyboardMode,
+      decodedScan: this.decodedScan,
+      prescaler: this.prescaler,
+      digits: this.digits,
+      displayRam: [...this.displayRam],
+      segments: this.displayRam.slice(0, this.digits).map(byte => this.blanked(byte)),
+      fifo: [...this.fifo],
+      sensorRam: [...this.sensorRam],
+      status: this.status,
+      irq: this.irq,
+    };
+  }
+
+  public saveState(): KDCSavedState {
+    return {
+      displayMode: this.displayMode,
+      keyboardMode: this.keyboardMode,
+      prescaler: this.prescaler,
+      displayRam: [...this.displayRam],
+      fifo: [...this.fifo],
+      sensorRam: [...this.sensorRam],
+      readFromDisplay: this.readFromDisplay,
+      readAddress: this.readAddress,
+      readAutoIncrement: this.readAutoIncrement,
+      writeAddress: this.writeAddress,
+      writeAutoIncrement: this.writeAutoIncrement,
+      inhibit: this.inhibit,
+      blank: this.blank,
+      clearCode: this.clearCode,
+      overrun: this.overrun,
+      underrun: this.underrun,
+      sensorClosure: this.sensorClosure,
+    };
+  }
+
+  public restoreState(state: KDCSavedState): void {
+    this.displayMode = state.displayMode;
+    this.keyboardMode = state.keyboardMode;
+    this.prescaler = state.prescaler;
+    this.displayRam = [...state.displayRam];
+    this.fifo = [...state.fifo];
+    this.sensorRam = [...state.sensorRam];
+    this.readFromDisplay = state.readFromDisplay;
+    this.readAddress = state.readAddress;
+    this.readAutoIncrement = state.readAutoIncrement;
+    this.writeAddress = state.writeAddress;
+    this.writeAutoIncrement = state.writeAutoIncrement;
+    this.inhibit = state.inhibit;
+    this.blank = state.blank;
+    this.clearCode = state.clearCode;
+    this.overrun = state.overrun;
+    this.underrun = state.underrun;
+    this.sensorClosure = state.sensorClosure;
+    this.updateIrq();
+  }
+
+  private get sensorMode(): boolean {
+    return this.keyboardMode === 4 || this.keyboardMode === 5;
+  }
+
+  private get strobedMode(): boolean {
+    return this.keyboardMode >= 6;
+  }
+
+  private get decodedScan(): boolean {
+    return (this.keyboardMode & 1) === 1;
+  }
+
+  private get displayLength(): number {
+    return this.displayMode & 1 ? 16 : 8;
+  }
+
+  private get digits(): number {
+    return this.decodedScan ? 4 : this.displayLength;
+  }
+
+  private get status(): number {
+    const count = this.sensorMode ? 0 : this.fifo.length;
+    return (this.sensorClosure ? 0x40 : 0) | (this.overrun ? 0x20 : 0) | (this.underrun ? 0x10 : 0) |
+      (count >= FIFO_SIZE ? 0x08 : 0) | (count & 0x07);
+  }
+
+  private blanked(byte: number): number {
+    const a = this.blank & 2 ? this.clearCode & 0xF0 : byte & 0xF0;
+    const b = this.blank & 1 ? this.clearCode & 0x0F : byte & 0x0F;
+    return a | b;
+  }
+
+  private command(value: number): void {
+    switch (value >> 5) {
+      case 0: // Keyboard/display mode set: 000DDKKK
+        this.displayMode = (value >> 3) & 3;
+        this.keyboardMode = value & 7;
+        break;
+      case 1: // Program clock: 001PPPPP
+        this.prescaler = value & 0x1F;
+        break;
+      case 2: // Read FIFO/sensor RAM: 010AIXAAA
+        this.readFromDisplay = false;
+        this.readAutoIncrement = (value & 0x10) !== 0;
+        this.readAddress = value & 0x07;
+        break;
+      case 3: // Read display RAM: 011AIAAAA
+        this.readFromDisplay = true;
+        this.readAutoIncrement = (value & 0x10) !== 0;
+        this.readAddress = value & 0x0F;
+        break;
+      case 4: // Write display RAM: 100AIAAAA
+        this.writeAutoIncrement = (value & 0x10) !== 0;
+        this.writeAddress = value & 0x0F;
+        break;
+      case 5: // Display write inhibit/blanking: 101XIWAIWBBLABLB
+        this.inhibit = (value >> 2) & 3;
+        this.blank = value & 3;
+        break;
+      case 6: { // Clear: 110CD2CD1CD0CFCA
+        const clearAll = (value & 0x01) !== 0;
+        this.clearCode = CLEAR_CODES[(value >> 2) & 3];
+        if ((value & 0x10) || clearAll) this.displayRam.fill(this.clearCode);
+        if ((value & 0x02) || clearAll) {
+          this.fifo = [];
+          this.overrun = this.underrun = this.sensorClosure = false;
+          this.readAddress = 0;
+        }
+        if (clearAll) this.writeAddress = 0;
+        break;
+      }
+      default: // End interrupt/error mode set: 111EXXXX (keys never overlap here, so E has no effect)
+        this.sensorClosure = false;
+        break;
+    }
+  }
+
+  private writeDisplay(value: number): void {
+    const length = this.displayLength;
+    const write = (old: number) =>
+      (this.inhibit & 2 ? old & 0xF0 : value & 0xF0) | (this.inhibit & 1 ? old & 0x0F : value & 0x0F);
+    if (this.displayMode & 2) {
+      // Right entry: characters enter at the right and shift the display left
+      const ram = this.displayRam;
+      for (let i = 0; i < length - 1; i++) ram[i] = ram[i + 1];
+      ram[length - 1] = write(ram[length - 1]);
+    } else {
+      this.displayRam[this.writeAddress] = write(this.displayRam[this.writeAddress]);
+      if (this.writeAutoIncrement) this.writeAddress = (this.writeAddress + 1) % length;
+    }
+    this.onDisplayWrite?.();
+  }
+
+  private updateIrq(): void {
+    const level = this.sensorMode ? this.sensorClosure : this.fifo.length > 0;
+    if (level === this.irq) return;
+    this.irq = level;
+    this.onIrqChange?.(level);
+  }
+}
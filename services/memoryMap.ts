@@ -0,0 +1,100 @@
+// Address decoding for the 64KB memory space. Regions are applied in order, so
+// a later region overrides an earlier one where they overlap; addresses no
+// region covers are unmapped. Memory-mapped devices on the bus take precedence
+// over the map, and an MMIO region with no device attached behaves as unmapped.
+
+import { MemoryRegion, MemoryRegionKind } from '../types';
+import { toHexString } from '../utils/formatters';
+
+const KINDS: MemoryRegionKind[] = ['unmapped', 'rom', 'ram', 'mmio'];
+
+export interface MemoryMapPreset {
+  id: string;
+  name: string;
+  description: string;
+  regions: MemoryRegion[];
+}
+
+export const MEMORY_MAP_PRESETS: MemoryMapPreset[] = [
+  {
+    id: 'trainer',
+    name: 'Trainer kit (8K ROM, 56K RAM)',
+    description: 'Monitor ROM at 0000H-1FFFH and RAM everywhere above it',
+    regions: [
+      { start: 0x0000, end: 0x1FFF, kind: 'rom', label: 'Monitor ROM' },
+      { start: 0x2000, end: 0xFFFF, kind: 'ram', label: 'User RAM' },
+    ],
+  },
+  {
+    id: 'trainer-8k',
+    name: 'Trainer kit (8K ROM, 8K RAM)',
+    description: 'Basic kit fit: one 2764 EPROM and one 6264 RAM, nothing above 3FFFH',
+    regions: [
+      { start: 0x0000, end: 0x1FFF, kind: 'rom', label: 'Monitor ROM' },
+      { start: 0x2000, end: 0x3FFF, kind: 'ram', label: 'User RAM' },
+    ],
+  },
+  {
+    id: 'sdk85',
+    name: 'Intel SDK-85',
+    description: '8355 monitor ROM, 8755 expansion EPROM and two 8155s with 256 bytes of RAM each',
+    regions: [
+      { start: 0x0000, end: 0x07FF, kind: 'rom', label: '8355 monitor ROM' },
+      { start: 0x0800, end: 0x0FFF, kind: 'rom', label: '8755 expansion EPROM' },
+      { start: 0x2000, end: 0x20FF, kind: 'ram', label: '8155 RAM' },
+      { start: 0x2800, end: 0x28FF, kind: 'ram', label: 'Expansion 8155 RAM' },
+    ],
+  },
+  {
+    id: 'flat',
+    name: 'Flat 64K RAM',
+    description: 'Every address is writable RAM; nothing is protected and no monitor is installed',
+    regions: [{ start: 0x0000, end: 0xFFFF, kind: 'ram' }],
+  },
+];
+
+export const DEFAULT_MEMORY_MAP = MEMORY_MAP_PRESETS[0];
+
+/** Checks a region list, throwing on the first malformed region. */
+export const validateRegions = (regions: MemoryRegion[]): void => {
+  regions.forEach(({ start, end, kind }, i) => {
+    if (!Number.isInteger(start) || !Number.isInteger(end)) throw new Error(`Region ${i + 1}: start and end must be addresses`);
+    if (start < 0 || end > 0xFFFF || start > end) {
+      throw new Error(`Region ${i + 1}: invalid range ${toHexString(start, 4)}H-${toHexString(end, 4)}H`);
+    }
+    if (!KINDS.includes(kind)) throw new Error(`Region ${i + 1}: unknown kind '${kind}'`);
+  });
+};
+
+/** Per-address region lookup, built once from a region list. */
+export class MemoryMap {
+  public readonly regions: MemoryRegion[];
+  private kinds = new Uint8Array(0x10000); // Index into KINDS; 0 = unmapped
+
+  constructor(regions: MemoryRegion[]) {
+    validateRegions(regions);
+    this.regions = regions.map(region => ({ ...region }));
+    this.regions.forEach(({ start, end, kind }) => this.kinds.fill(KINDS.indexOf(kind), start, end + 1));
+  }
+
+  public kindAt(address: number): MemoryRegionKind {
+    return KINDS[this.kinds[address & 0xFFFF]];
+  }
+
+  /** The last region covering `address`, which is the one that decides its kind. */
+  public regionAt(address: number): MemoryRegion | undefined {
+    address &= 0xFFFF;
+    for (let i = this.regions.length - 1; i >= 0; i--) {
+      if (address >= this.regions[i].start && address <= this.regions[i].end) return this.regions[i];
+    }
+    return undefined;
+  }
+
+  /** Highest RAM address, or null if the map has no RAM. */
+  public get ramTop(): number | null {
+    for (let address = 0xFFFF; address >= 0; address--) {
+      if (this.kinds[address] === KINDS.indexOf('ram')) return address;
+    }
+    return null;
+  }
+}
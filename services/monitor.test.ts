@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { CPU8085 } from './8085';
+import { MemoryMap, MEMORY_MAP_PRESETS } from './memoryMap';
+import { installMonitor, monitorWorkspace, placeMonitorStack, resetVectorSlots, vectorSlots } from './monitor';
+
+const withMap = (id: string) => {
+  const cpu = new CPU8085();
+  cpu.memoryMap = new MemoryMap(MEMORY_MAP_PRESETS.find(preset => preset.id === id)!.regions);
+  return cpu;
+};
+
+describe('installing the monitor', () => {
+  it.each(['trainer', 'trainer-8k', 'sdk85'])('programs the ROM of the %s map', id => {
+    const cpu = withMap(id);
+    expect(installMonitor(cpu, 0x18)).toBe(true);
+    expect(cpu.memory[0x0000]).toBe(0xC3); // COLD: JMP COLDST
+  });
+
+  it('leaves a flat RAM map alone, vector slots included', () => {
+    const cpu = withMap('flat');
+    cpu.memory.fill(0xAA);
+    expect(installMonitor(cpu, 0x18)).toBe(false);
+    resetVectorSlots(cpu);
+    expect(cpu.memory.every(byte => byte === 0xAA)).toBe(true);
+  });
+
+  it('does not clear RAM that sits inside 0000H-1FFFH', () => {
+    const cpu = new CPU8085();
+    cpu.memoryMap = new MemoryMap([
+      { start: 0x0000, end: 0x0FFF, kind: 'rom' },
+      { start: 0x1000, end: 0xFFFF, kind: 'ram' },
+    ]);
+    cpu.memory[0x1800] = 0x55;
+    expect(installMonitor(cpu, 0x18)).toBe(true);
+    expect(cpu.memory[0x1800]).toBe(0x55);
+    expect(monitorWorkspace(cpu.memoryMap)).toBe(0xFFC0);
+  });
+});
+
+describe('the reset stack', () => {
+  it('sits below the vector slots, so pushes cannot reach them', () => {
+    const cpu = withMap('trainer');
+    resetVectorSlots(cpu);
+    placeMonitorStack(cpu);
+    expect(cpu.registers.SP).toBe(0xFFC0);
+    cpu.memory.set(Array(32).fill(0xC5), 0x2000); // PUSH B x 32
+    cpu.registers.PC = 0x2000;
+    for (let i = 0; i < 32; i++) cpu.step();
+    vectorSlots(0xFFC0).forEach(({ slot }) => expect(cpu.memory[slot]).toBe(0xC3));
+  });
+});
@@ -0,0 +1,237 @@
+// Monitor ROM for 0000H-1FFFH, in the style of the SDK-85 and similar trainer
+// kits. User programs CALL the routines through the fixed jump table at 0040H;
+// the routine bodies behind it may move between versions.
+//
+// Entry points:
+//   0000H  COLD     RST 0: set SP, initialise the 8279, return to the monitor
+//   0008H  MONITOR  RST 1: return control to the trainer
+//   0040H  DATAFLD  Show A as two hex digits in the data field (all registers kept)
+//   0043H  ADDRFLD  Show HL as four hex digits in the address field (all registers kept)
+//   0046H  DELAY    Wait DE x 28 + 79 T-states including the CALL (about DE x 9.1 us at 3.072 MHz); DE = 0 on return
+//   0049H  RDKBD    Wait for a key and return its code in A (00H-0FH hex keys, 10H-14H commands)
+//   004CH  CLEAR    Blank the whole display (all registers kept)
+//
+// RST 2-7, TRAP and RST 5.5/6.5/7.5 jump through 3-byte slots in a workspace
+// 40H bytes below the top of RAM (FFC0H-FFDDH when RAM reaches FFFFH), so a
+// program installs a handler by storing JMP handler in the slot. Unused slots
+// hold JMP MONITOR. The monitor stack grows down from the workspace, and the
+// trainer's RESET puts SP there too, so pushes move away from the slots.
+//
+// The monitor goes in only where the memory map has ROM for all of it; on a map
+// with RAM there instead (such as flat 64K) no monitor or vector slots are
+// written, so nothing a program has loaded is overwritten.
+
+import { CPU8085 } from './8085';
+import { MemoryMap } from './memoryMap';
+import { BreakReason } from '../types';
+import { assemble, AssemblyResult } from './assembler';
+import { formatHex } from './disassembler';
+import { SEGMENT_PATTERNS } from './kdc8279';
+
+export const ROM_SIZE = 0x2000;
+export const MONITOR_RETURN = 0x0008; // RST 1
+const DEFAULT_WORKSPACE = 0xFFC0;
+
+export interface MonitorRoutine {
+  name: string;
+  address: number;
+  description: string;
+}
+
+export const MONITOR_ROUTINES: MonitorRoutine[] = [
+  { name: 'COLD', address: 0x0000, description: 'RST 0: set SP to the vector workspace, initialise the 8279 and return to the monitor' },
+  { name: 'MONITOR', address: 0x0008, description: 'RST 1: return control to the trainer' },
+  { name: 'DATAFLD', address: 0x0040, description: 'Show A as two hex digits in the data field' },
+  { name: 'ADDRFLD', address: 0x0043, description: 'Show HL as four hex digits in the address field' },
+  { name: 'DELAY', address: 0x0046, description: 'Wait DE x 28 + 79 T-states including the CALL; DE is 0 on return' },
+  { name: 'RDKBD', address: 0x0049, description: 'Wait for a key; code in A (0-F = 00H-0FH, EXAM 10H, STORE 11H, NEXT 12H, PREV 13H, GO 14H)' },
+  { name: 'CLEAR', address: 0x004C, description: 'Blank the display' },
+];
+
+export interface VectorSlot {
+  name: string;
+  vector: number;
+  slot: number;
+}
+
+// Vectors that jump through RAM, in vector address order
+const VECTORS: { name: string; vector: number }[] = [
+  { name: 'RST 2', vector: 0x0010 },
+  { name: 'RST 3', vector: 0x0018 },
+  { name: 'RST 4', vector: 0x0020 },
+  { name: 'TRAP', vector: 0x0024 },
+  { name: 'RST 5', vector: 0x0028 },
+  { name: 'RST 5.5', vector: 0x002C },
+  { name: 'RST 6', vector: 0x0030 },
+  { name: 'RST 6.5', vector: 0x0034 },
+  { name: 'RST 7', vector: 0x0038 },
+  { name: 'RST 7.5', vector: 0x003C },
+];
+
+/** Start of the vector slot workspace for a memory map: 40H bytes below the top of RAM. */
+export const monitorWorkspace = (map: MemoryMap): number => {
+  const top = map.ramTop;
+  return top === null || top < 0x40 ? DEFAULT_WORKSPACE : top - 0x3F;
+};
+
+/** RAM jump slots for a workspace, in vector address order. */
+export const vectorSlots = (workspace: number): VectorSlot[] =>
+  VECTORS.map((v, i) => ({ ...v, slot: workspace + i * 3 }));
+
+const monitorSource = (kdcBasePort: number, workspace: number): string => `
+KDCDATA EQU ${formatHex(kdcBasePort, 2)}
+KDCCMD  EQU ${formatHex(kdcBasePort + 1, 2)}
+
+        ORG 0000H
+COLD:   JMP COLDST
+        ORG 0008H
+MONITOR: DI                 ; The trainer takes over when PC reaches here
+        HLT
+${vectorSlots(workspace).map(v => `        ORG ${formatHex(v.vector, 4)}\n        JMP ${formatHex(v.slot, 4)}        ; ${v.name}`).join('\n')}
+
+        ORG 0040H
+        JMP DATAFLD_
+        JMP ADDRFLD_
+        JMP DELAY_
+        JMP RDKBD_
+        JMP CLEAR_
+
+        ORG 0080H
+COLDST: LXI SP,${formatHex(workspace, 4)}
+        MVI A,00H           ; 8 digits, left entry, encoded scan keyboard
+        OUT KDCCMD
+        CALL CLEAR_
+        RST 1
+
+DATAFLD_: PUSH PSW
+        PUSH B
+        PUSH H
+        MOV B,A
+        MVI A,94H           ; Write display RAM from digit 4, auto-increment
+        OUT KDCCMD
+        MOV A,B
+        CALL HIDIGIT
+        MOV A,B
+        CALL SEGOUT
+        POP H
+        POP B
+        POP PSW
+        RET
+
+ADDRFLD_: PUSH PSW
+        PUSH B
+        PUSH H
+        MVI A,90H           ; Write display RAM from digit 0, auto-increment
+        OUT KDCCMD
+        MOV B,L
+        MOV A,H
+        CALL HIDIGIT
+        MOV A,H
+        CALL SEGOUT
+        MOV A,B
+        CALL HIDIGIT
+        MOV A,B
+        CALL SEGOUT
+        POP H
+        POP B
+        POP PSW
+        RET
+
+DELAY_: PUSH PSW
+        PUSH B
+DLOOP:  DCX D
+        MOV A,D
+        MOV B,E
+        ORA B
+        JNZ DLOOP
+        POP B
+        POP PSW
+        RET
+
+RDKBD_: IN KDCCMD           ; FIFO status: low 3 bits count the keys waiting
+        ANI 07H
+        JZ RDKBD_
+        MVI A,40H           ; Read FIFO
+        OUT KDCCMD
+        IN KDCDATA
+        ANI 3FH             ; Drop SHIFT and CNTL
+        RET
+
+CLEAR_: PUSH PSW
+        MVI A,0D1H          ; Clear display RAM and FIFO
+        OUT KDCCMD
+        POP PSW
+        RET
+
+; Output the segment pattern for the high or low nibble of A
+HIDIGIT: RRC
+        RRC
+        RRC
+        RRC
+SEGOUT: PUSH D
+        PUSH H
+        ANI 0FH
+        MOV E,A
+        MVI D,00H
+        LXI H,SEGTAB
+        DAD D
+        MOV A,M
+        OUT KDCDATA
+        POP H
+        POP D
+        RET
+
+SEGTAB: DB ${SEGMENT_PATTERNS.map(p => formatHex(p, 2)).join(', ')}
+`;
+
+/**
+ * Assembles the monitor for an 8279 at `kdcBasePort` (data) and the next port
+ * (command), with its vector slots and stack at `workspace`.
+ */
+export const buildMonitor = (kdcBasePort: number, workspace = DEFAULT_WORKSPACE): AssemblyResult => {
+  const result = assemble(monitorSource(kdcBasePort, workspace));
+  if (result.errors.length > 0) throw new Error(`Monitor ROM: ${result.errors[0].message} (line ${result.errors[0].line})`);
+  return result;
+};
+
+const coveredByRom = (map: MemoryMap, segments: AssemblyResult['segments']): boolean =>
+  segments.every(segment => segment.bytes.every((_, i) => map.kindAt(segment.address + i) === 'rom'));
+
+/** Whether the map has ROM for every byte of the monitor, which is where it gets installed. */
+export const monitorFits = (map: MemoryMap): boolean =>
+  coveredByRom(map, buildMonitor(0, monitorWorkspace(map)).segments);
+
+/**
+ * Programs the monitor into the ROM at 0000H-1FFFH for the CPU's memory map.
+ * This writes memory directly, as an EPROM programmer would. Returns false,
+ * leaving memory alone, when the map has no ROM there to hold it.
+ */
+export const installMonitor = (cpu: CPU8085, kdcBasePort: number): boolean => {
+  const { segments } = buildMonitor(kdcBasePort, monitorWorkspace(cpu.memoryMap));
+  if (!coveredByRom(cpu.memoryMap, segments)) return false;
+  for (let address = 0; address < ROM_SIZE; address++) {
+    if (cpu.memoryMap.kindAt(address) === 'rom') cpu.memory[address] = 0;
+  }
+  segments.forEach(segment => cpu.memory.set(segment.bytes, segment.address));
+  return true;
+};
+
+/** Points every RAM vector slot back at the monitor, if the map has room for one. */
+export const resetVectorSlots = (cpu: CPU8085): void => {
+  if (!monitorFits(cpu.memoryMap)) return;
+  vectorSlots(monitorWorkspace(cpu.memoryMap))
+    .forEach(({ slot }) => cpu.loadBytes(slot, [0xC3, MONITOR_RETURN & 0xFF, MONITOR_RETURN >> 8]));
+};
+
+/** Sets SP to the bottom of the vector slots, as COLD does, so the stack grows away from them. */
+export const placeMonitorStack = (cpu: CPU8085): void => {
+  if (!monitorFits(cpu.memoryMap)) return;
+  cpu.registers.SP = monitorWorkspace(cpu.memoryMap);
+  cpu.resetStackTracking();
+};
+
+/** Reports a program handing control back through RST 1 (or an unused vector). */
+export const monitorReturn = (cpu: CPU8085): BreakReason | null =>
+  cpu.registers.PC === MONITOR_RETURN
+    ? { kind: 'monitor', address: MONITOR_RETURN, message: 'Program returned to the monitor' }
+    : null;
@@ -0,0 +1,142 @@
+// Typed 8085 opcode table, shared by the assembler, disassembler and CPU timing.
+
+export type ImmediateKind = 'byte' | 'word';
+
+export interface OpcodeInfo {
+  opcode: number;
+  mnemonic: string;      // e.g. 'MVI'
+  operands: string[];    // Fixed operands encoded in the opcode, e.g. ['A'] or ['SP']
+  immediate?: ImmediateKind; // Trailing data byte/word following the opcode
+  size: number;          // Total instruction length in bytes
+  tStates: number;       // Clock states; for conditional branches, when the condition fails
+  tStatesTaken?: number; // Conditional jumps, calls and returns: clock states when taken
+}
+
+export const REG8 = ['B', 'C', 'D', 'E', 'H', 'L', 'M', 'A'];
+const REG_PAIRS = ['B', 'D', 'H', 'SP'];
+const REG_PAIRS_STACK = ['B', 'D', 'H', 'PSW'];
+const CONDITIONS = ['NZ', 'Z', 'NC', 'C', 'PO', 'PE', 'P', 'M'];
+const ALU_OPS = ['ADD', 'ADC', 'SUB', 'SBB', 'ANA', 'XRA', 'ORA', 'CMP'];
+const ALU_IMMEDIATE_OPS = ['ADI', 'ACI', 'SUI', 'SBI', 'ANI', 'XRI', 'ORI', 'CPI'];
+
+// `t` is the T-state count, or [not taken, taken] for conditional branches
+type Define = (opcode: number, mnemonic: string, operands: string[], t: number | [number, number], immediate?: ImmediateKind) => void;
+
+const definer = (table: (OpcodeInfo | undefined)[]): Define => (opcode, mnemonic, operands, t, immediate) => {
+  const size = 1 + (immediate === 'byte' ? 1 : immediate === 'word' ? 2 : 0);
+  const [tStates, tStatesTaken] = typeof t === 'number' ? [t, undefined] : t;
+  table[opcode] = { opcode, mnemonic, operands, immediate, size, tStates, tStatesTaken };
+};
+
+const buildTable = (): (OpcodeInfo | undefined)[] => {
+  const table: (OpcodeInfo | undefined)[] = new Array(256).fill(undefined);
+  const def = definer(table);
+
+  def(0x00, 'NOP', [], 4);
+  REG_PAIRS.forEach((rp, i) => {
+    def(0x01 | (i << 4), 'LXI', [rp], 10, 'word');
+    def(0x03 | (i << 4), 'INX', [rp], 6);
+    def(0x09 | (i << 4), 'DAD', [rp], 10);
+    def(0x0B | (i << 4), 'DCX', [rp], 6);
+  });
+  def(0x02, 'STAX', ['B'], 7);
+  def(0x12, 'STAX', ['D'], 7);
+  def(0x0A, 'LDAX', ['B'], 7);
+  def(0x1A, 'LDAX', ['D'], 7);
+  def(0x22, 'SHLD', [], 16, 'word');
+  def(0x2A, 'LHLD', [], 16, 'word');
+  def(0x32, 'STA', [], 13, 'word');
+  def(0x3A, 'LDA', [], 13, 'word');
+
+  REG8.forEach((r, i) => {
+    const isMemory = r === 'M';
+    def(0x04 | (i << 3), 'INR', [r], isMemory ? 10 : 4);
+    def(0x05 | (i << 3), 'DCR', [r], isMemory ? 10 : 4);
+    def(0x06 | (i << 3), 'MVI', [r], isMemory ? 10 : 7, 'byte');
+  });
+  def(0x07, 'RLC', [], 4);
+  def(0x0F, 'RRC', [], 4);
+  def(0x17, 'RAL', [], 4);
+  def(0x1F, 'RAR', [], 4);
+  def(0x20, 'RIM', [], 4);
+  def(0x27, 'DAA', [], 4);
+  def(0x2F, 'CMA', [], 4);
+  def(0x30, 'SIM', [], 4);
+  def(0x37, 'STC', [], 4);
+  def(0x3F, 'CMC', [], 4);
+
+  // MOV dst,src occupies 40-7F; MOV M,M is HLT
+  REG8.forEach((dst, d) => {
+    REG8.forEach((src, s) => {
+      const opcode = 0x40 | (d << 3) | s;
+      if (opcode === 0x76) def(opcode, 'HLT', [], 5);
+      else def(opcode, 'MOV', [dst, src], dst === 'M' || src === 'M' ? 7 : 4);
+    });
+  });
+
+  ALU_OPS.forEach((op, o) => {
+    REG8.forEach((r, i) => def(0x80 | (o << 3) | i, op, [r], r === 'M' ? 7 : 4));
+  });
+  ALU_IMMEDIATE_OPS.forEach((op, o) => def(0xC6 | (o << 3), op, [], 7, 'byte'));
+
+  CONDITIONS.forEach((cc, i) => {
+    def(0xC0 | (i << 3), `R${cc}`, [], [6, 12]);
+    def(0xC2 | (i << 3), `J${cc}`, [], [7, 10], 'word');
+    def(0xC4 | (i << 3), `C${cc}`, [], [9, 18], 'word');
+  });
+  for (let n = 0; n < 8; n++) def(0xC7 | (n << 3), 'RST', [String(n)], 12);
+  REG_PAIRS_STACK.forEach((rp, i) => {
+    def(0xC1 | (i << 4), 'POP', [rp], 10);
+    def(0xC5 | (i << 4), 'PUSH', [rp], 12);
+  });
+
+  def(0xC3, 'JMP', [], 10, 'word');
+  def(0xC9, 'RET', [], 10);
+  def(0xCD, 'CALL', [], 18, 'word');
+  def(0xD3, 'OUT', [], 10, 'byte');
+  def(0xDB, 'IN', [], 10, 'byte');
+  def(0xE3, 'XTHL', [], 16);
+  def(0xE9, 'PCHL', [], 6);
+  def(0xEB, 'XCHG', [], 4);
+  def(0xF3, 'DI', [], 4);
+  def(0xF9, 'SPHL', [], 6);
+  def(0xFB, 'EI', [], 4);
+
+  return table;
+};
+
+// Opcodes Intel never documented but every 8085 executes (Dehnhardt & Sorensen, 1979)
+const buildUndocumentedTable = (): (OpcodeInfo | undefined)[] => {
+  const table: (OpcodeInfo | undefined)[] = new Array(256).fill(undefined);
+  const def = definer(table);
+  def(0x08, 'DSUB', [], 10);
+  def(0x10, 'ARHL', [], 7);
+  def(0x18, 'RDEL', [], 10);
+  def(0x28, 'LDHI', [], 10, 'byte');
+  def(0x38, 'LDSI', [], 10, 'byte');
+  def(0xCB, 'RSTV', [], [6, 12]);
+  def(0xD9, 'SHLX', [], 10);
+  def(0xDD, 'JNK', [], [7, 10], 'word');
+  def(0xED, 'LHLX', [], 10);
+  def(0xFD, 'JK', [], [7, 10], 'word');
+  return table;
+};
+
+// Indexed by opcode byte; undefined for the undocumented slots.
+export const OPCODE_TABLE: ReadonlyArray<OpcodeInfo | undefined> = buildTable();
+
+// The undocumented slots only; the CPU runs them when its `undocumented` toggle is on.
+export const UNDOCUMENTED_OPCODE_TABLE: ReadonlyArray<OpcodeInfo | undefined> = buildUndocumentedTable();
+
+/** Looks an opcode up, including the undocumented ones when asked. */
+export const opcodeInfo = (opcode: number, undocumented = false): OpcodeInfo | undefined =>
+  OPCODE_TABLE[opcode] ?? (undocumented ? UNDOCUMENTED_OPCODE_TABLE[opcode] : undefined);
+
+// Key used by the assembler to find an opcode: mnemonic plus fixed operands, e.g. 'MOV A,B'.
+export const opcodeKey = (mnemonic: string, operands: string[]): string =>
+  operands.length > 0 ? `${mnemonic} ${operands.join(',')}` : mnemonic;
+
+// Every mnemonic in the table, for syntax highlighting and validation.
+export const MNEMONICS: ReadonlySet<string> = new Set(
+  [...OPCODE_TABLE, ...UNDOCUMENTED_OPCODE_TABLE].filter((info): info is OpcodeInfo => info !== undefined).map(info => info.mnemonic)
+);
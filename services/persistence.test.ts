@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { CPU8085 } from './8085';
+import { PPI8255 } from './ppi8255';
+import { PIT8254 } from './pit8254';
+import { KDC8279 } from './kdc8279';
+import { parseSession, restoreCPU, saveCPU, serializeSession, SESSION_VERSION, SessionSnapshot } from './persistence';
+
+const snapshot = (cpu: CPU8085, devices?: SessionSnapshot['devices']): SessionSnapshot => ({
+  version: SESSION_VERSION,
+  savedAt: '2026-01-01T00:00:00.000Z',
+  cpu: saveCPU(cpu),
+  io: {
+    ppiBasePort: 0x00, ppiLedPort: 'A', ppiSwitchPort: 'B', ppiSwitches: 0, pitBasePort: 0x10, pitWiring: [null, null, null],
+    kdcBasePort: 0x18, memoryMapPreset: null, memoryRegions: [],
+  },
+  devices,
+  breakpoints: [],
+  watchpoints: [],
+  source: '',
+  examAddress: 0,
+});
+
+// Serializes `session`, then lets `edit` damage the parsed JSON before it is read back
+const reparse = (session: SessionSnapshot, edit: (data: Record<string, any>) => void) => {
+  const data = JSON.parse(serializeSession(session));
+  edit(data);
+  return () => parseSession(JSON.stringify(data));
+};
+
+describe('sessions', () => {
+  it('brings back the CPU settings', () => {
+    const cpu = new CPU8085();
+    cpu.registers.PC = 0x2000;
+    cpu.undocumented = true;
+    cpu.daaMode = 'silicon';
+    cpu.clockHz = 6_144_000;
+    const restored = new CPU8085();
+    restoreCPU(restored, parseSession(serializeSession(snapshot(cpu))).cpu);
+    expect(restored.registers.PC).toBe(0x2000);
+    expect(restored.undocumented).toBe(true);
+    expect(restored.daaMode).toBe('silicon');
+    expect(restored.clockHz).toBe(6_144_000);
+  });
+
+  it('brings back what the devices hold', () => {
+    const ppi = new PPI8255();
+    ppi.write(3, 0x80); // All ports output
+    ppi.write(0, 0x5A);
+    const pit = new PIT8254();
+    pit.write(3, 0x34); // Counter 0, LSB then MSB, mode 2
+    pit.write(0, 0x00);
+    pit.write(0, 0x10);
+    pit.tick(5);
+    const kdc = new KDC8279();
+    kdc.write(1, 0x90); // Write display RAM from digit 0
+    kdc.write(0, 0x3F);
+    kdc.pressKey(0x12);
+
+    const session = parseSession(serializeSession(snapshot(new CPU8085(), {
+      ppi: ppi.saveState(), pit: pit.saveState(), kdc: kdc.saveState(),
+    })));
+    const [ppi2, pit2, kdc2] = [new PPI8255(), new PIT8254(), new KDC8279()];
+    ppi2.restoreState(session.devices!.ppi);
+    pit2.restoreState(session.devices!.pit);
+    kdc2.restoreState(session.devices!.kdc);
+    expect(ppi2.read(0)).toBe(0x5A);
+    expect(pit2.getState()).toEqual(pit.getState());
+    expect(kdc2.getState()).toEqual(kdc.getState());
+    pit.tick(9);
+    pit2.tick(9);
+    expect(pit2.read(0)).toBe(pit.read(0));
+  });
+
+  it('reads version 1 sessions, which have no device state', () => {
+    const session = reparse(snapshot(new CPU8085()), data => {
+      data.version = 1;
+      delete data.cpu.undocumented;
+      delete data.cpu.daaMode;
+      delete data.cpu.clockHz;
+    })();
+    expect(session.devices).toBeUndefined();
+    const cpu = new CPU8085();
+    cpu.clockHz = 3_072_000;
+    restoreCPU(cpu, session.cpu);
+    expect(cpu.clockHz).toBe(3_072_000);
+  });
+
+  it.each([
+    ['registers', (data: Record<string, any>) => { delete data.cpu.registers; }, 'no cpu.registers'],
+    ['a register', (data: Record<string, any>) => { data.cpu.registers.PC = '2000'; }, 'cpu.registers.PC'],
+    ['a flag', (data: Record<string, any>) => { delete data.cpu.flags.CY; }, 'cpu.flags.CY'],
+    ['the interrupt masks', (data: Record<string, any>) => { data.cpu.interrupts.masks = 256; }, 'cpu.interrupts.masks'],
+    ['the requested lines', (data: Record<string, any>) => { data.cpu.interrupts.requested = ['RST8.5']; }, 'cpu.interrupts.requested'],
+    ['a PIT counter', (data: Record<string, any>) => { data.devices.pit.counters.pop(); }, 'devices.pit.counters'],
+    ['a base port', (data: Record<string, any>) => { data.io.kdcBasePort = 0x100; }, 'io.kdcBasePort'],
+    ['the LED port', (data: Record<string, any>) => { data.io.ppiLedPort = 'D'; }, 'io.ppiLedPort'],
+    ['the timer wiring', (data: Record<string, any>) => { data.io.pitWiring = [null, 'RST8.5', null]; }, 'io.pitWiring[1]'],
+    ['a breakpoint', (data: Record<string, any>) => { data.breakpoints = [{ address: 0x10000, enabled: true }]; }, 'breakpoints[0].address'],
+    ['a watchpoint', (data: Record<string, any>) => { data.watchpoints = [{ id: 1, start: 0, end: 0, access: 'exec' }]; }, 'watchpoints[0].access'],
+  ])('rejects a session with bad %s', (_, edit, field) => {
+    const session = snapshot(new CPU8085(), { ppi: new PPI8255().saveState(), pit: new PIT8254().saveState(), kdc: new KDC8279().saveState() });
+    expect(reparse(session, edit)).toThrow(`Saved session is incomplete`);
+    expect(reparse(session, edit)).toThrow(field);
+  });
+
+  it('rejects a watchpoint that ends before it starts', () => {
+    const session = snapshot(new CPU8085());
+    session.watchpoints = [{ id: 1, start: 0x2010, end: 0x2000, access: 'write' }];
+    expect(() => parseSession(serializeSession(session))).toThrow('Saved session has watchpoints[0] ending before it starts');
+  });
+
+  it('keeps valid breakpoints and watchpoints', () => {
+    const session = snapshot(new CPU8085());
+    session.breakpoints = [{ address: 0x2005, condition: 'A == 0', enabled: false }];
+    session.watchpoints = [{ id: 3, start: 0x2050, end: 0x2051, access: 'readwrite' }];
+    expect(parseSession(serializeSession(session))).toMatchObject({ breakpoints: session.breakpoints, watchpoints: session.watchpoints });
+  });
+});
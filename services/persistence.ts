@@ -0,0 +1,313 @@
+// Session snapshots: everything needed to pick a lab back up later. Snapshots
+// are plain JSON with a version number, kept in browser storage under named
+// slots or exported to a file.
+
+import { CPU8085 } from './8085';
+import { PPIPort, PPISavedState } from './ppi8255';
+import { PITSavedState } from './pit8254';
+import { KDCSavedState } from './kdc8279';
+import { validateRegions } from './memoryMap';
+import { Breakpoint, DaaMode, Flags, InterruptLine, InterruptState, MemoryRegion, Registers, WatchAccess, Watchpoint } from '../types';
+
+// 2: device state, and the CPU's undocumented, DAA and clock settings
+export const SESSION_VERSION = 2;
+export const AUTOSAVE_SLOT = 'autosave';
+
+export interface SavedCPU {
+  registers: Registers;
+  flags: Flags;
+  halted: boolean;
+  cycles: number;
+  interrupts: InterruptState;
+  sod: boolean;
+  lastSubtract?: boolean; // Missing from sessions saved before subtract-aware DAA
+  // Missing from version 1 sessions, which keep the current settings
+  undocumented?: boolean;
+  daaMode?: DaaMode;
+  clockHz?: number;
+  memory: string;  // 64KB, base64
+  ioPorts: string; // 256 bytes, base64
+}
+
+// Trainer wiring around the CPU: where the devices sit and what they connect to
+export interface SavedIOConfig {
+  ppiBasePort: number;
+  ppiLedPort: PPIPort;
+  ppiSwitchPort: PPIPort;
+  ppiSwitches: number;
+  pitBasePort: number;
+  pitWiring: (InterruptLine | null)[];
+  kdcBasePort: number;
+  memoryMapPreset: string | null;
+  memoryRegions: MemoryRegion[];
+  programDisplay?: boolean; // A program, not the monitor, drives the 8279 display
+}
+
+// What the devices themselves hold: latches, counters, display RAM and FIFO
+export interface SavedDevices {
+  ppi: PPISavedState;
+  pit: PITSavedState;
+  kdc: KDCSavedState;
+}
+
+export interface SessionSnapshot {
+  version: number;
+  savedAt: string; // ISO timestamp
+  cpu: SavedCPU;
+  io: SavedIOConfig;
+  devices?: SavedDevices; // Missing from version 1 sessions, which restore with the devices reset
+  breakpoints: Breakpoint[];
+  watchpoints: Watchpoint[];
+  source: string;
+  examAddress: number;
+}
+
+export interface SlotInfo {
+  name: string;
+  savedAt: string;
+}
+
+const encodeBytes = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x2000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x2000));
+  }
+  return btoa(binary);
+};
+
+const decodeBytes = (text: string, length: number, what: string): Uint8Array => {
+  let binary: string;
+  try {
+    binary = atob(text);
+  } catch {
+    throw new Error(`Session ${what} is not valid base64`);
+  }
+  if (binary.length !== length) throw new Error(`Session ${what} holds ${binary.length} bytes, expected ${length}`);
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+/** Captures the CPU side of a session. */
+export const saveCPU = (cpu: CPU8085): SavedCPU => ({
+  registers: { ...cpu.registers },
+  flags: { ...cpu.flags },
+  halted: cpu.halted,
+  cycles: cpu.cycles,
+  interrupts: { ...cpu.interrupts, requested: [...cpu.interrupts.requested] },
+  sod: cpu.sod,
+  lastSubtract: cpu.lastSubtract,
+  undocumented: cpu.undocumented,
+  daaMode: cpu.daaMode,
+  clockHz: cpu.clockHz,
+  memory: encodeBytes(cpu.memory),
+  ioPorts: encodeBytes(cpu.ioPorts),
+});
+
+/** Puts a saved CPU back. Step-back history does not survive, so it is cleared. */
+export const restoreCPU = (cpu: CPU8085, saved: SavedCPU): void => {
+  cpu.memory.set(decodeBytes(saved.memory, cpu.memory.length, 'memory'));
+  cpu.ioPorts.set(decodeBytes(saved.ioPorts, cpu.ioPorts.length, 'I/O ports'));
+  cpu.registers = { ...saved.registers };
+  cpu.flags = { ...saved.flags, V: saved.flags.V ?? false, K: saved.flags.K ?? false }; // Older sessions lack V and K
+  cpu.halted = saved.halted;
+  cpu.cycles = saved.cycles;
+  cpu.interrupts = { ...saved.interrupts, requested: [...saved.interrupts.requested] };
+  cpu.sod = saved.sod;
+  cpu.lastSubtract = saved.lastSubtract ?? false;
+  if (saved.undocumented !== undefined) cpu.undocumented = saved.undocumented;
+  if (saved.daaMode !== undefined) cpu.daaMode = saved.daaMode;
+  if (saved.clockHz !== undefined) cpu.clockHz = saved.clockHz;
+  cpu.fault = null;
+  cpu.clearHistory();
+  cpu.resetStackTracking(); // Not saved, so the stack is measured from where it stands now
+};
+
+type FieldKind = 'byte' | 'word' | 'number' | 'boolean' | 'bytes';
+
+const INTERRUPT_LINES: InterruptLine[] = ['TRAP', 'RST7.5', 'RST6.5', 'RST5.5', 'INTR'];
+const PPI_PORTS: PPIPort[] = ['A', 'B', 'C'];
+const WATCH_ACCESSES: WatchAccess[] = ['read', 'write', 'readwrite'];
+
+const REGISTER_FIELDS: Record<string, FieldKind> = { A: 'byte', B: 'byte', C: 'byte', D: 'byte', E: 'byte', H: 'byte', L: 'byte', SP: 'word', PC: 'word' };
+const FLAG_FIELDS: Record<string, FieldKind> = { S: 'boolean', Z: 'boolean', AC: 'boolean', P: 'boolean', CY: 'boolean' };
+const INTERRUPT_FIELDS: Record<string, FieldKind> = {
+  enabled: 'boolean', enablePending: 'boolean', masks: 'byte', rst75Latch: 'boolean', trapLatch: 'boolean', intrOpcode: 'byte',
+};
+const IO_FIELDS: Record<string, FieldKind> = { ppiBasePort: 'byte', ppiSwitches: 'byte', pitBasePort: 'byte', kdcBasePort: 'byte' };
+const BREAKPOINT_FIELDS: Record<string, FieldKind> = { address: 'word', enabled: 'boolean' };
+const WATCHPOINT_FIELDS: Record<string, FieldKind> = { id: 'number', start: 'word', end: 'word' };
+const PPI_FIELDS: Record<string, FieldKind> = {
+  control: 'byte', outA: 'byte', outB: 'byte', outC: 'byte', latchA: 'byte', latchB: 'byte',
+  ibfA: 'boolean', ibfB: 'boolean', obfA: 'boolean', obfB: 'boolean', inteA: 'boolean', inteA2: 'boolean', inteB: 'boolean',
+};
+const PIT_COUNTER_FIELDS: Record<string, FieldKind> = {
+  mode: 'number', bcd: 'boolean', access: 'number', reload: 'word', out: 'boolean', gate: 'boolean', nullCount: 'boolean',
+  programmed: 'boolean', value: 'number', hasCount: 'boolean', counting: 'boolean', loadPending: 'boolean', strobeArmed: 'boolean',
+  lowByte: 'byte', writeMSBNext: 'boolean', readMSBNext: 'boolean',
+};
+const KDC_FIELDS: Record<string, FieldKind> = {
+  displayMode: 'number', keyboardMode: 'number', prescaler: 'number', displayRam: 'bytes', fifo: 'bytes', sensorRam: 'bytes',
+  readFromDisplay: 'boolean', readAddress: 'number', readAutoIncrement: 'boolean', writeAddress: 'number', writeAutoIncrement: 'boolean',
+  inhibit: 'number', blank: 'number', clearCode: 'byte', overrun: 'boolean', underrun: 'boolean', sensorClosure: 'boolean',
+};
+
+const isByte = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 0xFF;
+
+const fieldMatches = (value: unknown, kind: FieldKind): boolean => {
+  switch (kind) {
+    case 'byte': return isByte(value);
+    case 'word': return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 0xFFFF;
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'bytes': return Array.isArray(value) && value.every(isByte);
+  }
+};
+
+const badField = (path: string): Error => new Error(`Saved session is incomplete: bad or missing ${path}`);
+
+// Throws, naming the first field that is missing or holds the wrong kind of value
+const checkFields = (value: unknown, path: string, fields: Record<string, FieldKind>): void => {
+  if (!value || typeof value !== 'object') throw new Error(`Saved session is incomplete: no ${path}`);
+  const record = value as Record<string, unknown>;
+  Object.entries(fields).forEach(([name, kind]) => {
+    if (!fieldMatches(record[name], kind)) throw badField(`${path}.${name}`);
+  });
+};
+
+// Throws unless `value` is an array, checking each entry with `check`
+const checkList = <T>(value: unknown, path: string, check: (entry: T, path: string) => void): void => {
+  if (!Array.isArray(value)) throw badField(path);
+  value.forEach((entry: T, i) => check(entry, `${path}[${i}]`));
+};
+
+// Everything restoreCPU reads, apart from memory and the I/O ports, which are decoded separately
+const checkCPU = (cpu: SavedCPU): void => {
+  checkFields(cpu, 'cpu', { halted: 'boolean', cycles: 'number', sod: 'boolean' });
+  checkFields(cpu.registers, 'cpu.registers', REGISTER_FIELDS);
+  checkFields(cpu.flags, 'cpu.flags', FLAG_FIELDS);
+  checkFields(cpu.interrupts, 'cpu.interrupts', INTERRUPT_FIELDS);
+  const { requested } = cpu.interrupts;
+  if (!Array.isArray(requested) || !requested.every(line => INTERRUPT_LINES.includes(line))) {
+    throw badField('cpu.interrupts.requested');
+  }
+  if (cpu.daaMode !== undefined && cpu.daaMode !== 'silicon' && cpu.daaMode !== 'subtract-aware') {
+    throw new Error(`Saved session has an unknown DAA mode '${String(cpu.daaMode)}'`);
+  }
+  if (cpu.clockHz !== undefined && !(typeof cpu.clockHz === 'number' && cpu.clockHz > 0)) {
+    throw new Error('Saved session has an invalid clock frequency');
+  }
+};
+
+// The trainer wiring; the memory map is checked by validateRegions
+const checkIO = (io: SavedIOConfig): void => {
+  checkFields(io, 'io', IO_FIELDS);
+  if (!PPI_PORTS.includes(io.ppiLedPort)) throw badField('io.ppiLedPort');
+  if (!PPI_PORTS.includes(io.ppiSwitchPort)) throw badField('io.ppiSwitchPort');
+  if (!Array.isArray(io.pitWiring) || io.pitWiring.length !== 3) throw new Error('Saved session is incomplete: io.pitWiring needs 3 entries');
+  io.pitWiring.forEach((line, i) => {
+    if (line !== null && !INTERRUPT_LINES.includes(line)) throw badField(`io.pitWiring[${i}]`);
+  });
+  if (io.memoryMapPreset !== null && typeof io.memoryMapPreset !== 'string') throw badField('io.memoryMapPreset');
+  if (io.programDisplay !== undefined && typeof io.programDisplay !== 'boolean') throw badField('io.programDisplay');
+};
+
+const checkBreakpoint = (breakpoint: Breakpoint, path: string): void => {
+  checkFields(breakpoint, path, BREAKPOINT_FIELDS);
+  if (breakpoint.condition !== undefined && typeof breakpoint.condition !== 'string') throw badField(`${path}.condition`);
+};
+
+const checkWatchpoint = (watchpoint: Watchpoint, path: string): void => {
+  checkFields(watchpoint, path, WATCHPOINT_FIELDS);
+  if (watchpoint.end < watchpoint.start) throw new Error(`Saved session has ${path} ending before it starts`);
+  if (!WATCH_ACCESSES.includes(watchpoint.access)) throw badField(`${path}.access`);
+};
+
+const checkDevices = (devices: SavedDevices): void => {
+  checkFields(devices.ppi, 'devices.ppi', PPI_FIELDS);
+  checkFields(devices.pit, 'devices.pit', { clockDivider: 'number', lastCycles: 'number' });
+  if (!Array.isArray(devices.pit.counters) || devices.pit.counters.length !== 3) {
+    throw new Error('Saved session is incomplete: devices.pit.counters needs 3 counters');
+  }
+  devices.pit.counters.forEach((counter, i) => checkFields(counter, `devices.pit.counters[${i}]`, PIT_COUNTER_FIELDS));
+  checkFields(devices.kdc, 'devices.kdc', KDC_FIELDS);
+  if (devices.kdc.displayRam.length !== 16 || devices.kdc.sensorRam.length !== 8 || devices.kdc.fifo.length > 8) {
+    throw new Error('Saved session has 8279 RAM or FIFO of the wrong size');
+  }
+};
+
+export const serializeSession = (session: SessionSnapshot): string => JSON.stringify(session, null, 2);
+
+/** Parses an exported or stored session, throwing if it is not one this version can load. */
+export const parseSession = (text: string): SessionSnapshot => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  const session = data as Partial<SessionSnapshot> | null;
+  if (!session || typeof session !== 'object' || typeof session.version !== 'number') {
+    throw new Error('Not a saved session: no version field');
+  }
+  if (session.version > SESSION_VERSION) {
+    throw new Error(`Session version ${session.version} is newer than this emulator supports (${SESSION_VERSION})`);
+  }
+  if (!session.cpu || !session.io || typeof session.cpu.memory !== 'string') {
+    throw new Error('Saved session is incomplete');
+  }
+  // Catch bad contents here, before anything has been restored
+  checkCPU(session.cpu);
+  decodeBytes(session.cpu.memory, 0x10000, 'memory');
+  decodeBytes(session.cpu.ioPorts, 0x100, 'I/O ports');
+  checkIO(session.io);
+  validateRegions(session.io.memoryRegions ?? []);
+  if (session.devices) checkDevices(session.devices);
+  if (session.breakpoints !== undefined) checkList(session.breakpoints, 'breakpoints', checkBreakpoint);
+  if (session.watchpoints !== undefined) checkList(session.watchpoints, 'watchpoints', checkWatchpoint);
+  if (session.source !== undefined && typeof session.source !== 'string') throw badField('source');
+  if (session.examAddress !== undefined && !fieldMatches(session.examAddress, 'word')) throw badField('examAddress');
+  return {
+    breakpoints: [],
+    watchpoints: [],
+    source: '',
+    examAddress: 0,
+    ...session,
+  } as SessionSnapshot;
+};
+
+/** Named session slots in a Storage (localStorage in the browser). */
+export class SessionStore {
+  constructor(private storage: Storage, private prefix = 'i8085.session.') {}
+
+  public list(): SlotInfo[] {
+    const slots: SlotInfo[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (!key || !key.startsWith(this.prefix)) continue;
+      try {
+        const { savedAt } = JSON.parse(this.storage.getItem(key) ?? '') as SessionSnapshot;
+        slots.push({ name: key.slice(this.prefix.length), savedAt });
+      } catch {
+        // Unreadable entries are skipped; load() reports them
+      }
+    }
+    return slots.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /** Stores a session, throwing if storage is full. */
+  public save(name: string, session: SessionSnapshot): void {
+    try {
+      this.storage.setItem(this.prefix + name, JSON.stringify(session));
+    } catch {
+      throw new Error(`Browser storage is full; delete a slot or export '${name}' to a file instead`);
+    }
+  }
+
+  public load(name: string): SessionSnapshot | null {
+    const text = this.storage.getItem(this.prefix + name);
+    return text === null ? null : parseSession(text);
+  }
+
+  public remove(name: string): void {
+    this.storage.removeItem(this.prefix + name);
+  }
+}
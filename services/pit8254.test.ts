@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { PIT8254 } from './pit8254';
+
+// A PIT on counter 0 that records the clock pulse of every OUT edge
+const timer = (control: number, count: number) => {
+  const pit = new PIT8254();
+  const edges: { pulse: number; level: boolean }[] = [];
+  let pulse = 0;
+  pit.onOutputChange = (counter, level) => {
+    if (counter === 0) edges.push({ pulse, level });
+  };
+  pit.write(3, control);
+  pit.write(0, count & 0xFF);
+  pit.write(0, count >> 8);
+  const clock = (pulses: number) => {
+    for (let i = 0; i < pulses; i++) pit.tick(++pulse);
+  };
+  return { pit, edges, clock };
+};
+
+describe('counting', () => {
+  it('raises OUT once in mode 0, after the load clock and N counts', () => {
+    const { pit, edges, clock } = timer(0x30, 5);
+    expect(pit.getState()[0].out).toBe(false);
+    clock(5);
+    expect(pit.getState()[0].out).toBe(false);
+    clock(1);
+    expect(edges).toEqual([{ pulse: 0, level: false }, { pulse: 6, level: true }]); // Low when the mode word is written
+    clock(20);
+    expect(edges).toHaveLength(2);
+  });
+
+  it('pulses OUT low for one clock every N clocks in mode 2', () => {
+    const { edges, clock } = timer(0x34, 4);
+    clock(9);
+    expect(edges).toEqual([
+      { pulse: 4, level: false }, { pulse: 5, level: true },
+      { pulse: 8, level: false }, { pulse: 9, level: true },
+    ]);
+  });
+
+  it('makes a square wave with period N in mode 3', () => {
+    const { edges, clock } = timer(0x36, 4);
+    clock(9);
+    expect(edges).toEqual([
+      { pulse: 3, level: false }, { pulse: 5, level: true }, { pulse: 7, level: false }, { pulse: 9, level: true },
+    ]);
+  });
+
+  it('clocks once per divider T-states and ignores a clock that goes back', () => {
+    const pit = new PIT8254();
+    pit.clockDivider = 4;
+    pit.write(3, 0x30);
+    pit.write(0, 2);
+    pit.write(0, 0);
+    pit.tick(11); // Two pulses: load, then 2 -> 1
+    expect(pit.getState()[0].out).toBe(false);
+    pit.tick(5);
+    pit.tick(12); // From 5 to 12 crosses 8 and 12
+    expect(pit.getState()[0].out).toBe(true);
+  });
+
+  it('does not count while GATE is low in mode 2', () => {
+    const { pit, edges, clock } = timer(0x34, 3);
+    pit.setGate(0, false);
+    clock(10);
+    expect(edges).toEqual([]);
+  });
+
+  it('counts in BCD', () => {
+    const { pit, clock } = timer(0x31, 0x0010); // Mode 0 from 10 decimal
+    clock(4);
+    expect(pit.getState()[0].count).toBe(0x0007);
+  });
+});
+
+describe('reading', () => {
+  it('reads the count LSB then MSB, holding a latched value until both are read', () => {
+    const { pit, clock } = timer(0x30, 0x1234);
+    clock(3); // Load, then two counts
+    pit.write(3, 0x00); // Latch counter 0
+    clock(5);
+    expect(pit.read(0)).toBe(0x32);
+    expect(pit.read(0)).toBe(0x12);
+    expect(pit.read(0)).toBe(0x2D); // Live again: 1232H - 5
+  });
+
+  it('latches status and count with the read-back command', () => {
+    const { pit, clock } = timer(0x34, 0x0100);
+    clock(2);
+    pit.write(3, 0xC2); // Read-back counter 0: status and count
+    expect(pit.read(0)).toBe(0x80 | 0x30 | 0x04); // OUT high, count loaded, LSB/MSB, mode 2
+    expect(pit.read(0)).toBe(0xFF);
+    expect(pit.read(0)).toBe(0x00);
+  });
+
+  it('reports null count until the written count is loaded', () => {
+    const { pit, clock } = timer(0x34, 10);
+    pit.write(3, 0xE2); // Status only
+    expect(pit.read(0) & 0x40).toBe(0x40);
+    clock(1);
+    pit.write(3, 0xE2);
+    expect(pit.read(0) & 0x40).toBe(0);
+  });
+});
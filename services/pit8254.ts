@@ -0,0 +1,373 @@
+// Intel 8253/8254 Programmable Interval Timer. Offsets 0-2 are counters 0-2
+// and offset 3 the control register. Counters are clocked from the CPU's
+// executed T-states (optionally divided), never from wall time.
+
+import { IODevice } from './bus';
+
+export interface PITCounterState {
+  mode: number;
+  bcd: boolean;
+  access: number;     // 1 LSB only, 2 MSB only, 3 LSB then MSB
+  reload: number;     // Count register as written
+  count: number;      // Counting element, in the counter's own encoding
+  out: boolean;
+  gate: boolean;
+  nullCount: boolean; // A new count has been written but not yet loaded
+  programmed: boolean;
+}
+
+// One counter's complete state, for saved sessions and step back
+export interface PITCounterSavedState {
+  mode: number;
+  bcd: boolean;
+  access: number;
+  reload: number;
+  out: boolean;
+  gate: boolean;
+  nullCount: boolean;
+  programmed: boolean;
+  value: number;
+  hasCount: boolean;
+  counting: boolean;
+  loadPending: boolean;
+  strobeArmed: boolean;
+  lowByte: number;
+  writeMSBNext: boolean;
+  readMSBNext: boolean;
+  latchedCount: number | null;
+  latchedStatus: number | null;
+}
+
+export interface PITSavedState {
+  clockDivider: number;
+  lastCycles: number; // T-state count the counters were last clocked up to
+  counters: PITCounterSavedState[];
+}
+
+const toBCD = (value: number): number =>
+  (value % 10) | (Math.floor(value / 10) % 10) << 4 | (Math.floor(value / 100) % 10) << 8 | (Math.floor(value / 1000) % 10) << 12;
+
+const fromBCD = (value: number): number =>
+  (value & 0xF) + ((value >> 4) & 0xF) * 10 + ((value >> 8) & 0xF) * 100 + ((value >> 12) & 0xF) * 1000;
+
+class Counter {
+  public mode = 0;
+  public bcd = false;
+  public access = 3;
+  public reload = 0;
+  public out = true; // Undefined at power-up; high avoids a spurious edge on the first mode word
+  public gate = true; // Trainers normally tie GATE high
+  public nullCount = true;
+  public programmed = false; // A mode word has been written
+  private value = 0;         // Counting element as a plain number
+  private hasCount = false;  // A complete count has been written since the mode word
+  private counting = false;
+  private loadPending = false; // Load the count register on the next clock
+  private strobeArmed = false; // Modes 4 and 5 pulse OUT once per trigger
+  private lowByte = 0;
+  private writeMSBNext = false;
+  private readMSBNext = false;
+  private latchedCount: number | null = null;
+  private latchedStatus: number | null = null;
+
+  private get modulus(): number {
+    return this.bcd ? 10000 : 0x10000;
+  }
+
+  // A count of 0 means the full range
+  private get initialValue(): number {
+    const value = this.bcd ? fromBCD(this.reload) : this.reload;
+    return value === 0 ? this.modulus : value;
+  }
+
+  private get encodedCount(): number {
+    const value = this.value % this.modulus;
+    return this.bcd ? toBCD(value) : value;
+  }
+
+  public setMode(control: number): void {
+    this.mode = (control >> 1) & 7;
+    if (this.mode > 5) this.mode &= 3; // 6 and 7 alias modes 2 and 3
+    this.bcd = (control & 1) !== 0;
+    this.access = (control >> 4) & 3;
+    this.out = this.mode !== 0;
+    this.programmed = true;
+    this.nullCount = true;
+    this.hasCount = false;
+    this.counting = false;
+    this.loadPending = false;
+    this.strobeArmed = false;
+    this.writeMSBNext = false;
+    this.readMSBNext = false;
+    this.latchedCount = null;
+    this.latchedStatus = null;
+  }
+
+  public latchCount(): void {
+    if (this.latchedCount === null) this.latchedCount = this.encodedCount;
+  }
+
+  public latchStatus(): void {
+    if (this.latchedStatus !== null) return;
+    this.latchedStatus = (this.out ? 0x80 : 0) | (this.nullCount ? 0x40 : 0) | (this.access << 4) | (this.mode << 1) | (this.bcd ? 1 : 0);
+  }
+
+  public read(): number {
+    if (this.latchedStatus !== null) {
+      const status = this.latchedStatus;
+      this.latchedStatus = null;
+      return status;
+    }
+    const value = this.latchedCount ?? this.encodedCount;
+    let byte: number;
+    if (this.access === 1) byte = value & 0xFF;
+    else if (this.access === 2) byte = value >> 8;
+    else {
+      byte = this.readMSBNext ? value >> 8 : value & 0xFF;
+      this.readMSBNext = !this.readMSBNext;
+      if (this.readMSBNext) return byte; // Keep the latch until both bytes are read
+    }
+    this.latchedCount = null;
+    return byte & 0xFF;
+  }
+
+  public write(byte: number): void {
+    if (this.access === 1) this.reload = byte;
+    else if (this.access === 2) this.reload = byte << 8;
+    else if (!this.writeMSBNext) {
+      this.lowByte = byte;
+      this.writeMSBNext = true;
+      // In mode 0 the first byte stops the count and drops OUT
+      if (this.mode === 0) {
+        this.counting = false;
+        this.out = false;
+      }
+      return;
+    } else {
+      this.reload = this.lowByte | (byte << 8);
+      this.writeMSBNext = false;
+    }
+    this.nullCount = true;
+    this.hasCount = true;
+    switch (this.mode) {
+      case 0: this.out = false; this.loadPending = true; break;
+      case 4: this.loadPending = true; break;
+      case 2:
+      case 3: if (!this.counting) this.loadPending = true; break; // Otherwise taken at the end of the period
+      default: break; // Modes 1 and 5 wait for a GATE trigger
+    }
+  }
+
+  public setGate(level: boolean): void {
+    const rising = level && !this.gate;
+    this.gate = level;
+    if ((this.mode === 2 || this.mode === 3) && !level) this.out = true;
+    if (rising && this.hasCount && this.mode !== 0 && this.mode !== 4) this.loadPending = true;
+  }
+
+  private load(): void {
+    this.value = this.initialValue;
+    this.nullCount = false;
+    this.counting = true;
+    this.loadPending = false;
+    if (this.mode === 1) this.out = false;
+    if (this.mode === 3) this.out = true;
+    if (this.mode === 3 && this.value % 2 === 1) this.value++; // Odd counts: high for (N+1)/2, low for (N-1)/2
+    if (this.mode === 4 || this.mode === 5) this.strobeArmed = true;
+  }
+
+  public clock(): void {
+    if (this.loadPending) {
+      this.load();
+      return;
+    }
+    if (!this.counting) return;
+    const gated = this.mode === 1 || this.mode === 5 || this.gate;
+    if (!gated) return;
+
+    switch (this.mode) {
+      case 0:
+      case 1:
+        this.value = this.value === 0 ? this.modulus - 1 : this.value - 1;
+        if (this.value === 0) this.out = true;
+        break;
+      case 2:
+        if (!this.out) {
+          // One clock low at the end of each period, then reload
+          this.out = true;
+          this.value = this.initialValue;
+          this.nullCount = false;
+        } else if (--this.value === 1) {
+          this.out = false;
+        }
+        break;
+      case 3:
+        this.value -= 2;
+        if (this.value <= 0) {
+          this.out = !this.out;
+          this.value = this.initialValue;
+          this.nullCount = false;
+          if (this.value % 2 === 1) this.value += this.out ? 1 : -1;
+        }
+        break;
+      default: // Modes 4 and 5: one clock low when the count reaches 0
+        if (!this.out) this.out = true;
+        this.value = this.value === 0 ? this.modulus - 1 : this.value - 1;
+        if (this.value === 0 && this.strobeArmed) {
+          this.out = false;
+          this.strobeArmed = false;
+        }
+        break;
+    }
+  }
+
+  public saveState(): PITCounterSavedState {
+    return {
+      mode: this.mode,
+      bcd: this.bcd,
+      access: this.access,
+      reload: this.reload,
+      out: this.out,
+      gate: this.gate,
+      nullCount: this.nullCount,
+      programmed: this.programmed,
+      value: this.value,
+      hasCount: this.hasCount,
+      counting: this.counting,
+      loadPending: this.loadPending,
+      strobeArmed: this.strobeArmed,
+      lowByte: this.lowByte,
+      writeMSBNext: this.writeMSBNext,
+      readMSBNext: this.readMSBNext,
+      latchedCount: this.latchedCount,
+      latchedStatus: this.latchedStatus,
+    };
+  }
+
+  public restoreState(state: PITCounterSavedState): void {
+    this.mode = state.mode;
+    this.bcd = state.bcd;
+    this.access = state.access;
+    this.reload = state.reload;
+    this.out = state.out;
+    this.gate = state.gate;
+    this.nullCount = state.nullCount;
+    this.programmed = state.programmed;
+    this.value = state.value;
+    this.hasCount = state.hasCount;
+    this.counting = state.counting;
+    this.loadPending = state.loadPending;
+    this.strobeArmed = state.strobeArmed;
+    this.lowByte = state.lowByte;
+    this.writeMSBNext = state.writeMSBNext;
+    this.readMSBNext = state.readMSBNext;
+    this.latchedCount = state.latchedCount;
+    this.latchedStatus = state.latchedStatus;
+  }
+
+  public getState(): PITCounterState {
+    return {
+      mode: this.mode,
+      bcd: this.bcd,
+      access: this.access,
+      reload: this.reload,
+      count: this.encodedCount,
+      out: this.out,
+      gate: this.gate,
+      nullCount: this.nullCount,
+      programmed: this.programmed,
+    };
+  }
+}
+
+export class PIT8254 implements IODevice {
+  public name = '8254 PIT';
+  public clockDivider = 1; // CPU T-states per counter clock pulse
+  public onOutputChange: ((counter: number, level: boolean) => void) | null = null;
+  private counters = [new Counter(), new Counter(), new Counter()];
+  private lastCycles = 0;
+
+  public reset(): void {
+    this.withOutputs(() => { this.counters = [new Counter(), new Counter(), new Counter()]; });
+    this.lastCycles = 0;
+  }
+
+  public read(offset: number): number {
+    const index = offset & 3;
+    return index < 3 ? this.counters[index].read() : 0xFF; // The control register cannot be read
+  }
+
+  public write(offset: number, value: number): void {
+    const index = offset & 3;
+    this.withOutputs(() => {
+      if (index < 3) this.counters[index].write(value & 0xFF);
+      else this.writeControl(value & 0xFF);
+    });
+  }
+
+  public setGate(counter: number, level: boolean): void {
+    this.withOutputs(() => this.counters[counter].setGate(level));
+  }
+
+  public tick(cycles: number): void {
+    if (cycles < this.lastCycles) this.lastCycles = cycles; // Clock went back (reset or step back)
+    const pulses = Math.floor(cycles / this.clockDivider) - Math.floor(this.lastCycles / this.clockDivider);
+    this.lastCycles = cycles;
+    // Unprogrammed counters ignore the clock, so a reset PIT skips any long catch-up
+    if (!this.counters.some(counter => counter.programmed)) return;
+    // Pulse by pulse, so every OUT edge is reported (e.g. to edge-triggered RST 7.5).
+    // This runs for every clock pulse, so it compares levels inline rather than through withOutputs.
+    const [c0, c1, c2] = this.counters;
+    for (let i = 0; i < pulses; i++) {
+      const out0 = c0.out;
+      const out1 = c1.out;
+      const out2 = c2.out;
+      c0.clock();
+      c1.clock();
+      c2.clock();
+      if (c0.out !== out0) this.onOutputChange?.(0, c0.out);
+      if (c1.out !== out1) this.onOutputChange?.(1, c1.out);
+      if (c2.out !== out2) this.onOutputChange?.(2, c2.out);
+    }
+  }
+
+  public getState(): PITCounterState[] {
+    return this.counters.map(counter => counter.getState());
+  }
+
+  public saveState(): PITSavedState {
+    return { clockDivider: this.clockDivider, lastCycles: this.lastCycles, counters: this.counters.map(counter => counter.saveState()) };
+  }
+
+  /** Puts saved counters back, reporting OUT pins that change level so their wiring follows. */
+  public restoreState(state: PITSavedState): void {
+    this.clockDivider = state.clockDivider;
+    this.lastCycles = state.lastCycles;
+    this.withOutputs(() => this.counters.forEach((counter, i) => counter.restoreState(state.counters[i])));
+  }
+
+  private writeControl(value: number): void {
+    const select = value >> 6;
+    if (select === 3) {
+      // 8254 read-back: bit 5 low latches counts, bit 4 low latches status
+      this.counters.forEach((counter, i) => {
+        if (!(value & (2 << i))) return;
+        if (!(value & 0x20)) counter.latchCount();
+        if (!(value & 0x10)) counter.latchStatus();
+      });
+    } else if ((value & 0x30) === 0) {
+      this.counters[select].latchCount();
+    } else {
+      this.counters[select].setMode(value);
+    }
+  }
+
+  // Runs an update and reports any OUT pins that changed level
+  private withOutputs(update: () => void): void {
+    const before = this.counters.map(counter => counter.out);
+    update();
+    this.counters.forEach((counter, i) => {
+      if (counter.out !== before[i]) this.onOutputChange?.(i, counter.out);
+    });
+  }
+}
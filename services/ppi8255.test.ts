@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { decodeControlWord, PPI8255 } from './ppi8255';
+
+describe('mode 0', () => {
+  it('starts with every port an input', () => {
+    const ppi = new PPI8255();
+    ppi.setInput('A', 0x12);
+    ppi.setInput('B', 0x34);
+    expect(ppi.read(0)).toBe(0x12);
+    expect(ppi.read(1)).toBe(0x34);
+    expect(ppi.getState().outputMask).toEqual({ A: 0, B: 0, C: 0 });
+  });
+
+  it('drives output ports and clears them on a new mode word', () => {
+    const ppi = new PPI8255();
+    ppi.write(3, 0x80); // All outputs
+    ppi.write(0, 0x5A);
+    ppi.write(1, 0xA5);
+    expect(ppi.getState().pins).toMatchObject({ A: 0x5A, B: 0xA5 });
+    ppi.write(3, 0x80);
+    expect(ppi.getState().pins).toMatchObject({ A: 0x00, B: 0x00 });
+  });
+
+  it('sets and resets single port C bits', () => {
+    const ppi = new PPI8255();
+    ppi.write(3, 0x80);
+    ppi.write(3, 0x0B); // Set PC5
+    ppi.write(3, 0x01); // Set PC0
+    expect(ppi.read(2)).toBe(0x21);
+    ppi.write(3, 0x0A); // Reset PC5
+    expect(ppi.read(2)).toBe(0x01);
+  });
+
+  it('decodes the direction of each port from the mode word', () => {
+    expect(decodeControlWord(0x99)).toEqual({
+      groupAMode: 0, groupBMode: 0, portAInput: true, portBInput: false, portCUpperInput: true, portCLowerInput: true,
+    });
+  });
+});
+
+describe('mode 1', () => {
+  it('latches strobed input and interrupts when enabled', () => {
+    const ppi = new PPI8255();
+    ppi.write(3, 0xB0); // Port A mode 1 input
+    ppi.write(3, 0x09); // INTE A (PC4)
+    ppi.setInput('A', 0x77);
+    ppi.strobe('A');
+    ppi.setInput('A', 0x00); // The latch keeps what was strobed
+    expect(ppi.getState().interrupts.A).toBe(true);
+    expect(ppi.read(0)).toBe(0x77);
+    expect(ppi.getState().interrupts.A).toBe(false); // Reading clears IBF
+  });
+
+  it('raises OBF on output and interrupts once the device acknowledges', () => {
+    const ppi = new PPI8255();
+    ppi.write(3, 0xA0); // Port A mode 1 output
+    ppi.write(3, 0x0D); // INTE A (PC6)
+    ppi.write(0, 0x42);
+    expect(ppi.getState().interrupts.A).toBe(false);
+    ppi.acknowledge('A');
+    expect(ppi.getState().interrupts.A).toBe(true);
+  });
+
+  it('ignores a strobe on a port that is not in strobed input mode', () => {
+    const ppi = new PPI8255();
+    ppi.write(3, 0x9B);
+    ppi.write(3, 0x09);
+    ppi.strobe('A');
+    expect(ppi.getState().interrupts.A).toBe(false);
+  });
+});
@@ -0,0 +1,283 @@
+// Intel 8255 Programmable Peripheral Interface. Offsets 0-3 are port A, port B,
+// port C and the control register. Mode 0 is plain I/O, mode 1 is strobed I/O
+// with handshake lines on port C, and mode 2 (port A only) is bidirectional.
+
+import { IODevice } from './bus';
+
+export type PPIPort = 'A' | 'B' | 'C';
+
+export interface PPIConfig {
+  groupAMode: 0 | 1 | 2;
+  groupBMode: 0 | 1;
+  portAInput: boolean;
+  portBInput: boolean;
+  portCUpperInput: boolean;
+  portCLowerInput: boolean;
+}
+
+export interface PPIState {
+  control: number;                      // Last mode word written
+  config: PPIConfig;
+  pins: Record<PPIPort, number>;        // Levels an external device sees on each port
+  outputMask: Record<PPIPort, number>;  // Bits the 8255 drives; the rest are inputs
+  interrupts: { A: boolean; B: boolean }; // INTR A (PC3) and INTR B (PC0)
+}
+
+// What the chip holds, for saved sessions and step back. Input pins are
+// driven from outside, so they are not part of it.
+export interface PPISavedState {
+  control: number;
+  outA: number;
+  outB: number;
+  outC: number;
+  latchA: number;
+  latchB: number;
+  ibfA: boolean;
+  ibfB: boolean;
+  obfA: boolean;
+  obfB: boolean;
+  inteA: boolean;
+  inteA2: boolean;
+  inteB: boolean;
+}
+
+const RESET_CONTROL = 0x9B; // Mode 0, all ports input
+
+export const decodeControlWord = (control: number): PPIConfig => ({
+  groupAMode: (control & 0x40) ? 2 : (control & 0x20) ? 1 : 0,
+  groupBMode: (control & 0x04) ? 1 : 0,
+  portAInput: (control & 0x10) !== 0,
+  portBInput: (control & 0x02) !== 0,
+  portCUpperInput: (control & 0x08) !== 0,
+  portCLowerInput: (control & 0x01) !== 0,
+});
+
+const bit = (n: number, on: boolean) => on ? 1 << n : 0;
+
+export class PPI8255 implements IODevice {
+  public name = '8255 PPI';
+  public control = RESET_CONTROL;
+  public config = decodeControlWord(RESET_CONTROL);
+
+  // External pin levels for ports configured (or bits used) as inputs
+  private inputs: Record<PPIPort, number> = { A: 0, B: 0, C: 0 };
+  private outA = 0;
+  private outB = 0;
+  private outC = 0;
+
+  // Mode 1/2 handshake state
+  private latchA = 0; // Input latched by STB
+  private latchB = 0;
+  private ibfA = false; // Input buffer full
+  private ibfB = false;
+  private obfA = false; // Output buffer full (OBF pin is active low)
+  private obfB = false;
+  private inteA = false; // Mode 1 INTE A, or mode 2 INTE 1 (output)
+  private inteA2 = false; // Mode 2 INTE 2 (input)
+  private inteB = false;
+
+  public reset(): void {
+    this.setControl(RESET_CONTROL);
+  }
+
+  public read(offset: number): number {
+    switch (offset & 3) {
+      case 0: return this.readA();
+      case 1: return this.readB();
+      case 2: return this.readC();
+      default: return 0xFF; // The control register cannot be read
+    }
+  }
+
+  public write(offset: number, value: number): void {
+    switch (offset & 3) {
+      case 0: this.writeA(value); break;
+      case 1: this.writeB(value); break;
+      case 2: this.outC = value & 0xFF; break; // Handshake bits of port C are not affected
+      default:
+        if (value & 0x80) this.setControl(value);
+        else this.setBit((value >> 1) & 7, (value & 1) !== 0); // Bit set/reset (BSR)
+        break;
+    }
+  }
+
+  /** Sets the levels an external device drives onto a port's input pins. */
+  public setInput(port: PPIPort, value: number): void {
+    this.inputs[port] = value & 0xFF;
+  }
+
+  /** Pulses STB for port A or B: latches the input pins and raises IBF. */
+  public strobe(port: 'A' | 'B'): void {
+    if (port === 'A' && (this.config.groupAMode === 2 || (this.config.groupAMode === 1 && this.config.portAInput))) {
+      this.latchA = this.inputs.A;
+      this.ibfA = true;
+    } else if (port === 'B' && this.config.groupBMode === 1 && this.config.portBInput) {
+      this.latchB = this.inputs.B;
+      this.ibfB = true;
+    }
+  }
+
+  /** Pulses ACK for port A or B: the device has taken the output byte, so OBF clears. */
+  public acknowledge(port: 'A' | 'B'): void {
+    if (port === 'A' && (this.config.groupAMode === 2 || (this.config.groupAMode === 1 && !this.config.portAInput))) {
+      this.obfA = false;
+    } else if (port === 'B' && this.config.groupBMode === 1 && !this.config.portBInput) {
+      this.obfB = false;
+    }
+  }
+
+  public getState(): PPIState {
+    const outputMask = this.outputMask();
+    const portC = this.readC();
+    // STB and ACK are inputs that idle high
+    const handshakeInputs = this.handshakeMask() & ~this.handshakeOutputMask();
+    return {
+      control: this.control,
+      config: { ...this.config },
+      pins: {
+        A: outputMask.A ? this.outA : this.inputs.A,
+        B: outputMask.B ? this.outB : this.inputs.B,
+        C: (portC & outputMask.C) | (this.inputs.C & ~outputMask.C & ~handshakeInputs) | handshakeInputs,
+      },
+      outputMask,
+      interrupts: { A: this.intrA(), B: this.intrB() },
+    };
+  }
+
+  public saveState(): PPISavedState {
+    return {
+      control: this.control,
+      outA: this.outA, outB: this.outB, outC: this.outC,
+      latchA: this.latchA, latchB: this.latchB,
+      ibfA: this.ibfA, ibfB: this.ibfB, obfA: this.obfA, obfB: this.obfB,
+      inteA: this.inteA, inteA2: this.inteA2, inteB: this.inteB,
+    };
+  }
+
+  public restoreState(state: PPISavedState): void {
+    this.control = state.control & 0xFF;
+    this.config = decodeControlWord(this.control);
+    this.outA = state.outA;
+    this.outB = state.outB;
+    this.outC = state.outC;
+    this.latchA = state.latchA;
+    this.latchB = state.latchB;
+    this.ibfA = state.ibfA;
+    this.ibfB = state.ibfB;
+    this.obfA = state.obfA;
+    this.obfB = state.obfB;
+    this.inteA = state.inteA;
+    this.inteA2 = state.inteA2;
+    this.inteB = state.inteB;
+  }
+
+  private setControl(value: number): void {
+    this.control = value & 0xFF;
+    this.config = decodeControlWord(this.control);
+    // A mode word clears every output latch and status flip-flop
+    this.outA = this.outB = this.outC = 0;
+    this.latchA = this.latchB = 0;
+    this.ibfA = this.ibfB = this.obfA = this.obfB = false;
+    this.inteA = this.inteA2 = this.inteB = false;
+  }
+
+  private setBit(n: number, on: boolean): void {
+    const { groupAMode, groupBMode, portAInput } = this.config;
+    // In modes 1 and 2 the STB/ACK bit positions hold the interrupt enables
+    if (groupAMode === 2 && n === 6) this.inteA = on;
+    else if (groupAMode === 2 && n === 4) this.inteA2 = on;
+    else if (groupAMode === 1 && n === (portAInput ? 4 : 6)) this.inteA = on;
+    else if (groupBMode === 1 && n === 2) this.inteB = on;
+    else this.outC = on ? this.outC | (1 << n) : this.outC & ~(1 << n);
+  }
+
+  private readA(): number {
+    const { groupAMode, portAInput } = this.config;
+    if (groupAMode === 2 || (groupAMode === 1 && portAInput)) {
+      this.ibfA = false;
+      return this.latchA;
+    }
+    return groupAMode === 0 && portAInput ? this.inputs.A : this.outA;
+  }
+
+  private readB(): number {
+    const { groupBMode, portBInput } = this.config;
+    if (groupBMode === 1 && portBInput) {
+      this.ibfB = false;
+      return this.latchB;
+    }
+    return portBInput ? this.inputs.B : this.outB;
+  }
+
+  private writeA(value: number): void {
+    this.outA = value & 0xFF;
+    const { groupAMode, portAInput } = this.config;
+    if (groupAMode === 2 || (groupAMode === 1 && !portAInput)) this.obfA = true;
+  }
+
+  private writeB(value: number): void {
+    this.outB = value & 0xFF;
+    if (this.config.groupBMode === 1 && !this.config.portBInput) this.obfB = true;
+  }
+
+  private intrA(): boolean {
+    const { groupAMode, portAInput } = this.config;
+    if (groupAMode === 2) return (this.inteA && !this.obfA) || (this.inteA2 && this.ibfA);
+    if (groupAMode === 1) return this.inteA && (portAInput ? this.ibfA : !this.obfA);
+    return false;
+  }
+
+  private intrB(): boolean {
+    if (this.config.groupBMode !== 1) return false;
+    return this.inteB && (this.config.portBInput ? this.ibfB : !this.obfB);
+  }
+
+  // Port C bits used as handshake lines by the current modes
+  private handshakeMask(): number {
+    const { groupAMode, groupBMode, portAInput } = this.config;
+    let mask = groupBMode === 1 ? 0x07 : 0;
+    if (groupAMode === 2) mask |= 0xF8;
+    else if (groupAMode === 1) mask |= portAInput ? 0x38 : 0xC8;
+    return mask;
+  }
+
+  // Handshake lines the 8255 drives: INTR, IBF and OBF (not STB or ACK)
+  private handshakeOutputMask(): number {
+    const { groupAMode, groupBMode, portAInput } = this.config;
+    let mask = groupBMode === 1 ? 0x03 : 0;
+    if (groupAMode === 2) mask |= 0xA8;
+    else if (groupAMode === 1) mask |= portAInput ? 0x28 : 0x88;
+    return mask;
+  }
+
+  private outputMask(): Record<PPIPort, number> {
+    const { groupAMode, portAInput, portBInput, portCUpperInput, portCLowerInput } = this.config;
+    const handshake = this.handshakeMask();
+    const plainC = (portCUpperInput ? 0 : 0xF0) | (portCLowerInput ? 0 : 0x0F);
+    return {
+      A: groupAMode === 2 ? 0xFF : portAInput ? 0 : 0xFF,
+      B: portBInput ? 0 : 0xFF,
+      C: (plainC & ~handshake) | this.handshakeOutputMask(),
+    };
+  }
+
+  // Port C reads the output latch, the input pins, or the mode 1/2 status word bit by bit
+  private readC(): number {
+    const { groupAMode, groupBMode, portAInput, portBInput, portCUpperInput, portCLowerInput } = this.config;
+    const handshake = this.handshakeMask();
+    const inputBits = (portCUpperInput ? 0xF0 : 0) | (portCLowerInput ? 0x0F : 0);
+    let value = ((this.inputs.C & inputBits) | (this.outC & ~inputBits)) & ~handshake;
+
+    if (groupAMode === 2) {
+      value |= bit(7, !this.obfA) | bit(6, this.inteA) | bit(5, this.ibfA) | bit(4, this.inteA2) | bit(3, this.intrA());
+    } else if (groupAMode === 1 && portAInput) {
+      value |= bit(5, this.ibfA) | bit(4, this.inteA) | bit(3, this.intrA());
+    } else if (groupAMode === 1) {
+      value |= bit(7, !this.obfA) | bit(6, this.inteA) | bit(3, this.intrA());
+    }
+    if (groupBMode === 1) {
+      value |= bit(2, this.inteB) | bit(1, portBInput ? this.ibfB : !this.obfB) | bit(0, this.intrB());
+    }
+    return value & 0xFF;
+  }
+}
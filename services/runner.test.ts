@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { CPU8085 } from './8085';
+import { MemoryMap } from './memoryMap';
+import { loadImage, runUntilHalt } from './runner';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+// A CPU with `bytes` at 2000H, ready to run them
+const withProgram = (bytes: number[]) => {
+  const cpu = new CPU8085();
+  cpu.memory.set(bytes, 0x2000);
+  cpu.registers.PC = 0x2000;
+  return cpu;
+};
+
+describe('loading', () => {
+  it('assembles source files and starts at the entry point', () => {
+    const image = loadImage('add.asm', encode('ORG 2000H\nDB 5\nSTART: HLT\nEND START'), 0);
+    expect(image).toEqual({ segments: [{ address: 0x2000, bytes: [0x05, 0x76] }], entryPoint: 0x2001 });
+  });
+
+  it('reports the first assembly error and how many more there are', () => {
+    expect(() => loadImage('bad.asm', encode('FOO\nMVI A, 300'), 0))
+      .toThrow("Line 1, col 1: Unknown instruction 'FOO' (and 1 more)");
+  });
+
+  it('reads Intel HEX and starts at its first byte', () => {
+    const image = loadImage('prog.HEX', encode(':012000007669\n:00000001FF\n'), 0);
+    expect(image).toEqual({ segments: [{ address: 0x2000, bytes: [0x76] }], entryPoint: 0x2000 });
+  });
+
+  it('places anything else as a raw image at the base address', () => {
+    expect(loadImage('prog.bin', new Uint8Array([0x3E, 0x01]), 0x4000))
+      .toEqual({ segments: [{ address: 0x4000, bytes: [0x3E, 0x01] }], entryPoint: 0x4000 });
+  });
+});
+
+describe('running', () => {
+  it('stops at HLT with the steps and T-states taken', () => {
+    const result = runUntilHalt(withProgram([0x3E, 0x01, 0x76]), { maxSteps: 100 }); // MVI A, 1; HLT
+    expect(result).toEqual({ status: 'halted', message: 'HLT at 2002H', steps: 2, cycles: 7 + 5 });
+  });
+
+  it('stops at the step and cycle limits', () => {
+    const loop = [0xC3, 0x00, 0x20]; // JMP 2000H
+    expect(runUntilHalt(withProgram(loop), { maxSteps: 5 })).toMatchObject({ status: 'step-limit', steps: 5 });
+    expect(runUntilHalt(withProgram(loop), { maxSteps: 100, maxCycles: 25 })).toMatchObject({ status: 'cycle-limit', steps: 3, cycles: 30 });
+  });
+
+  it('reports an unknown opcode', () => {
+    const result = runUntilHalt(withProgram([0x00, 0x08]), { maxSteps: 10 }); // DSUB with undocumented opcodes off
+    expect(result).toMatchObject({ status: 'unknown-opcode', message: 'Unknown opcode 08H at 2001H' });
+  });
+
+  it('reports a write to ROM', () => {
+    const cpu = withProgram([0x32, 0x00, 0x10, 0x76]); // STA 1000H; HLT
+    cpu.memoryMap = new MemoryMap([{ start: 0x0000, end: 0x1FFF, kind: 'rom' }, { start: 0x2000, end: 0xFFFF, kind: 'ram' }]);
+    expect(runUntilHalt(cpu, { maxSteps: 10 })).toMatchObject({ status: 'fault', message: 'Write of 00H to ROM at 1000H by instruction at 2000H' });
+  });
+});
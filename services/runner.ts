@@ -0,0 +1,76 @@
+// Runs a CPU without the UI: load a program image, step until it stops, and
+// say why. Shared by the command-line runner and anything else headless.
+
+import { CPU8085 } from './8085';
+import { assemble, MemorySegment } from './assembler';
+import { parseIntelHex, binarySegment } from './intelHex';
+import { describeFault } from './debugger';
+import { toHexString } from '../utils/formatters';
+
+export interface LoadedImage {
+  segments: MemorySegment[];
+  entryPoint: number;
+}
+
+export type RunStatus = 'halted' | 'unknown-opcode' | 'fault' | 'step-limit' | 'cycle-limit';
+
+export interface RunLimits {
+  maxSteps: number;
+  maxCycles?: number; // T-states
+}
+
+export interface RunResult {
+  status: RunStatus;
+  message: string;
+  steps: number;
+  cycles: number;
+}
+
+/**
+ * Turns a program file into memory segments: `.asm` source is assembled,
+ * `.hex`/`.ihx` parsed as Intel HEX, and anything else taken as a raw image
+ * at `base`. Throws with the first problem found.
+ */
+export const loadImage = (fileName: string, data: Uint8Array, base: number): LoadedImage => {
+  if (/\.(asm|s|a85|txt)$/i.test(fileName)) {
+    const result = assemble(new TextDecoder().decode(data));
+    if (result.errors.length > 0) {
+      const [first] = result.errors;
+      throw new Error(`Line ${first.line}, col ${first.column}: ${first.message}` +
+        (result.errors.length > 1 ? ` (and ${result.errors.length - 1} more)` : ''));
+    }
+    return { segments: result.segments, entryPoint: result.entryPoint };
+  }
+  const segments = /\.(hex|ihx)$/i.test(fileName)
+    ? parseIntelHex(new TextDecoder().decode(data))
+    : [binarySegment(data, base)];
+  return { segments, entryPoint: segments[0]?.address ?? base };
+};
+
+/** Steps until HLT, an unknown opcode, a memory fault or a limit. */
+export const runUntilHalt = (cpu: CPU8085, limits: RunLimits): RunResult => {
+  const startCycles = cpu.cycles;
+  let steps = 0;
+  const result = (status: RunStatus, message: string): RunResult =>
+    ({ status, message, steps, cycles: cpu.cycles - startCycles });
+
+  while (true) {
+    // Nothing outside the CPU raises interrupts here, so HLT is final unless one is already pending
+    if (cpu.halted && !cpu.hasPendingInterrupt()) {
+      return result('halted', `HLT at ${toHexString((cpu.registers.PC - 1) & 0xFFFF, 4)}H`);
+    }
+    if (steps >= limits.maxSteps) return result('step-limit', `Step limit of ${limits.maxSteps} reached`);
+    if (limits.maxCycles !== undefined && cpu.cycles - startCycles >= limits.maxCycles) {
+      return result('cycle-limit', `Cycle limit of ${limits.maxCycles} T-states reached`);
+    }
+    cpu.step();
+    steps++;
+    if (cpu.unknownOpcode) {
+      const { opcode, address } = cpu.unknownOpcode;
+      return result('unknown-opcode', `Unknown opcode ${toHexString(opcode, 2)}H at ${toHexString(address, 4)}H`);
+    }
+    if (cpu.fault) {
+      return result('fault', describeFault(cpu.fault));
+    }
+  }
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { CPU8085 } from './8085';
+import { ExecutionScheduler, FrameClock, RunSpeed } from './scheduler';
+
+// A scheduler over a CPU running NOPs (4 T-states each), with frames fired by hand
+const setup = (speed: RunSpeed, stepLimit = Infinity) => {
+  const cpu = new CPU8085();
+  cpu.clockHz = 1000;
+  let now = 0;
+  let pending: (() => void) | null = null;
+  const clock: FrameClock = {
+    request: callback => { pending = callback; return 1; },
+    cancel: () => { pending = null; },
+    now: () => now,
+  };
+  let steps = 0;
+  let refreshes = 0;
+  const scheduler = new ExecutionScheduler(cpu, {
+    step: () => {
+      cpu.step();
+      return ++steps < stepLimit;
+    },
+    refresh: () => { refreshes++; },
+  }, clock);
+  scheduler.speed = speed;
+  // Lets `ms` pass, then runs the frame that was asked for, if any
+  const frame = (ms: number) => {
+    now += ms;
+    const callback = pending;
+    pending = null;
+    callback?.();
+  };
+  return { cpu, scheduler, frame, steps: () => steps, refreshes: () => refreshes };
+};
+
+describe('pacing', () => {
+  it('runs a fixed number of instructions per second', () => {
+    const { scheduler, frame, steps } = setup({ mode: 'fixed', ips: 10 });
+    scheduler.start();
+    for (let i = 0; i < 10; i++) frame(100);
+    expect(steps()).toBe(10);
+  });
+
+  it('runs as many T-states as the clock frequency allows in real time', () => {
+    const { cpu, scheduler, frame } = setup({ mode: 'realtime', ips: 0 });
+    scheduler.start();
+    frame(100);
+    expect(cpu.cycles).toBe(100); // 1000 Hz for 100 ms: 25 NOPs
+    frame(100);
+    expect(cpu.cycles).toBe(200);
+  });
+
+  it('does not make up for a long gap between frames', () => {
+    const { scheduler, frame, steps } = setup({ mode: 'fixed', ips: 10 });
+    scheduler.start();
+    frame(5000); // Capped at 100 ms
+    expect(steps()).toBe(1);
+  });
+
+  it('carries part-instructions between frames until the speed changes', () => {
+    const { scheduler, frame, steps } = setup({ mode: 'fixed', ips: 5 });
+    scheduler.start();
+    frame(100); // Half an instruction owed: one runs, half an instruction ahead
+    frame(100);
+    expect(steps()).toBe(1);
+    scheduler.speed = { mode: 'fixed', ips: 5 };
+    frame(100);
+    expect(steps()).toBe(2);
+  });
+});
+
+describe('running', () => {
+  it('stops when the step hook says so and asks for no more frames', () => {
+    const { scheduler, frame, steps } = setup({ mode: 'unlimited', ips: 0 }, 3);
+    scheduler.start();
+    expect(scheduler.running).toBe(true);
+    frame(16);
+    expect(steps()).toBe(3);
+    expect(scheduler.running).toBe(false);
+    frame(16);
+    expect(steps()).toBe(3);
+  });
+
+  it('refreshes the UI at most 30 times a second', () => {
+    const { scheduler, frame, refreshes } = setup({ mode: 'fixed', ips: 1 });
+    scheduler.start();
+    for (let i = 0; i < 60; i++) frame(10);
+    expect(refreshes()).toBe(15); // Every 40 ms: the first frame at or past 33 ms
+  });
+
+  it('measures the clock rate over half a second', () => {
+    const { scheduler, frame } = setup({ mode: 'realtime', ips: 0 });
+    scheduler.start();
+    for (let i = 0; i < 5; i++) frame(100);
+    expect(scheduler.effectiveHz).toBe(1000);
+    expect(scheduler.effectiveIps).toBe(250);
+  });
+});
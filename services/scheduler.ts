@@ -0,0 +1,144 @@
+// Runs the CPU in batches, one per animation frame, paced to a target speed.
+// The UI is refreshed at a capped rate instead of after every instruction, so
+// rendering cost no longer decides how fast programs run.
+
+import { CPU8085 } from './8085';
+
+export type SpeedMode = 'realtime' | 'fixed' | 'unlimited';
+
+export interface RunSpeed {
+  mode: SpeedMode;
+  ips: number; // Instructions per second, for 'fixed'
+}
+
+export interface SpeedPreset {
+  label: string;
+  speed: RunSpeed;
+}
+
+// Stops on the speed slider, slowest first
+export const SPEED_PRESETS: SpeedPreset[] = [
+  { label: '2 IPS', speed: { mode: 'fixed', ips: 2 } },
+  { label: '10 IPS', speed: { mode: 'fixed', ips: 10 } },
+  { label: '50 IPS', speed: { mode: 'fixed', ips: 50 } },
+  { label: '1K IPS', speed: { mode: 'fixed', ips: 1_000 } },
+  { label: '10K IPS', speed: { mode: 'fixed', ips: 10_000 } },
+  { label: '100K IPS', speed: { mode: 'fixed', ips: 100_000 } },
+  { label: 'REAL-TIME', speed: { mode: 'realtime', ips: 0 } },
+  { label: 'MAX', speed: { mode: 'unlimited', ips: 0 } },
+];
+
+export const DEFAULT_SPEED: RunSpeed = { mode: 'realtime', ips: 0 };
+
+export interface SchedulerHooks {
+  step: () => boolean;  // Executes one instruction; false ends the run, and the hook redraws the UI itself
+  refresh: () => void;  // Redraws the UI while running
+}
+
+// Animation frame source, replaceable for running outside a browser
+export interface FrameClock {
+  request: (callback: () => void) => number;
+  cancel: (id: number) => void;
+  now: () => number; // Milliseconds
+}
+
+const browserClock: FrameClock = {
+  request: callback => window.requestAnimationFrame(callback),
+  cancel: id => window.cancelAnimationFrame(id),
+  now: () => performance.now(),
+};
+
+const MAX_UI_FPS = 30;
+const FRAME_WORK_MS = 12;      // CPU time per frame, leaving the rest of a 60 Hz frame for rendering
+const MAX_FRAME_GAP_MS = 100;  // A longer gap (background tab, debugger pause) is not made up
+const TIME_CHECK_STEPS = 1024; // Instructions between clock reads
+const MEASURE_WINDOW_MS = 500;
+
+export class ExecutionScheduler {
+  private _speed: RunSpeed = DEFAULT_SPEED;
+  public effectiveHz = 0;  // Measured clock rate: T-states per second over the last window
+  public effectiveIps = 0; // Measured instructions per second
+  private frameId: number | null = null;
+  private lastFrame = 0;
+  private lastRefresh = 0;
+  private owed = 0; // T-states ('realtime') or instructions ('fixed') due but not yet run
+  private windowStart = 0;
+  private windowCycles = 0;
+  private windowSteps = 0;
+
+  constructor(private cpu: CPU8085, private hooks: SchedulerHooks, private clock: FrameClock = browserClock) {}
+
+  public get speed(): RunSpeed {
+    return this._speed;
+  }
+
+  public set speed(speed: RunSpeed) {
+    this._speed = speed;
+    this.owed = 0; // Owed work was counted in the old mode's units
+  }
+
+  public get running(): boolean {
+    return this.frameId !== null;
+  }
+
+  public start(): void {
+    if (this.running) return;
+    const now = this.clock.now();
+    this.lastFrame = now;
+    this.lastRefresh = now;
+    this.owed = 0;
+    this.windowStart = now;
+    this.windowCycles = this.cpu.cycles;
+    this.windowSteps = 0;
+    this.effectiveHz = 0;
+    this.effectiveIps = 0;
+    this.frameId = this.clock.request(() => this.frame());
+  }
+
+  public stop(): void {
+    if (this.frameId !== null) this.clock.cancel(this.frameId);
+    this.frameId = null;
+  }
+
+  private frame(): void {
+    const start = this.clock.now();
+    const elapsed = Math.min(start - this.lastFrame, MAX_FRAME_GAP_MS);
+    this.lastFrame = start;
+
+    const { mode, ips } = this._speed;
+    if (mode === 'realtime') this.owed += elapsed / 1000 * this.cpu.clockHz;
+    else if (mode === 'fixed') this.owed += elapsed / 1000 * ips;
+
+    const startCycles = this.cpu.cycles;
+    let steps = 0;
+    while (mode === 'unlimited' || (mode === 'realtime' ? this.cpu.cycles - startCycles : steps) < this.owed) {
+      if (!this.hooks.step()) {
+        this.stop();
+        return;
+      }
+      steps++;
+      // Out of time for this frame: drop what is still owed rather than fall further behind
+      if (steps % TIME_CHECK_STEPS === 0 && this.clock.now() - start >= FRAME_WORK_MS) {
+        this.owed = 0;
+        break;
+      }
+    }
+    if (mode !== 'unlimited' && this.owed > 0) this.owed -= mode === 'realtime' ? this.cpu.cycles - startCycles : steps;
+    this.windowSteps += steps;
+
+    const now = this.clock.now();
+    if (now - this.windowStart >= MEASURE_WINDOW_MS) {
+      const seconds = (now - this.windowStart) / 1000;
+      this.effectiveHz = (this.cpu.cycles - this.windowCycles) / seconds;
+      this.effectiveIps = this.windowSteps / seconds;
+      this.windowStart = now;
+      this.windowCycles = this.cpu.cycles;
+      this.windowSteps = 0;
+    }
+    if (now - this.lastRefresh >= 1000 / MAX_UI_FPS) {
+      this.lastRefresh = now;
+      this.hooks.refresh();
+    }
+    this.frameId = this.clock.request(() => this.frame());
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { SoftwareUart, tStatesPerBitFor } from './serial';
+
+const BIT = 10; // T-states per bit in these tests
+
+// Drives SOD with an 8N1 frame for `byte` from `start`, with the stop bit `stopLevel`
+const sendFrame = (uart: SoftwareUart, byte: number, start: number, stopLevel = true) => {
+  const levels = [false, ...Array.from({ length: 8 }, (_, i) => ((byte >> i) & 1) === 1), stopLevel];
+  levels.forEach((level, i) => uart.writeSOD(level, start + i * BIT));
+  if (!stopLevel) uart.writeSOD(true, start + 10 * BIT);
+};
+
+const receiver = () => {
+  const uart = new SoftwareUart(BIT);
+  const received: { byte: number; framingError: boolean }[] = [];
+  uart.onReceive = (byte, framingError) => received.push({ byte, framingError });
+  return { uart, received };
+};
+
+describe('baud rate', () => {
+  it('rounds the clock to T-states per bit', () => {
+    expect(tStatesPerBitFor(2400, 3_072_000)).toBe(1280);
+    expect(tStatesPerBitFor(9600, 3_000_000)).toBe(313);
+  });
+});
+
+describe('receiving on SOD', () => {
+  it('decodes a frame once its stop bit has been sampled', () => {
+    const { uart, received } = receiver();
+    sendFrame(uart, 0x41, 100);
+    uart.tick(100 + 9 * BIT);
+    expect(received).toEqual([]);
+    uart.tick(100 + 10 * BIT);
+    expect(received).toEqual([{ byte: 0x41, framingError: false }]);
+  });
+
+  it('decodes back-to-back frames', () => {
+    const { uart, received } = receiver();
+    sendFrame(uart, 0x48, 0);
+    sendFrame(uart, 0x69, 10 * BIT);
+    uart.tick(30 * BIT);
+    expect(received.map(r => r.byte)).toEqual([0x48, 0x69]);
+  });
+
+  it('reports a framing error when the stop bit is low', () => {
+    const { uart, received } = receiver();
+    sendFrame(uart, 0x00, 0, false);
+    uart.tick(20 * BIT);
+    expect(received[0]).toEqual({ byte: 0x00, framingError: true });
+  });
+});
+
+describe('transmitting on SID', () => {
+  it('idles high, then sends start, data LSB first, and stop bits', () => {
+    const uart = new SoftwareUart(BIT);
+    expect(uart.readSID(0)).toBe(true);
+    uart.send('A');
+    const bits = Array.from({ length: 10 }, (_, i) => uart.readSID(1000 + i * BIT + BIT / 2));
+    expect(bits).toEqual([false, true, false, false, false, false, false, true, false, true]);
+  });
+
+  it('moves to the next character after the frame and a gap bit', () => {
+    const uart = new SoftwareUart(BIT);
+    uart.send('AB');
+    uart.readSID(0); // Starts the first frame
+    expect(uart.pendingInput).toBe(2);
+    expect(uart.readSID(11 * BIT + BIT / 2)).toBe(false); // Start bit of B
+    expect(uart.pendingInput).toBe(1);
+    expect(uart.readSID(12 * BIT + BIT / 2)).toBe(false); // B = 42H, bit 0 low
+    expect(uart.readSID(13 * BIT + BIT / 2)).toBe(true);
+  });
+});
@@ -0,0 +1,149 @@
+// Software UART on the 8085 serial pins: SOD (set by SIM) and SID (read by RIM).
+// Frames are 8N1, LSB first, idle high. Timing is measured in CPU T-states.
+
+export interface SerialLine {
+  readSID(cycles: number): boolean;
+  writeSOD(level: boolean, cycles: number): void;
+  tick(cycles: number): void; // Called after every CPU step
+  saveState?(): unknown;       // For step back
+  restoreState?(state: unknown): void;
+}
+
+interface Edge {
+  cycle: number;
+  level: boolean;
+}
+
+export interface UartSavedState {
+  sodLevel: boolean;
+  rxStart: number | null;
+  rxEdges: Edge[];
+  txQueue: number[];
+  txStart: number | null;
+}
+
+const FRAME_BITS = 10; // start + 8 data + stop
+const TX_GAP_BITS = 1; // Extra idle time between characters sent on SID
+
+export const tStatesPerBitFor = (baudRate: number, clockHz: number): number => Math.round(clockHz / baudRate);
+
+export class SoftwareUart implements SerialLine {
+  public tStatesPerBit: number;
+  public onReceive: ((byte: number, framingError: boolean) => void) | null = null;
+
+  // SOD receiver
+  private sodLevel = true;
+  private rxStart: number | null = null;
+  private rxEdges: Edge[] = [];
+
+  // SID transmitter
+  private txQueue: number[] = [];
+  private txStart: number | null = null;
+
+  constructor(tStatesPerBit: number = tStatesPerBitFor(2400, 3_072_000)) {
+    this.tStatesPerBit = tStatesPerBit;
+  }
+
+  public reset(): void {
+    this.sodLevel = true;
+    this.rxStart = null;
+    this.rxEdges = [];
+    this.txQueue = [];
+    this.txStart = null;
+  }
+
+  public saveState(): UartSavedState {
+    return {
+      sodLevel: this.sodLevel,
+      rxStart: this.rxStart,
+      rxEdges: this.rxEdges.map(edge => ({ ...edge })),
+      txQueue: [...this.txQueue],
+      txStart: this.txStart,
+    };
+  }
+
+  public restoreState(state: UartSavedState): void {
+    this.sodLevel = state.sodLevel;
+    this.rxStart = state.rxStart;
+    this.rxEdges = state.rxEdges.map(edge => ({ ...edge }));
+    this.txQueue = [...state.txQueue];
+    this.txStart = state.txStart;
+  }
+
+  /** Queues text to be clocked into the CPU on SID. */
+  public send(text: string): void {
+    for (const ch of text) this.txQueue.push(ch.charCodeAt(0) & 0xFF);
+  }
+
+  public get pendingInput(): number {
+    return this.txQueue.length;
+  }
+
+  public writeSOD(level: boolean, cycles: number): void {
+    this.tick(cycles);
+    if (level === this.sodLevel) return;
+    this.sodLevel = level;
+    if (this.rxStart === null) {
+      if (!level) {
+        // Falling edge on an idle line is a start bit
+        this.rxStart = cycles;
+        this.rxEdges = [{ cycle: cycles, level }];
+      }
+    } else {
+      this.rxEdges.push({ cycle: cycles, level });
+    }
+  }
+
+  public readSID(cycles: number): boolean {
+    if (this.txStart === null) {
+      if (this.txQueue.length === 0) return true;
+      this.txStart = cycles; // Start the next frame when the program first looks at the line
+    }
+    const bit = Math.floor((cycles - this.txStart) / this.tStatesPerBit);
+    if (bit >= FRAME_BITS + TX_GAP_BITS) {
+      this.txQueue.shift();
+      this.txStart = this.txQueue.length > 0 ? this.txStart + (FRAME_BITS + TX_GAP_BITS) * this.tStatesPerBit : null;
+      return this.readSID(cycles);
+    }
+    if (bit === 0) return false; // Start bit
+    if (bit <= 8) return ((this.txQueue[0] >> (bit - 1)) & 1) === 1;
+    return true; // Stop bit and gap
+  }
+
+  public tick(cycles: number): void {
+    while (this.rxStart !== null && cycles >= this.rxStart + (FRAME_BITS - 0.5) * this.tStatesPerBit) {
+      this.decodeFrame(this.rxStart);
+    }
+  }
+
+  private levelAt(cycle: number): boolean {
+    let level = true;
+    for (const edge of this.rxEdges) {
+      if (edge.cycle > cycle) break;
+      level = edge.level;
+    }
+    return level;
+  }
+
+  // Samples each bit in the middle of its period
+  private decodeFrame(start: number): void {
+    let byte = 0;
+    for (let i = 0; i < 8; i++) {
+      if (this.levelAt(start + (1.5 + i) * this.tStatesPerBit)) byte |= 1 << i;
+    }
+    const stopSample = start + (FRAME_BITS - 0.5) * this.tStatesPerBit;
+    const framingError = !this.levelAt(stopSample);
+    this.onReceive?.(byte, framingError);
+
+    // A start bit may already have arrived after this frame's stop bit
+    const remaining = this.rxEdges.filter(edge => edge.cycle > stopSample);
+    const nextStart = remaining.findIndex(edge => !edge.level);
+    if (nextStart >= 0) {
+      this.rxEdges = remaining.slice(nextStart);
+      this.rxStart = this.rxEdges[0].cycle;
+    } else {
+      this.rxEdges = [];
+      this.rxStart = null;
+    }
+  }
+}
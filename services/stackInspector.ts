@@ -0,0 +1,53 @@
+// Reads the stack for the stack panel: each word from SP upward with what
+// pushed it, and the chain of calls that are still waiting to return.
+
+import { StackTag } from '../types';
+
+export interface StackRow {
+  address: number;
+  value: number;
+  tag: StackTag | null; // What pushed the word, if it is still the word that was pushed
+  overwritten: boolean; // Something pushed here, but a store has changed it since
+  inStack: boolean;     // Below the base, so part of the stack the program set up
+}
+
+export interface CallFrame {
+  kind: 'call' | 'interrupt';
+  entry: number;      // Subroutine or interrupt vector
+  calledFrom: number; // Address of the CALL/RST, or of the instruction an interrupt came before
+  returnTo: number;
+  slot: number;       // Where the return address sits on the stack
+}
+
+// Frames past this many words are not looked for
+const MAX_CALL_SEARCH_WORDS = 0x400;
+
+/** Bytes pushed below `base`, as a signed 16-bit distance so a stack at the top of memory works. */
+export const stackDepth = (base: number, sp: number): number => ((base - sp) << 16) >> 16;
+
+const readWord = (memory: Uint8Array, address: number): number =>
+  memory[address & 0xFFFF] | (memory[(address + 1) & 0xFFFF] << 8);
+
+const rowAt = (memory: Uint8Array, tags: Map<number, StackTag>, base: number, address: number): StackRow => {
+  const value = readWord(memory, address);
+  const pushed = tags.get(address);
+  const intact = pushed !== undefined && pushed.value === value;
+  return { address, value, tag: intact ? pushed : null, overwritten: pushed !== undefined && !intact, inStack: stackDepth(base, address) > 0 };
+};
+
+/** `count` words from SP upward. */
+export const readStack = (memory: Uint8Array, sp: number, tags: Map<number, StackTag>, base: number, count: number): StackRow[] =>
+  Array.from({ length: count }, (_, i) => rowAt(memory, tags, base, (sp + i * 2) & 0xFFFF));
+
+/** Return addresses still on the stack, innermost call first. */
+export const callStack = (memory: Uint8Array, sp: number, tags: Map<number, StackTag>, base: number): CallFrame[] => {
+  const words = Math.min(Math.max(stackDepth(base, sp), 0) >> 1, MAX_CALL_SEARCH_WORDS);
+  const frames: CallFrame[] = [];
+  for (let i = 0; i < words; i++) {
+    const { address, value, tag } = rowAt(memory, tags, base, (sp + i * 2) & 0xFFFF);
+    if (tag && (tag.kind === 'call' || tag.kind === 'interrupt')) {
+      frames.push({ kind: tag.kind, entry: tag.target ?? 0, calledFrom: tag.pushedBy, returnTo: value, slot: address });
+    }
+  }
+  return frames;
+};
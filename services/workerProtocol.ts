@@ -0,0 +1,122 @@
+// Messages between the app and the CPU worker (cpu.worker.ts). Commands carry
+// an id that the matching response echoes. A run answers with 'stopped' when
+// it ends, and sends 'progress' unprompted while it goes.
+//
+// The worker only runs code. Peripherals stay on the main thread with the UI,
+// so before an instruction that would touch one (IN/OUT to a device port,
+// RIM/SIM with a serial line attached) the worker stops with a 'host' reason
+// and the main thread executes it. Memory-mapped devices are not handed over
+// this way: while any is attached, the app does not use the worker at all.
+
+import { CPU8085 } from './8085';
+import { RunSpeed } from './scheduler';
+import { Breakpoint, BreakReason, DaaMode, Flags, HistoryEntry, InterruptLine, InterruptState, MemoryRegion, Registers, RunTarget, StackBounds, StackTag, Watchpoint } from '../types';
+
+// Everything the CPU carries between instructions, apart from memory
+export interface MachineState {
+  registers: Registers;
+  flags: Flags;
+  halted: boolean;
+  cycles: number;
+  interrupts: InterruptState;
+  interruptLines: Record<InterruptLine, boolean>;
+  sod: boolean;
+  lastSubtract: boolean;
+  ioPorts: Uint8Array;
+  stackTags: Map<number, StackTag>;
+  stackBounds: StackBounds;
+}
+
+export interface MachineConfig {
+  memoryRegions: MemoryRegion[];
+  hostPorts: number[];  // Ports with a device on the main thread
+  hostSerial: boolean;  // A serial device is attached to SID/SOD
+  undocumented: boolean;
+  daaMode: DaaMode;
+  clockHz: number;
+  historyLimit: number;
+}
+
+export type StopReason =
+  | { kind: 'paused' }
+  | { kind: 'stepped' }                      // A step command ran its count
+  | { kind: 'halted' }                       // HLT with no way to wake up
+  | { kind: 'break'; reason: BreakReason }   // Breakpoint, watchpoint, fault or monitor return
+  | { kind: 'host' };                        // The next instruction needs a main-thread device
+
+export interface WorkerSnapshot {
+  state: MachineState;
+  memory?: Uint8Array;     // Only when memory is not shared
+  history: HistoryEntry[]; // Instructions executed since the last load
+}
+
+export type WorkerCommand =
+  // `memory` is adopted if shared and copied in otherwise; omitted, the worker keeps what it has
+  | { type: 'load'; id: number; config: MachineConfig; state: MachineState; memory?: Uint8Array | SharedArrayBuffer }
+  | { type: 'step'; id: number; count: number }
+  // `stopSignal` is set to 1 by the main thread to stop without waiting for the worker to read its messages.
+  // `target` ends the run where a Step Over, Step Out or Run To Cursor should stop.
+  | { type: 'run'; id: number; speed: RunSpeed; stopSignal?: SharedArrayBuffer; target?: RunTarget }
+  | { type: 'pause'; id: number }
+  | { type: 'setSpeed'; id: number; speed: RunSpeed }
+  | { type: 'setBreakpoints'; id: number; breakpoints: Breakpoint[]; watchpoints: Watchpoint[] }
+  | { type: 'setInterruptLine'; id: number; line: InterruptLine; level: boolean }
+  | { type: 'raiseInterrupt'; id: number; line: InterruptLine; opcode: number }
+  | { type: 'readMemory'; id: number; start: number; length: number }
+  | { type: 'snapshot'; id: number };
+
+export type WorkerResponse =
+  | { type: 'done'; id: number }
+  | { type: 'error'; id: number; message: string }
+  | { type: 'stopped'; id: number; reason: StopReason; snapshot: WorkerSnapshot }
+  | { type: 'memory'; id: number; start: number; bytes: Uint8Array }
+  | { type: 'snapshot'; id: number; snapshot: WorkerSnapshot }
+  | { type: 'progress'; state: MachineState; effectiveHz: number; memory?: Uint8Array };
+
+export const captureMachineState = (cpu: CPU8085): MachineState => ({
+  registers: { ...cpu.registers },
+  flags: { ...cpu.flags },
+  halted: cpu.halted,
+  cycles: cpu.cycles,
+  interrupts: { ...cpu.interrupts, requested: [...cpu.interrupts.requested] },
+  interruptLines: cpu.getInterruptLines(),
+  sod: cpu.sod,
+  lastSubtract: cpu.lastSubtract,
+  ioPorts: cpu.ioPorts.slice(),
+  stackTags: new Map(cpu.stackTags),
+  stackBounds: { ...cpu.stackBounds },
+});
+
+export const applyMachineState = (cpu: CPU8085, state: MachineState): void => {
+  // Lines first: raising one latches RST 7.5/TRAP, and the saved latches below are what count
+  (Object.keys(state.interruptLines) as InterruptLine[]).forEach(line => cpu.setInterruptLine(line, state.interruptLines[line]));
+  cpu.registers = { ...state.registers };
+  cpu.flags = { ...state.flags };
+  cpu.halted = state.halted;
+  cpu.cycles = state.cycles;
+  cpu.interrupts = { ...state.interrupts, requested: [...state.interrupts.requested] };
+  cpu.sod = state.sod;
+  cpu.lastSubtract = state.lastSubtract;
+  cpu.ioPorts.set(state.ioPorts);
+  cpu.stackTags = new Map(state.stackTags);
+  cpu.stackBounds = { ...state.stackBounds };
+};
+
+export const machineConfig = (cpu: CPU8085): MachineConfig => ({
+  memoryRegions: cpu.memoryMap.regions,
+  hostPorts: cpu.bus.mappings.ports.flatMap(m => Array.from({ length: m.end - m.start + 1 }, (_, i) => m.start + i)),
+  hostSerial: cpu.serialLine !== null,
+  undocumented: cpu.undocumented,
+  daaMode: cpu.daaMode,
+  clockHz: cpu.clockHz,
+  historyLimit: cpu.historyLimit,
+});
+
+/** Whether the next step would run an instruction that touches a main-thread device. */
+export const needsHost = (cpu: CPU8085, config: Pick<MachineConfig, 'hostPorts' | 'hostSerial'>): boolean => {
+  if (cpu.halted || cpu.hasPendingInterrupt()) return false;
+  const pc = cpu.registers.PC;
+  const opcode = cpu.memory[pc];
+  if (opcode === 0xDB || opcode === 0xD3) return config.hostPorts.includes(cpu.memory[(pc + 1) & 0xFFFF]); // IN, OUT
+  return config.hostSerial && (opcode === 0x20 || opcode === 0x30); // RIM, SIM
+};
@@ -17,6 +17,25 @@ export interface Flags {
   AC: boolean; // Auxiliary Carry
   P: boolean;  // Parity
   CY: boolean; // Carry
+  // Undocumented, in PSW bits 1 and 5 when the CPU's `undocumented` toggle is on
+  V: boolean;  // Overflow: signed overflow of the last 8-bit add or subtract (or DSUB); logical ops clear it
+  K: boolean;  // Also X5/UI: S XOR V after an add or subtract; INX/DCX set it when the pair wraps
+}
+
+// DAA behaviour: 'silicon' always adjusts as after an addition, as every real 8085 does;
+// 'subtract-aware' also corrects after SUB/SBB/DCR/CMP, using the CPU's record of the last operation
+export type DaaMode = 'silicon' | 'subtract-aware';
+
+export type InterruptLine = 'TRAP' | 'RST7.5' | 'RST6.5' | 'RST5.5' | 'INTR';
+
+export interface InterruptState {
+  enabled: boolean;       // IE flip-flop (EI/DI)
+  enablePending: boolean; // EI takes effect after the following instruction
+  masks: number;          // SIM mask bits: bit 0 M5.5, bit 1 M6.5, bit 2 M7.5
+  rst75Latch: boolean;    // RST 7.5 is edge-triggered and latched
+  trapLatch: boolean;
+  requested: InterruptLine[]; // Lines raised from the UI, held until acknowledged
+  intrOpcode: number;     // Opcode supplied on INTA for INTR (an RST instruction)
 }
 
 export interface CPUState {
@@ -25,6 +44,15 @@ export interface CPUState {
   memory: Uint8Array;
   halted: boolean;
   ioPorts: Uint8Array; // Simplified I/O ports
+  cycles: number; // T-states executed since reset
+  clockHz: number;
+  interrupts: InterruptState;
+  pendingInterrupts: InterruptLine[]; // Lines currently asserted, regardless of masks
+  undocumented: boolean; // Undocumented opcodes and the V/K flags are enabled
+  daaMode: DaaMode;
+  sod: boolean; // Serial output pin
+  stackTags: Map<number, StackTag>; // Keyed by the address of the word's low byte
+  stackBounds: StackBounds;
 }
 
 export enum InteractionMode {
@@ -35,6 +63,113 @@ export enum InteractionMode {
   RUNNING,
 }
 
+export interface MemoryAccess {
+  type: 'read' | 'write';
+  address: number;
+  value: number;
+}
+
+export type MemoryAccessListener = (access: MemoryAccess) => void;
+
+export interface Breakpoint {
+  address: number;
+  condition?: string; // e.g. "A == 0x3F && CY"; empty means always break
+  enabled: boolean;
+}
+
+export type WatchAccess = 'read' | 'write' | 'readwrite';
+
+export interface Watchpoint {
+  id: number;
+  start: number;
+  end: number; // Inclusive
+  access: WatchAccess;
+}
+
+export interface ByteChange {
+  address: number; // Memory address or I/O port number
+  oldValue: number;
+  newValue: number;
+}
+
+// What pushed a word onto the stack, recorded by the CPU for the stack inspector
+export interface StackTag {
+  kind: 'call' | 'interrupt' | 'push'; // 'call' covers CALL, Ccond and RST
+  value: number;    // Word as pushed; anything else there now was stored over it
+  pushedBy: number; // Address of the instruction, or of the one an interrupt came before
+  target?: number;  // Calls and interrupts: the subroutine or vector entered
+  register?: 'B' | 'D' | 'H' | 'PSW'; // PUSH
+}
+
+// How deep the stack has gone since LXI SP or SPHL last set it. Depths are
+// bytes below the base; a negative one means more was popped than pushed.
+export interface StackBounds {
+  base: number;
+  maxDepth: number;
+  minDepth: number;
+}
+
+export interface CPUSnapshot {
+  registers: Registers;
+  flags: Flags;
+  halted: boolean;
+  cycles: number;
+  interrupts: InterruptState;
+  sod: boolean;
+  lastSubtract: boolean;
+  stackBounds: StackBounds;
+}
+
+// Everything one instruction changed, so it can be undone
+export interface HistoryEntry {
+  address: number; // PC of the instruction
+  bytes: number[]; // Instruction bytes as fetched
+  note?: string;   // Set instead of bytes for non-instruction steps, e.g. 'TRAP'
+  before: CPUSnapshot;
+  after: CPUSnapshot;
+  memoryWrites: ByteChange[];
+  portWrites: ByteChange[];
+  stackTagChanges: StackTagChange[]; // Stack inspector annotations the pushes replaced
+  deviceStates: DeviceStateChange[]; // Devices as they were before the instruction first used them
+}
+
+export interface DeviceStateChange {
+  device: { restoreState?(state: unknown): void }; // An attached IODevice or the serial line
+  state: unknown;
+}
+
+export interface StackTagChange {
+  address: number;
+  oldTag: StackTag | undefined;
+}
+
+export type MemoryRegionKind = 'rom' | 'ram' | 'unmapped' | 'mmio';
+
+export interface MemoryRegion {
+  start: number;
+  end: number; // Inclusive
+  kind: MemoryRegionKind;
+  label?: string;
+}
+
+export interface MemoryFault {
+  type: 'rom-write' | 'unmapped-read' | 'unmapped-write' | 'unmapped-fetch';
+  address: number;
+  value: number; // Byte written, or 0FFH returned for a read
+  pc: number;    // Instruction that caused it
+}
+
+export interface BreakReason {
+  kind: 'breakpoint' | 'watchpoint' | 'monitor' | 'fault' | 'target'; // 'target': a Step Over, Step Out or Run To Cursor finished
+  address: number; // PC for breakpoints and monitor returns, accessed address for watchpoints and faults
+  message: string;
+}
+
+// Where Step Over, Step Out and Run To Cursor stop
+export type RunTarget =
+  | { kind: 'address'; address: number; minSP?: number } // PC reaches the address, with SP at or above minSP
+  | { kind: 'return'; sp: number };                      // A RET or taken Rcond pops the stack above sp
+
 export type RegisterName = keyof Registers;
 export type FlagName = keyof Flags;
     
\ No newline at end of file
@@ -1,7 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       base: '/8085simulator/',
@@ -9,6 +9,10 @@ export default defineConfig(({ mode }) => {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
       },
+      build: {
+        copyPublicDir: !isSsrBuild, // The CLI bundle needs no static assets
+        ...(isSsrBuild ? { rollupOptions: { input: ['cli/run8085.ts', 'cli/grade8085.ts', 'cli/conformance8085.ts'] } } : {}),
+      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),